@@ -2,6 +2,7 @@ import { Routes, Route } from 'react-router-dom';
 import Home from './pages/Home';
 import Lobby from './pages/Lobby';
 import Game from './pages/Game';
+import Watch from './pages/Watch';
 import Admin from './pages/Admin';
 
 function App() {
@@ -10,6 +11,7 @@ function App() {
       <Route path="/" element={<Home />} />
       <Route path="/lobby" element={<Lobby />} />
       <Route path="/game/:gameId" element={<Game />} />
+      <Route path="/game/:gameId/watch" element={<Watch />} />
       <Route path="/admin" element={<Admin />} />
     </Routes>
   );
@@ -0,0 +1,107 @@
+import { motion } from 'framer-motion';
+import { BLUNDER_THRESHOLD, PlayerReview, ReviewedDecision } from '@whoopie/shared';
+import { MiniCard } from './Card';
+
+interface GameReviewModalProps {
+  review: PlayerReview;
+  onClose: () => void;
+}
+
+function lossClass(expectedLoss: number): string {
+  if (expectedLoss >= BLUNDER_THRESHOLD) return 'text-red-400';
+  if (expectedLoss > 0) return 'text-yellow-300';
+  return 'text-green-400';
+}
+
+function DecisionRow({ decision }: { decision: ReviewedDecision }) {
+  const isBest = decision.expectedLoss === 0;
+
+  return (
+    <li className="flex items-center justify-between gap-2 text-sm">
+      <div className="flex items-center gap-1 text-gray-200">
+        {decision.type === 'bid' ? (
+          <span>
+            Bid {decision.bid}
+            {!isBest && <span className="text-gray-400"> · better: {decision.bestBid}</span>}
+          </span>
+        ) : (
+          <>
+            <span>Trick {decision.trickNumber}:</span>
+            <MiniCard card={decision.card} />
+            {!isBest && (
+              <>
+                <span className="text-gray-400">· better:</span>
+                <MiniCard card={decision.bestCard} />
+              </>
+            )}
+          </>
+        )}
+      </div>
+      <span className={`font-mono ${lossClass(decision.expectedLoss)}`}>
+        {isBest ? '✓' : `−${decision.expectedLoss}`}
+      </span>
+    </li>
+  );
+}
+
+// Post-game review: each bid and card compared with the expert AI's pick
+export function GameReviewModal({ review, onClose }: GameReviewModalProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.9 }}
+        className="bg-gray-800 rounded-xl p-6 max-w-lg w-full max-h-[90dvh] flex flex-col"
+      >
+        <h2 className="text-2xl font-bold text-white mb-1 text-center">Game Review</h2>
+        <p className="text-gray-400 text-sm text-center mb-4">
+          {review.blunders} {review.blunders === 1 ? 'blunder' : 'blunders'}
+          {' · '}
+          about {review.expectedLoss} points left on the table
+        </p>
+
+        <div className="overflow-y-auto space-y-3 flex-1">
+          {review.stanzas.map((stanza) => (
+            <div key={stanza.stanzaNumber} className="bg-gray-900 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-white font-semibold">
+                  Stanza {stanza.stanzaNumber}
+                  <span className="text-gray-400 font-normal text-sm">
+                    {' · '}{stanza.cardsPerPlayer} {stanza.cardsPerPlayer === 1 ? 'card' : 'cards'}
+                    {' · '}bid {stanza.bid}, took {stanza.tricksTaken}
+                    {' · '}{stanza.scoreChange > 0 ? `+${stanza.scoreChange}` : stanza.scoreChange}
+                  </span>
+                </p>
+                <span className={`text-sm font-mono ${lossClass(stanza.expectedLoss)}`}>
+                  {stanza.expectedLoss > 0 ? `−${stanza.expectedLoss}` : '✓'}
+                </span>
+              </div>
+              {stanza.decisions.length > 0 ? (
+                <ul className="space-y-1">
+                  {stanza.decisions.map((decision, i) => (
+                    <DecisionRow key={i} decision={decision} />
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-500 text-sm">Every move was forced</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="mt-4 px-4 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-500 transition font-semibold"
+        >
+          Close
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,43 @@
+import { motion } from 'framer-motion';
+import { Hint, describeHintReason } from '@whoopie/shared';
+import { MiniCard } from './Card';
+
+interface HintBubbleProps {
+  hint: Hint;
+  onClose: () => void;
+}
+
+// Coaching hint: the recommended bid or card and why
+export function HintBubble({ hint, onClose }: HintBubbleProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 8 }}
+      className="relative bg-indigo-900/95 border border-indigo-400 rounded-xl p-3 max-w-sm mx-auto mb-2 text-left shadow-lg"
+    >
+      <button
+        onClick={onClose}
+        className="absolute top-1 right-2 text-indigo-300 hover:text-white text-sm"
+        aria-label="Close hint"
+      >
+        ✕
+      </button>
+      <div className="flex items-center gap-2 text-white font-semibold mb-1">
+        {hint.type === 'bid' ? (
+          <span>Try bidding {hint.bid}</span>
+        ) : (
+          <>
+            <span>Try playing</span>
+            <MiniCard card={hint.card} />
+          </>
+        )}
+      </div>
+      <ul className="text-indigo-100 text-sm space-y-0.5">
+        {hint.reasons.map((reason, i) => (
+          <li key={i}>• {describeHintReason(reason)}</li>
+        ))}
+      </ul>
+    </motion.div>
+  );
+}
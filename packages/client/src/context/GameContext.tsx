@@ -1,8 +1,8 @@
 import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
 import { useSocket } from './SocketContext';
-import { Card, GameEvent, AIDifficulty } from '@whoopie/shared';
+import { Card, GameEvent, AIDifficulty, AIPersonalityName, GameSettings, Hint, PlayerReview } from '@whoopie/shared';
 
-// Player view type (what the server sends)
+// The parts of the GameView the server sends (see protocol.ts in @whoopie/shared) that the client uses
 interface PlayerView {
   id: string;
   phase: string;
@@ -11,12 +11,20 @@ interface PlayerView {
     name: string;
     type: 'human' | 'ai';
     isConnected?: boolean;
+    personality?: AIPersonalityName;
+  }>;
+  pendingPlayers: Array<{
+    id: string;
+    name: string;
   }>;
   scores: number[];
+  truncatedAverage: number;
   hostId: string;
+  settings: GameSettings;
   stanza: {
     stanzaNumber: number;
     cardsPerPlayer: number;
+    direction: 'up' | 'down';
     dealerIndex: number;
     whoopieDefiningCard: Card | null;
     whoopieRank: string | null;
@@ -37,8 +45,10 @@ interface PlayerView {
     currentPlayerIndex: number;
     myHand: Card[];
     otherHandCounts: number[];
+    hands?: Card[][]; // Spectators only, when the game reveals hands on a delay
   } | null;
   myIndex: number;
+  isSpectator?: boolean;
   validActions: {
     canBid: number[];
     canPlay: Card[];
@@ -62,14 +72,22 @@ interface GameContextType {
   wasKicked: boolean;
   resumeCode: string | null;
   missingPlayers: string[];
+  isSpectator: boolean;
   createGame: (playerName: string) => Promise<string>;
   joinGame: (gameId: string, playerName: string) => Promise<void>;
-  addAI: (difficulty: AIDifficulty) => Promise<void>;
+  spectateGame: (gameId: string) => Promise<void>;
+  addAI: (difficulty: AIDifficulty, personality?: AIPersonalityName) => Promise<void>;
+  listBots: () => Promise<string[]>;
+  addExternalBot: (botName: string) => Promise<void>;
+  updateSettings: (settings: Partial<GameSettings>) => Promise<void>;
   startGame: () => Promise<void>;
   placeBid: (bid: number) => Promise<void>;
   playCard: (card: Card, calledWhoopie: boolean) => Promise<void>;
+  requestHint: () => Promise<Hint>;
+  requestReview: () => Promise<PlayerReview>;
   leaveGame: () => void;
   kickPlayer: (targetPlayerId: string) => Promise<void>;
+  transferHost: (targetPlayerId: string) => Promise<void>;
   replaceWithAI: (targetPlayerId: string) => Promise<void>;
   continueWithoutPlayer: (targetPlayerId: string) => Promise<void>;
   pauseGame: () => Promise<string>;
@@ -97,16 +115,19 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
   const [wasKicked, setWasKicked] = useState(false);
   const [resumeCode, setResumeCode] = useState<string | null>(null);
   const [missingPlayers, setMissingPlayers] = useState<string[]>([]);
+  const [isSpectator, setIsSpectator] = useState(false);
 
   // Track if we need to reconnect after socket reconnects (ref avoids stale closures)
   const needsReconnectRef = useRef(false);
   // Refs for gameId/playerId so callbacks always see current values
   const gameIdRef = useRef<string | null>(null);
   const playerIdRef = useRef<string | null>(null);
+  const isSpectatorRef = useRef(false);
 
   // Keep refs in sync with state
   useEffect(() => { gameIdRef.current = gameId; }, [gameId]);
   useEffect(() => { playerIdRef.current = playerId; }, [playerId]);
+  useEffect(() => { isSpectatorRef.current = isSpectator; }, [isSpectator]);
 
   // Listen for game events
   useEffect(() => {
@@ -119,6 +140,11 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
       if (event.type === 'gamePaused') {
         setResumeCode(event.resumeCode);
       }
+
+      // Decisions about disconnected players are the host's; a new host is asked again
+      if (event.type === 'hostChanged' && event.playerId !== playerIdRef.current) {
+        setDisconnectedPlayer(null);
+      }
     };
 
     const handleState = (newView: PlayerView) => {
@@ -144,7 +170,7 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
 
     // When socket disconnects, mark that we need to reconnect
     const handleDisconnect = () => {
-      if (gameIdRef.current && playerIdRef.current) {
+      if (gameIdRef.current && (playerIdRef.current || isSpectatorRef.current)) {
         console.log('Socket disconnected, will attempt to reconnect to game...');
         needsReconnectRef.current = true;
       }
@@ -154,22 +180,33 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     const attemptReconnect = () => {
       const gId = gameIdRef.current;
       const pId = playerIdRef.current;
-      if (!needsReconnectRef.current || !gId || !pId) return;
+      if (!needsReconnectRef.current || !gId) return;
+
+      // Spectators just start watching again
+      if (isSpectatorRef.current) {
+        socket.emit('game:spectate', { gameId: gId }, (response) => {
+          if (response.success) {
+            setView(response.view);
+          }
+          needsReconnectRef.current = false;
+        });
+        return;
+      }
+      if (!pId) return;
 
       console.log('Attempting to reconnect to game...');
-      socket.emit('game:reconnect', { gameId: gId, playerId: pId }, (response: { success: boolean; view?: PlayerView; error?: string }) => {
-        if (response.success && response.view) {
-          console.log('Successfully reconnected to game');
-          setView(response.view);
-          needsReconnectRef.current = false;
-        } else {
-          console.error('Failed to reconnect to game:', response.error);
-          setGameId(null);
-          setPlayerId(null);
-          setView(null);
-          setEvents([]);
-          needsReconnectRef.current = false;
-        }
+      // Through emit, so the fresh session token it comes with is kept
+      emit('game:reconnect', { gameId: gId, playerId: pId }).then((response) => {
+        console.log('Successfully reconnected to game');
+        setView(response.view);
+        needsReconnectRef.current = false;
+      }).catch((error: Error) => {
+        console.error('Failed to reconnect to game:', error.message);
+        setGameId(null);
+        setPlayerId(null);
+        setView(null);
+        setEvents([]);
+        needsReconnectRef.current = false;
       });
     };
 
@@ -204,35 +241,61 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
       socket.off('connect', handleConnect);
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [socket]);
+  }, [socket, emit]);
 
   const createGame = useCallback(async (name: string): Promise<string> => {
-    const response = await emit<{ gameId: string; view: PlayerView }>('game:create', {
+    const response = await emit('game:create', {
       playerName: name,
     });
     setGameId(response.gameId);
     setPlayerName(name);
     setPlayerId(response.view.players[0]?.id || null);
+    setIsSpectator(false);
     setView(response.view);
     setEvents([]);
     return response.gameId;
   }, [emit]);
 
   const joinGame = useCallback(async (id: string, name: string): Promise<void> => {
-    const response = await emit<{ playerId: string; view: PlayerView }>('game:join', {
+    const response = await emit('game:join', {
       gameId: id,
       playerName: name,
     });
     setGameId(id);
     setPlayerName(name);
     setPlayerId(response.playerId);
+    setIsSpectator(false);
     setView(response.view);
     setEvents([]);
   }, [emit]);
 
-  const addAI = useCallback(async (difficulty: AIDifficulty): Promise<void> => {
+  const spectateGame = useCallback(async (id: string): Promise<void> => {
+    const response = await emit('game:spectate', { gameId: id });
+    setGameId(id);
+    setPlayerId(null);
+    setIsSpectator(true);
+    setView(response.view);
+    setEvents([]);
+  }, [emit]);
+
+  const addAI = useCallback(async (difficulty: AIDifficulty, personality?: AIPersonalityName): Promise<void> => {
     if (!gameId) throw new Error('Not in a game');
-    await emit('game:addAI', { gameId, difficulty });
+    await emit('game:addAI', { gameId, difficulty, personality });
+  }, [emit, gameId]);
+
+  const listBots = useCallback(async (): Promise<string[]> => {
+    const response = await emit('game:listBots', {});
+    return response.bots;
+  }, [emit]);
+
+  const addExternalBot = useCallback(async (botName: string): Promise<void> => {
+    if (!gameId) throw new Error('Not in a game');
+    await emit('game:addBot', { gameId, botName });
+  }, [emit, gameId]);
+
+  const updateSettings = useCallback(async (settings: Partial<GameSettings>): Promise<void> => {
+    if (!gameId) throw new Error('Not in a game');
+    await emit('game:updateSettings', { gameId, settings });
   }, [emit, gameId]);
 
   const startGame = useCallback(async (): Promise<void> => {
@@ -250,21 +313,39 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     await emit('game:play', { gameId, card, calledWhoopie });
   }, [emit, gameId]);
 
+  const requestHint = useCallback(async (): Promise<Hint> => {
+    if (!gameId) throw new Error('Not in a game');
+    const response = await emit('game:hint', { gameId });
+    return response.hint;
+  }, [emit, gameId]);
+
+  const requestReview = useCallback(async (): Promise<PlayerReview> => {
+    if (!gameId) throw new Error('Not in a game');
+    const response = await emit('game:review', { gameId });
+    return response.review;
+  }, [emit, gameId]);
+
   const leaveGame = useCallback(() => {
     if (socket && gameId) {
-      socket.emit('game:leave');
+      socket.emit(isSpectator ? 'game:stopSpectating' : 'game:leave');
     }
+    setIsSpectator(false);
     setGameId(null);
     setPlayerId(null);
     setView(null);
     setEvents([]);
-  }, [socket, gameId]);
+  }, [socket, gameId, isSpectator]);
 
   const kickPlayer = useCallback(async (targetPlayerId: string): Promise<void> => {
     if (!gameId) throw new Error('Not in a game');
     await emit('game:kick', { gameId, targetPlayerId });
   }, [emit, gameId]);
 
+  const transferHost = useCallback(async (targetPlayerId: string): Promise<void> => {
+    if (!gameId) throw new Error('Not in a game');
+    await emit('game:transferHost', { gameId, targetPlayerId });
+  }, [emit, gameId]);
+
   const replaceWithAI = useCallback(async (targetPlayerId: string): Promise<void> => {
     if (!gameId) throw new Error('Not in a game');
     await emit('game:replaceWithAI', { gameId, targetPlayerId });
@@ -279,21 +360,18 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
 
   const pauseGame = useCallback(async (): Promise<string> => {
     if (!gameId) throw new Error('Not in a game');
-    const response = await emit<{ resumeCode: string }>('game:pause', { gameId });
+    const response = await emit('game:pause', { gameId });
     setResumeCode(response.resumeCode);
     return response.resumeCode;
   }, [emit, gameId]);
 
   const checkResumeCode = useCallback(async (code: string): Promise<{ valid: boolean; playerNames?: string[] }> => {
-    const response = await emit<{ success: boolean; playerNames?: string[]; error?: string }>('game:checkResumeCode', { resumeCode: code });
-    if (!response.success) {
-      throw new Error(response.error || 'Invalid resume code');
-    }
+    const response = await emit('game:checkResumeCode', { resumeCode: code });
     return { valid: true, playerNames: response.playerNames };
   }, [emit]);
 
   const resumeGame = useCallback(async (code: string, name: string): Promise<string> => {
-    const response = await emit<{ gameId: string; playerId: string; view: PlayerView; missingPlayers: string[] }>('game:resume', {
+    const response = await emit('game:resume', {
       resumeCode: code,
       playerName: name,
     });
@@ -307,7 +385,7 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
   }, [emit]);
 
   const rejoinGame = useCallback(async (id: string, name: string): Promise<void> => {
-    const response = await emit<{ playerId: string; view: PlayerView; missingPlayers: string[]; allRejoined: boolean }>('game:rejoin', {
+    const response = await emit('game:rejoin', {
       gameId: id,
       playerName: name,
     });
@@ -358,14 +436,22 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
         wasKicked,
         resumeCode,
         missingPlayers,
+        isSpectator,
         createGame,
         joinGame,
+        spectateGame,
         addAI,
+        listBots,
+        addExternalBot,
+        updateSettings,
         startGame,
         placeBid,
         playCard,
+        requestHint,
+        requestReview,
         leaveGame,
         kickPlayer,
+        transferHost,
         replaceWithAI,
         continueWithoutPlayer,
         pauseGame,
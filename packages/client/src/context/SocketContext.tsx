@@ -1,21 +1,29 @@
-import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { ClientToServerEvents, GameError, RequestEvent, RequestPayloads, RequestResults, Response, ServerToClientEvents } from '@whoopie/shared';
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 interface SocketContextType {
-  socket: Socket | null;
+  socket: GameSocket | null;
   isConnected: boolean;
-  emit: <T>(event: string, data: any) => Promise<T>;
+  emit: <E extends RequestEvent>(event: E, data: RequestPayloads[E]) => Promise<RequestResults[E]>;
 }
 
 const SocketContext = createContext<SocketContextType | null>(null);
 
+// Where this device keeps the session token that holds its seats
+const SESSION_TOKEN_KEY = 'whoopieSessionToken';
+
 export function SocketProvider({ children }: { children: React.ReactNode }) {
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  // This tab's token; other tabs may store a newer one, but our seats are held by this one
+  const sessionTokenRef = useRef(localStorage.getItem(SESSION_TOKEN_KEY));
 
   useEffect(() => {
     const socketUrl = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3005';
-    const newSocket = io(socketUrl, {
+    const newSocket: GameSocket = io(socketUrl, {
       autoConnect: true,
       reconnection: true,
       reconnectionAttempts: Infinity,
@@ -23,6 +31,8 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       reconnectionDelayMax: 10000,
       transports: ['websocket', 'polling'],
       withCredentials: true,
+      // Read on every (re)connect, so a token issued since the socket opened is sent
+      auth: (cb) => cb({ token: sessionTokenRef.current }),
     });
 
     newSocket.on('connect', () => {
@@ -57,16 +67,25 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
-  const emit = useCallback(<T,>(event: string, data: any): Promise<T> => {
+  const emit = useCallback(<E extends RequestEvent>(event: E, data: RequestPayloads[E]): Promise<RequestResults[E]> => {
     return new Promise((resolve, reject) => {
       if (!socket) {
         reject(new Error('Socket not connected'));
         return;
       }
 
-      socket.emit(event, data, (response: { success: boolean; error?: string } & T) => {
+      // socket.emit can't pick the callback type for a generic event, so it's spelled out here
+      const send = socket.emit as (event: E, data: RequestPayloads[E], callback: (response: Response<RequestResults[E]>) => void) => void;
+      send.call(socket, event, data, (response) => {
         if (response.success) {
+          // Requests that seat us come with the token for this device's identity
+          if ('sessionToken' in response) {
+            sessionTokenRef.current = response.sessionToken;
+            localStorage.setItem(SESSION_TOKEN_KEY, response.sessionToken);
+          }
           resolve(response);
+        } else if (response.code) {
+          reject(new GameError(response.code, response.error, response.details));
         } else {
           reject(new Error(response.error || 'Unknown error'));
         }
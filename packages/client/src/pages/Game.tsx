@@ -7,7 +7,9 @@ import RulesContent from '../components/RulesContent';
 import { HelpMenu } from '../components/HelpMenu';
 import { FeedbackModal } from '../components/FeedbackModal';
 import { PauseModal } from '../components/PauseModal';
-import { Card as CardType, cardsEqual, isWhoopieCard, isSuitCard, isJoker, Suit, RANK_VALUES } from '@whoopie/shared';
+import { HintBubble } from '../components/HintBubble';
+import { GameReviewModal } from '../components/GameReviewModal';
+import { Card as CardType, cardsEqual, isWhoopieCard, isSuitCard, isJoker, Suit, RANK_VALUES, HOUSE_RULESETS, RulesetName, GAME_LENGTH_MODES, GameLength, GameLengthMode, TABLE_SPEEDS, TableSpeed, AI_PERSONALITIES, AIPersonalityName, getStanzaSchedule, getRemainingSchedule, getScheduleMaxCards, Hint, PlayerReview, GameError } from '@whoopie/shared';
 
 const suitSymbols: Record<Suit, string> = {
   spades: '♠',
@@ -67,6 +69,11 @@ function getPlayerDisplay(
   return { initials, colorClass };
 }
 
+// Avatar (with a trailing space) for a bot with a personality
+function getAvatar(player: { personality?: AIPersonalityName }): string {
+  return player.personality ? `${AI_PERSONALITIES[player.personality].avatar} ` : '';
+}
+
 // Sort hand by suit (clubs, diamonds, hearts, spades) then by rank ascending (2, 3, ... A)
 function sortHandForDisplay(cards: CardType[]): CardType[] {
   const suitOrder = ['clubs', 'diamonds', 'hearts', 'spades'] as const;
@@ -85,6 +92,42 @@ function sortHandForDisplay(cards: CardType[]): CardType[] {
   });
 }
 
+// Word a failed request for the player, using the error's code and details where we can
+function describeError(err: unknown): string {
+  if (!(err instanceof GameError)) return (err as Error).message;
+
+  const { details } = err;
+  const listBids = (bids: number[]) => bids.join(', ');
+  switch (err.code) {
+    case 'NOT_YOUR_TURN':
+      return "It's not your turn yet";
+    case 'DEALER_HOOK_BID':
+      return details.validBids && details.forbiddenBid !== undefined
+        ? `As dealer you can't bid ${details.forbiddenBid} (the bids would add up to the cards dealt). You can bid ${listBids(details.validBids)}`
+        : "As dealer you can't make the bids add up to the cards dealt";
+    case 'INVALID_BID':
+      return details.validBids ? `You can bid ${listBids(details.validBids)}` : err.message;
+    case 'MUST_FOLLOW_SUIT':
+      return details.leadSuit
+        ? `You must follow ${suitSymbols[details.leadSuit]} ${details.leadSuit} while you have one`
+        : 'You must follow the suit led';
+    case 'CARD_NOT_IN_HAND':
+      return "That card isn't in your hand any more";
+    case 'WRONG_PHASE':
+      return "You can't do that right now";
+    case 'NOT_ENOUGH_PLAYERS':
+      return details.minPlayers ? `You need at least ${details.minPlayers} players` : err.message;
+    case 'NOT_HOST':
+      return 'Only the host can do that';
+    case 'BOT_NOT_CONNECTED':
+      return "That bot isn't connected right now";
+    case 'GAME_NOT_FOUND':
+      return 'This game no longer exists';
+    default:
+      return err.message;
+  }
+}
+
 // Animation phases for trick display
 type TrickAnimationPhase = 'playing' | 'complete' | 'gathering' | 'collecting' | 'cleared';
 
@@ -112,11 +155,17 @@ export default function Game() {
     view,
     events,
     addAI,
+    listBots,
+    addExternalBot,
+    updateSettings,
     startGame,
     placeBid,
     playCard,
+    requestHint,
+    requestReview,
     leaveGame,
     kickPlayer,
+    transferHost,
     replaceWithAI,
     continueWithoutPlayer,
     pauseGame,
@@ -158,6 +207,12 @@ export default function Game() {
   const prevStanzaRef = useRef<number>(0);
   const prevBidsRef = useRef<(number | null)[]>([]);
   const [notification, setNotification] = useState<string | null>(null);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [hintLoading, setHintLoading] = useState(false);
+  const [review, setReview] = useState<PlayerReview | null>(null);
+  const [reviewLoading, setReviewLoading] = useState(false);
+  const [aiPersonality, setAIPersonality] = useState<AIPersonalityName | ''>('');
+  const [connectedBots, setConnectedBots] = useState<string[]>([]);
   const processedEventsRef = useRef<number>(0);
 
   useEffect(() => {
@@ -212,10 +267,25 @@ export default function Game() {
     }
   }, [wasKicked, clearKicked, navigate]);
 
+  // Fetch the connected external bots while the host is filling the table
+  const isHostInLobby = view?.phase === 'waiting' && view.players[view.myIndex]?.id === view.hostId;
+  useEffect(() => {
+    if (!isHostInLobby) return;
+    listBots().then(setConnectedBots).catch(() => setConnectedBots([]));
+  }, [isHostInLobby, listBots, view?.players.length]);
+
   const handleKickPlayer = (playerId: string, playerName: string) => {
     setKickConfirm({ playerId, playerName });
   };
 
+  const handleTransferHost = async (playerId: string) => {
+    try {
+      await transferHost(playerId);
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
   const handleConfirmKick = async (replaceWithBot: boolean) => {
     if (!kickConfirm) return;
     try {
@@ -232,7 +302,7 @@ export default function Game() {
       }
       setKickConfirm(null);
     } catch (err) {
-      setError((err as Error).message);
+      setError(describeError(err));
       setKickConfirm(null);
     }
   };
@@ -242,7 +312,7 @@ export default function Game() {
     try {
       await replaceWithAI(disconnectedPlayer.playerId);
     } catch (err) {
-      setError((err as Error).message);
+      setError(describeError(err));
     }
   };
 
@@ -251,7 +321,7 @@ export default function Game() {
     try {
       await continueWithoutPlayer(disconnectedPlayer.playerId);
     } catch (err) {
-      setError((err as Error).message);
+      setError(describeError(err));
     }
   };
 
@@ -303,24 +373,29 @@ export default function Game() {
           whoopieDefiningCard: view.stanza?.whoopieDefiningCard ?? null,
           jTrumpActive: view.stanza?.jTrumpActive ?? false,
         };
-        setCompletedTrick(trickInfo);
         setLastTrickForReview(trickInfo); // Save for review feature
 
-        // Small delay to let last card animate in, then show complete phase
-        setTimeout(() => {
-          setTrickAnimPhase('complete');
-        }, 600); // Let the last card animate in
-
-        // Phase 2: Skip gathering, go straight to collecting (after 1.5s display)
-        setTimeout(() => {
-          setTrickAnimPhase('collecting');
-        }, 2100); // 600ms + 1500ms display time
-
-        // Phase 3: Clear (after 1 second for collection animation)
-        setTimeout(() => {
-          setTrickAnimPhase('cleared');
-          setCompletedTrick(null);
-        }, 3100); // 2100ms + 1000ms
+        // Instant tables skip the animation (the next trick starts right away)
+        const { trickDisplayTime } = TABLE_SPEEDS[view.settings.speed].timing;
+        if (trickDisplayTime > 0) {
+          setCompletedTrick(trickInfo);
+
+          // Small delay to let last card animate in, then show complete phase
+          setTimeout(() => {
+            setTrickAnimPhase('complete');
+          }, 600); // Let the last card animate in
+
+          // Phase 2: Skip gathering, go straight to collecting (after the display time)
+          setTimeout(() => {
+            setTrickAnimPhase('collecting');
+          }, 600 + trickDisplayTime);
+
+          // Phase 3: Clear (after 1 second for collection animation)
+          setTimeout(() => {
+            setTrickAnimPhase('cleared');
+            setCompletedTrick(null);
+          }, 1600 + trickDisplayTime);
+        }
       }
     }
 
@@ -332,7 +407,7 @@ export default function Game() {
     }
 
     prevPhaseRef.current = view.phase;
-  }, [view?.phase, view?.stanza?.completedTricks, view?.stanza?.currentTrick, view?.players]);
+  }, [view?.phase, view?.stanza?.completedTricks, view?.stanza?.currentTrick, view?.players, view?.settings.speed]);
 
   // Track bids and show announcement when a new bid is placed
   useEffect(() => {
@@ -440,6 +515,11 @@ export default function Game() {
     prevWhoopieRankRef.current = currentRank;
   }, [view?.stanza?.whoopieRank, view?.stanza?.currentTrumpSuit, view?.stanza?.whoopieDefiningCard]);
 
+  // A hint only applies to the turn it was asked for
+  useEffect(() => {
+    setHint(null);
+  }, [view?.isMyTurn, view?.phase, view?.stanza?.currentTrick.length]);
+
   // Handle player left notifications
   useEffect(() => {
     if (!events || events.length === 0) return;
@@ -463,6 +543,12 @@ export default function Game() {
         setTimeout(() => setNotification(null), 5000);
       }
 
+      if (event.type === 'hostChanged') {
+        const isMe = event.playerId === view?.players[view.myIndex]?.id;
+        setNotification(isMe ? 'You are now the host.' : `${event.playerName} is now the host.`);
+        setTimeout(() => setNotification(null), 5000);
+      }
+
       // Show Whoopie/Scramble announcement
       if (event.type === 'cardPlayed' && (event.wasWhoopie || event.wasScramble)) {
         const playerName = view?.players[event.playerIndex]?.name ?? 'Someone';
@@ -471,7 +557,7 @@ export default function Game() {
         setTimeout(() => setSpecialCardAnnouncement(null), 2500);
       }
     }
-  }, [events, view?.players]);
+  }, [events, view?.players, view?.myIndex]);
 
   if (!view) {
     return (
@@ -483,9 +569,44 @@ export default function Game() {
 
   const handleAddAI = async (difficulty: 'beginner' | 'intermediate' | 'expert') => {
     try {
-      await addAI(difficulty);
+      await addAI(difficulty, aiPersonality || undefined);
     } catch (err) {
-      setError((err as Error).message);
+      setError(describeError(err));
+    }
+  };
+
+  const handleAddBot = async (botName: string) => {
+    try {
+      await addExternalBot(botName);
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
+  const handleSelectRuleset = async (name: RulesetName) => {
+    try {
+      await updateSettings({ rules: HOUSE_RULESETS[name].rules });
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
+  const handleLengthChange = async (length: GameLength) => {
+    try {
+      await updateSettings({ length });
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
+  const handleLengthModeChange = (mode: GameLengthMode) => {
+    const { maxCards } = view.settings.length;
+    if (mode === 'fixedStanzas') {
+      handleLengthChange({ mode, stanzas: 5, maxCards });
+    } else if (mode === 'targetScore') {
+      handleLengthChange({ mode, targetScore: 25, maxCards });
+    } else {
+      handleLengthChange({ mode, maxCards });
     }
   };
 
@@ -493,7 +614,7 @@ export default function Game() {
     try {
       await startGame();
     } catch (err) {
-      setError((err as Error).message);
+      setError(describeError(err));
     }
   };
 
@@ -501,7 +622,29 @@ export default function Game() {
     try {
       await placeBid(bid);
     } catch (err) {
-      setError((err as Error).message);
+      setError(describeError(err));
+    }
+  };
+
+  const handleHint = async () => {
+    setHintLoading(true);
+    try {
+      setHint(await requestHint());
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setHintLoading(false);
+    }
+  };
+
+  const handleReview = async () => {
+    setReviewLoading(true);
+    try {
+      setReview(await requestReview());
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setReviewLoading(false);
     }
   };
 
@@ -529,7 +672,7 @@ export default function Game() {
     try {
       await playCard(card, calledWhoopie);
     } catch (err) {
-      setError((err as Error).message);
+      setError(describeError(err));
     }
   };
 
@@ -544,7 +687,7 @@ export default function Game() {
     try {
       await pauseGame();
     } catch (err) {
-      setError((err as Error).message);
+      setError(describeError(err));
     }
   };
 
@@ -727,7 +870,7 @@ export default function Game() {
                   try {
                     await continueResumedGame();
                   } catch (err) {
-                    setError((err as Error).message);
+                    setError(describeError(err));
                   }
                 }}
                 disabled={connectedPlayers.length < 2 && aiPlayers.length === 0}
@@ -817,6 +960,7 @@ export default function Game() {
                 const isMe = index === view.myIndex;
                 const isHost = view.players[view.myIndex]?.id === view.hostId;
                 const canKick = isHost && !isMe && player.id !== view.hostId;
+                const canMakeHost = canKick && player.type === 'human';
 
                 return (
                   <div
@@ -825,7 +969,7 @@ export default function Game() {
                   >
                     <div className="flex items-center gap-2">
                       <span className={player.type === 'ai' ? 'text-purple-400' : 'text-white'}>
-                        {player.name}
+                        {getAvatar(player)}{player.name}
                       </span>
                       {player.type === 'ai' && (
                         <span className="text-xs bg-purple-600 px-2 py-0.5 rounded">AI</span>
@@ -837,14 +981,24 @@ export default function Game() {
                         <span className="text-xs bg-yellow-600 px-2 py-0.5 rounded">Host</span>
                       )}
                     </div>
-                    {canKick && (
-                      <button
-                        onClick={() => handleKickPlayer(player.id, player.name)}
-                        className="text-xs bg-red-600 hover:bg-red-700 px-2 py-1 rounded text-white transition"
-                      >
-                        Kick
-                      </button>
-                    )}
+                    <div className="flex items-center gap-2">
+                      {canMakeHost && (
+                        <button
+                          onClick={() => handleTransferHost(player.id)}
+                          className="text-xs bg-yellow-600 hover:bg-yellow-700 px-2 py-1 rounded text-white transition"
+                        >
+                          Make host
+                        </button>
+                      )}
+                      {canKick && (
+                        <button
+                          onClick={() => handleKickPlayer(player.id, player.name)}
+                          className="text-xs bg-red-600 hover:bg-red-700 px-2 py-1 rounded text-white transition"
+                        >
+                          Kick
+                        </button>
+                      )}
+                    </div>
                   </div>
                 );
               })}
@@ -855,6 +1009,18 @@ export default function Game() {
           {view.players.length < 10 && view.players[view.myIndex]?.id === view.hostId && (
             <div className="mb-6">
               <p className="text-gray-400 text-sm mb-2">Add AI Player</p>
+              <select
+                value={aiPersonality}
+                onChange={(e) => setAIPersonality(e.target.value as AIPersonalityName | '')}
+                className="w-full bg-gray-700 text-white rounded-lg p-2 text-sm mb-2"
+              >
+                <option value="">No personality (plays it straight)</option>
+                {(Object.keys(AI_PERSONALITIES) as AIPersonalityName[]).map((name) => (
+                  <option key={name} value={name}>
+                    {AI_PERSONALITIES[name].avatar} {AI_PERSONALITIES[name].name} – {AI_PERSONALITIES[name].description}
+                  </option>
+                ))}
+              </select>
               <div className="flex gap-2">
                 <button
                   onClick={() => handleAddAI('beginner')}
@@ -875,6 +1041,180 @@ export default function Game() {
                   Hard
                 </button>
               </div>
+              {connectedBots.length > 0 && (
+                <>
+                  <p className="text-gray-400 text-sm mt-3 mb-2">Registered Bots</p>
+                  <div className="flex flex-wrap gap-2">
+                    {connectedBots.map((name) => (
+                      <button
+                        key={name}
+                        onClick={() => handleAddBot(name)}
+                        className="py-2 px-3 bg-indigo-700 hover:bg-indigo-600 text-white rounded-lg text-sm transition"
+                      >
+                        🔌 {name}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* House rules */}
+          <div className="mb-6">
+            <p className="text-gray-400 text-sm mb-2">House Rules</p>
+            {view.players[view.myIndex]?.id === view.hostId ? (
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(HOUSE_RULESETS) as RulesetName[]).map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => handleSelectRuleset(name)}
+                    className={`py-2 rounded-lg text-sm transition ${
+                      view.settings.rules.name === name
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                    }`}
+                  >
+                    {HOUSE_RULESETS[name].label}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-white">
+                {view.settings.rules.name === 'custom'
+                  ? 'Custom'
+                  : HOUSE_RULESETS[view.settings.rules.name].label}
+              </p>
+            )}
+            {view.settings.rules.name !== 'custom' && (
+              <p className="text-gray-400 text-xs mt-2">
+                {HOUSE_RULESETS[view.settings.rules.name].description}
+              </p>
+            )}
+          </div>
+
+          {/* Game length */}
+          {(() => {
+            const isHost = view.players[view.myIndex]?.id === view.hostId;
+            const length = view.settings.length;
+            const schedule = getStanzaSchedule(Math.max(view.players.length, 2), view.settings);
+            const deckMax = getScheduleMaxCards(Math.max(view.players.length, 2), {
+              ...view.settings,
+              length: { mode: 'full' },
+            });
+
+            return (
+              <div className="mb-6">
+                <p className="text-gray-400 text-sm mb-2">Game Length</p>
+                {isHost ? (
+                  <div className="space-y-2">
+                    <select
+                      value={length.mode}
+                      onChange={(e) => handleLengthModeChange(e.target.value as GameLengthMode)}
+                      className="w-full bg-gray-700 text-white rounded-lg p-2 text-sm"
+                    >
+                      {(Object.keys(GAME_LENGTH_MODES) as GameLengthMode[]).map((mode) => (
+                        <option key={mode} value={mode}>{GAME_LENGTH_MODES[mode].label}</option>
+                      ))}
+                    </select>
+                    <div className="flex gap-2">
+                      {length.mode === 'fixedStanzas' && (
+                        <label className="flex-1 text-gray-400 text-xs">
+                          Stanzas
+                          <input
+                            type="number"
+                            min={1}
+                            value={length.stanzas}
+                            onChange={(e) => handleLengthChange({ ...length, stanzas: Number(e.target.value) })}
+                            className="w-full bg-gray-700 text-white rounded-lg p-2 text-sm mt-1"
+                          />
+                        </label>
+                      )}
+                      {length.mode === 'targetScore' && (
+                        <label className="flex-1 text-gray-400 text-xs">
+                          Target score
+                          <input
+                            type="number"
+                            min={1}
+                            value={length.targetScore}
+                            onChange={(e) => handleLengthChange({ ...length, targetScore: Number(e.target.value) })}
+                            className="w-full bg-gray-700 text-white rounded-lg p-2 text-sm mt-1"
+                          />
+                        </label>
+                      )}
+                      <label className="flex-1 text-gray-400 text-xs">
+                        Max cards
+                        <select
+                          value={length.maxCards ?? ''}
+                          onChange={(e) => handleLengthChange({
+                            ...length,
+                            maxCards: e.target.value === '' ? undefined : Number(e.target.value),
+                          })}
+                          className="w-full bg-gray-700 text-white rounded-lg p-2 text-sm mt-1"
+                        >
+                          <option value="">No cap ({deckMax})</option>
+                          {Array.from({ length: Math.max(deckMax - 2, 0) }, (_, i) => i + 2).map((n) => (
+                            <option key={n} value={n}>{n}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-white">{GAME_LENGTH_MODES[length.mode].label}</p>
+                )}
+                <p className="text-gray-400 text-xs mt-2">
+                  {schedule
+                    ? `${schedule.length} ${schedule.length === 1 ? 'stanza' : 'stanzas'}: ${schedule.map((s) => s.cardsPerPlayer).join(' · ')}`
+                    : length.mode === 'targetScore'
+                      ? `First to ${length.targetScore} points wins`
+                      : GAME_LENGTH_MODES[length.mode].description}
+                </p>
+              </div>
+            );
+          })()}
+
+          {/* Table speed */}
+          <div className="mb-6">
+            <p className="text-gray-400 text-sm mb-2">Table Speed</p>
+            {view.players[view.myIndex]?.id === view.hostId ? (
+              <select
+                value={view.settings.speed}
+                onChange={(e) => {
+                  updateSettings({ speed: e.target.value as TableSpeed })
+                    .catch((err) => setError(describeError(err)));
+                }}
+                className="w-full bg-gray-700 text-white rounded-lg p-2 text-sm"
+              >
+                {(Object.keys(TABLE_SPEEDS) as TableSpeed[]).map((speed) => (
+                  <option key={speed} value={speed}>{TABLE_SPEEDS[speed].label}</option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-white">{TABLE_SPEEDS[view.settings.speed].label}</p>
+            )}
+            <p className="text-gray-400 text-xs mt-2">{TABLE_SPEEDS[view.settings.speed].description}</p>
+          </div>
+
+          {/* Spectators */}
+          {view.players[view.myIndex]?.id === view.hostId && (
+            <div className="mb-6">
+              <p className="text-gray-400 text-sm mb-2">Spectators</p>
+              <select
+                value={!view.settings.allowSpectators ? 'off' : view.settings.spectatorRevealDelayMs === null ? 'hidden' : 'delayed'}
+                onChange={(e) => {
+                  const choice = e.target.value;
+                  updateSettings({
+                    allowSpectators: choice !== 'off',
+                    spectatorRevealDelayMs: choice === 'delayed' ? 30_000 : null,
+                  }).catch((err) => setError(describeError(err)));
+                }}
+                className="w-full bg-gray-700 text-white rounded-lg p-2 text-sm"
+              >
+                <option value="off">No spectators</option>
+                <option value="hidden">Allowed, hands hidden</option>
+                <option value="delayed">Allowed, hands shown 30s late</option>
+              </select>
             </div>
           )}
 
@@ -938,6 +1278,17 @@ export default function Game() {
     );
   }
 
+  // Opt-in coaching: ask the server which bid or card it would pick
+  const hintButton = (
+    <button
+      onClick={handleHint}
+      disabled={hintLoading}
+      className="text-xs px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white transition"
+    >
+      {hintLoading ? '...' : 'Hint'}
+    </button>
+  );
+
   // Game in progress
   return (
     <div className="h-[100dvh] felt-texture flex flex-col overflow-hidden">
@@ -980,6 +1331,22 @@ export default function Game() {
           />
         </div>
         <div className="flex items-center gap-2 md:gap-4">
+          {view.stanza && (() => {
+            const remaining = getRemainingSchedule(
+              view.stanza,
+              view.stanza.stanzaNumber,
+              view.settings.length,
+              getScheduleMaxCards(view.players.length, view.settings)
+            );
+            const length = view.settings.length;
+            return (
+              <div className="text-gray-400 text-xs md:text-sm">
+                {remaining
+                  ? `Stanza ${view.stanza.stanzaNumber}/${view.stanza.stanzaNumber + remaining.length}`
+                  : `Stanza ${view.stanza.stanzaNumber}${length.mode === 'targetScore' ? ` · to ${length.targetScore}` : ''}`}
+              </div>
+            );
+          })()}
           <div className="text-white text-xs md:text-sm">
             <span className="hidden sm:inline">{view.stanza?.cardsPerPlayer} {view.stanza?.cardsPerPlayer === 1 ? 'card' : 'cards'}</span>
             <span className="sm:hidden">{view.stanza?.cardsPerPlayer} {view.stanza?.cardsPerPlayer === 1 ? 'card' : 'cards'}</span>
@@ -1053,7 +1420,8 @@ export default function Game() {
           // Calculate positions around the table
           // Me is at bottom (6 o'clock). Other players distributed from left (9 o'clock)
           // through top (12 o'clock) to right (3 o'clock)
-          const numOthers = numPlayers - 1;
+          // Queued players (joined mid-game) have no seat yet, so everyone is "other"
+          const numOthers = view.myIndex === -1 ? numPlayers : numPlayers - 1;
 
           // Slot-based positioning that ensures good spacing for any player count
           // Uses predefined positions that look good, then interpolates for other counts
@@ -1154,7 +1522,7 @@ export default function Game() {
                   </div>
                 )}
                 <p className={`text-xs md:text-base font-medium ${player.type === 'ai' ? 'text-purple-300' : 'text-white'}`}>
-                  {player.name}
+                  {getAvatar(player)}{player.name}
                   {isDisconnected && <span className="text-red-400 ml-1">(offline)</span>}
                 </p>
                 <p className="text-gray-400 text-xs hidden md:block">
@@ -1209,6 +1577,15 @@ export default function Game() {
                     <span className="hidden md:inline">Dealer</span>
                   </span>
                 )}
+                {isHost && isHumanPlayer && !isDisconnected && (
+                  <button
+                    onClick={() => handleTransferHost(player.id)}
+                    className="mt-0.5 md:mt-1 mr-1 text-xs bg-yellow-600/80 hover:bg-yellow-600 px-1 md:px-2 py-0.5 rounded text-white transition"
+                  >
+                    <span className="md:hidden">H</span>
+                    <span className="hidden md:inline">Make host</span>
+                  </button>
+                )}
                 {isHost && (
                   <button
                     onClick={() => handleKickPlayer(player.id, player.name)}
@@ -1429,43 +1806,58 @@ export default function Game() {
 
       {/* Bottom - player's hand and controls */}
       <div className="bg-black/40 p-2 md:p-4 safe-bottom">
+        {/* Queued to join at the next stanza */}
+        {view.myIndex === -1 && (
+          <p className="text-center text-yellow-300 mb-1 md:mb-3">
+            You'll be dealt in at the next stanza, starting with {view.truncatedAverage} points
+          </p>
+        )}
+
         {/* Player info */}
-        <div className="text-center mb-1 md:mb-3">
-          <span className="text-white font-medium">
-            {view.players[view.myIndex]?.name}
-          </span>
-          <span className="text-gray-400 mx-2">|</span>
-          <span className="text-gray-300">Score: {view.scores[view.myIndex]}</span>
-          {scoreDeltas?.[view.myIndex] !== undefined && scoreDeltas?.[view.myIndex] !== null && (
-            <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-bold ${
-              scoreDeltas[view.myIndex]! > 0 ? 'bg-green-500 text-white' : scoreDeltas[view.myIndex]! < 0 ? 'bg-red-500 text-white' : 'bg-gray-500 text-white'
-            }`}>
-              {scoreDeltas[view.myIndex]! > 0 ? `+${scoreDeltas[view.myIndex]}` : scoreDeltas[view.myIndex]}
+        {view.myIndex !== -1 && (
+          <div className="text-center mb-1 md:mb-3">
+            <span className="text-white font-medium">
+              {view.players[view.myIndex]?.name}
             </span>
-          )}
-          {view.stanza?.bids[view.myIndex] !== null && view.stanza?.bids[view.myIndex] !== undefined && (
-            <>
-              <span className="text-gray-400 mx-2">|</span>
-              <span className="text-blue-300 md:hidden">
-                B:{view.stanza.bids[view.myIndex]} T:{view.stanza?.tricksTaken[view.myIndex] ?? 0}
+            <span className="text-gray-400 mx-2">|</span>
+            <span className="text-gray-300">Score: {view.scores[view.myIndex]}</span>
+            {scoreDeltas?.[view.myIndex] !== undefined && scoreDeltas?.[view.myIndex] !== null && (
+              <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-bold ${
+                scoreDeltas[view.myIndex]! > 0 ? 'bg-green-500 text-white' : scoreDeltas[view.myIndex]! < 0 ? 'bg-red-500 text-white' : 'bg-gray-500 text-white'
+              }`}>
+                {scoreDeltas[view.myIndex]! > 0 ? `+${scoreDeltas[view.myIndex]}` : scoreDeltas[view.myIndex]}
               </span>
-              <span className="text-blue-300 hidden md:inline">
-                Bid: {view.stanza.bids[view.myIndex]} | Tricks: {view.stanza?.tricksTaken[view.myIndex] ?? 0}
+            )}
+            {view.stanza?.bids[view.myIndex] !== null && view.stanza?.bids[view.myIndex] !== undefined && (
+              <>
+                <span className="text-gray-400 mx-2">|</span>
+                <span className="text-blue-300 md:hidden">
+                  B:{view.stanza.bids[view.myIndex]} T:{view.stanza?.tricksTaken[view.myIndex] ?? 0}
+                </span>
+                <span className="text-blue-300 hidden md:inline">
+                  Bid: {view.stanza.bids[view.myIndex]} | Tricks: {view.stanza?.tricksTaken[view.myIndex] ?? 0}
+                </span>
+              </>
+            )}
+            {view.myIndex === view.stanza?.dealerIndex && (
+              <span className="ml-2 text-xs bg-yellow-600 px-1 md:px-2 py-0.5 rounded">
+                <span className="md:hidden">D</span>
+                <span className="hidden md:inline">Dealer</span>
               </span>
-            </>
-          )}
-          {view.myIndex === view.stanza?.dealerIndex && (
-            <span className="ml-2 text-xs bg-yellow-600 px-1 md:px-2 py-0.5 rounded">
-              <span className="md:hidden">D</span>
-              <span className="hidden md:inline">Dealer</span>
-            </span>
-          )}
-        </div>
+            )}
+          </div>
+        )}
 
         {/* Bidding UI */}
         {view.phase === 'bidding' && view.isMyTurn && (
           <div className="flex flex-col items-center gap-2 mb-2 md:gap-3 md:mb-4">
-            <p className="text-yellow-300 font-semibold">Your bid:</p>
+            <div className="flex items-center gap-3">
+              <p className="text-yellow-300 font-semibold">Your bid:</p>
+              {hintButton}
+            </div>
+            <AnimatePresence>
+              {hint && <HintBubble hint={hint} onClose={() => setHint(null)} />}
+            </AnimatePresence>
             <div className="flex gap-2 flex-wrap justify-center">
               {view.validActions.canBid.map((bid) => (
                 <button
@@ -1494,7 +1886,29 @@ export default function Game() {
         )}
 
         {view.phase === 'playing' && view.isMyTurn && (
-          <p className="text-center text-yellow-300 font-semibold mb-2 md:mb-4">Your turn - select a card!</p>
+          <div className="mb-2 md:mb-4">
+            <div className="flex items-center justify-center gap-3">
+              <p className="text-yellow-300 font-semibold">Your turn - select a card!</p>
+              {hintButton}
+            </div>
+            <AnimatePresence>
+              {hint && <HintBubble hint={hint} onClose={() => setHint(null)} />}
+            </AnimatePresence>
+          </div>
+        )}
+
+        {/* Game over - offer the post-game review */}
+        {view.phase === 'gameEnd' && view.myIndex !== -1 && (
+          <div className="flex items-center justify-center gap-3 mb-2 md:mb-4">
+            <p className="text-yellow-300 font-semibold">Game over!</p>
+            <button
+              onClick={handleReview}
+              disabled={reviewLoading}
+              className="text-sm px-3 py-1 rounded bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white transition"
+            >
+              {reviewLoading ? 'Reviewing...' : 'Review my game'}
+            </button>
+          </div>
         )}
 
         {/* Player's hand */}
@@ -2156,6 +2570,13 @@ export default function Game() {
         )}
       </AnimatePresence>
 
+      {/* Post-game review */}
+      <AnimatePresence>
+        {review && (
+          <GameReviewModal review={review} onClose={() => setReview(null)} />
+        )}
+      </AnimatePresence>
+
       {/* Whoopie/Scramble Announcement */}
       <AnimatePresence>
         {specialCardAnnouncement && (
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
+import { MAX_PLAYER_NAME_LENGTH } from '@whoopie/shared';
 import { useSocket } from '../context/SocketContext';
 import { useGame } from '../context/GameContext';
 import RulesContent from '../components/RulesContent';
@@ -152,7 +153,7 @@ export default function Home() {
                 value={playerName}
                 onChange={(e) => setPlayerName(e.target.value)}
                 className="w-full p-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-green-500 focus:outline-none"
-                maxLength={20}
+                maxLength={MAX_PLAYER_NAME_LENGTH}
               />
               {error && <p className="text-red-400 text-sm">{error}</p>}
               <div className="flex gap-3">
@@ -185,7 +186,7 @@ export default function Home() {
                 value={playerName}
                 onChange={(e) => setPlayerName(e.target.value)}
                 className="w-full p-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
-                maxLength={20}
+                maxLength={MAX_PLAYER_NAME_LENGTH}
               />
               <input
                 type="text"
@@ -228,7 +229,7 @@ export default function Home() {
                 value={playerName}
                 onChange={(e) => setPlayerName(e.target.value)}
                 className="w-full p-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-yellow-500 focus:outline-none"
-                maxLength={20}
+                maxLength={MAX_PLAYER_NAME_LENGTH}
               />
               <input
                 type="text"
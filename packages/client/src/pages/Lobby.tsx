@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { MAX_PLAYER_NAME_LENGTH } from '@whoopie/shared';
 import { useSocket } from '../context/SocketContext';
 import { useGame } from '../context/GameContext';
 
@@ -8,6 +9,9 @@ interface PublicGame {
   hostName: string;
   playerCount: number;
   maxPlayers: number;
+  spectatorCount: number;
+  inProgress: boolean;
+  allowSpectators: boolean;
 }
 
 export default function Lobby() {
@@ -81,7 +85,7 @@ export default function Lobby() {
             value={playerName}
             onChange={(e) => setPlayerName(e.target.value)}
             className="w-full p-3 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none"
-            maxLength={20}
+            maxLength={MAX_PLAYER_NAME_LENGTH}
           />
           {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
         </div>
@@ -115,15 +119,28 @@ export default function Lobby() {
                     <p className="text-white font-medium">{game.hostName}'s Game</p>
                     <p className="text-gray-400 text-sm">
                       {game.playerCount} / {game.maxPlayers} players
+                      {game.spectatorCount > 0 && ` · ${game.spectatorCount} watching`}
+                      {game.inProgress && ' · In progress'}
                     </p>
                   </div>
-                  <button
-                    onClick={() => handleJoin(game.id)}
-                    disabled={!isConnected || joiningGameId === game.id || !playerName.trim()}
-                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition"
-                  >
-                    {joiningGameId === game.id ? 'Joining...' : 'Join'}
-                  </button>
+                  <div className="flex gap-2">
+                    {game.allowSpectators && (
+                      <button
+                        onClick={() => navigate(`/game/${game.id}/watch`)}
+                        disabled={!isConnected}
+                        className="px-4 py-2 bg-gray-600 hover:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition"
+                      >
+                        Watch
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleJoin(game.id)}
+                      disabled={!isConnected || joiningGameId === game.id || !playerName.trim() || game.playerCount >= game.maxPlayers}
+                      className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition"
+                    >
+                      {joiningGameId === game.id ? 'Joining...' : 'Join'}
+                    </button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useSocket } from '../context/SocketContext';
+import { useGame } from '../context/GameContext';
+import { MiniCard, MediumCard, TrickCard, CardBack } from '../components/Card';
+import { Suit, getRemainingSchedule, getScheduleMaxCards } from '@whoopie/shared';
+
+const suitSymbols: Record<Suit, string> = {
+  spades: '♠',
+  hearts: '♥',
+  diamonds: '♦',
+  clubs: '♣',
+};
+
+// Read-only view of a game for spectators
+export default function Watch() {
+  const { gameId } = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+  const { isConnected } = useSocket();
+  const { view, isSpectator, spectateGame, leaveGame } = useGame();
+  const [error, setError] = useState<string | null>(null);
+
+  // Start watching once the socket is connected
+  useEffect(() => {
+    if (!gameId || !isConnected || isSpectator) return;
+    spectateGame(gameId).catch((err) => setError((err as Error).message));
+  }, [gameId, isConnected, isSpectator, spectateGame]);
+
+  const handleLeave = () => {
+    leaveGame();
+    navigate('/');
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-4">
+        <p className="text-red-400">{error}</p>
+        <button
+          onClick={() => navigate('/lobby')}
+          className="px-6 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-semibold transition"
+        >
+          Back to Lobby
+        </button>
+      </div>
+    );
+  }
+
+  if (!view || !isSpectator) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-white">Loading game...</p>
+      </div>
+    );
+  }
+
+  const stanza = view.stanza;
+  const hostName = view.players.find((p) => p.id === view.hostId)?.name ?? 'Unknown';
+  const remaining = stanza
+    ? getRemainingSchedule(
+        stanza,
+        stanza.stanzaNumber,
+        view.settings.length,
+        getScheduleMaxCards(view.players.length, view.settings)
+      )
+    : null;
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <button
+            onClick={handleLeave}
+            className="text-gray-400 hover:text-white transition"
+          >
+            &larr; Leave
+          </button>
+          <h1 className="text-xl font-bold text-white">{hostName}'s Game</h1>
+          <span className="text-xs bg-purple-600 px-2 py-1 rounded text-white">Spectating</span>
+        </div>
+
+        {/* Stanza info */}
+        {stanza ? (
+          <div className="bg-gray-800 rounded-lg p-4 mb-4 flex items-center justify-between">
+            <div className="text-white">
+              <p className="font-semibold">
+                Stanza {stanza.stanzaNumber}
+                {remaining && ` of ${stanza.stanzaNumber + remaining.length}`}
+              </p>
+              <p className="text-gray-400 text-sm">
+                {stanza.cardsPerPlayer} {stanza.cardsPerPlayer === 1 ? 'card' : 'cards'} each
+                {' · '}
+                Trump: {stanza.currentTrumpSuit ? suitSymbols[stanza.currentTrumpSuit as Suit] : 'none yet'}
+                {stanza.jTrumpActive && ' · J-Trump'}
+              </p>
+            </div>
+            {stanza.whoopieDefiningCard && (
+              <div className="flex flex-col items-center">
+                <MediumCard card={stanza.whoopieDefiningCard} />
+                <span className="text-gray-400 text-xs mt-1">Whoopie</span>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="bg-gray-800 rounded-lg p-4 mb-4 text-gray-400 text-center">
+            Waiting for the host to start the game...
+          </div>
+        )}
+
+        {/* Players */}
+        <div className="bg-gray-800 rounded-lg divide-y divide-gray-700 mb-4">
+          {view.players.map((player, index) => {
+            const isTurn = stanza?.currentPlayerIndex === index
+              && (view.phase === 'bidding' || view.phase === 'playing');
+            const hand = stanza?.hands?.[index];
+
+            return (
+              <div
+                key={player.id}
+                className={`p-3 ${isTurn ? 'bg-gray-700' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className={player.type === 'ai' ? 'text-purple-400' : 'text-white'}>
+                      {player.name}
+                    </span>
+                    {stanza?.dealerIndex === index && (
+                      <span className="text-xs bg-yellow-600 px-2 py-0.5 rounded">Dealer</span>
+                    )}
+                    {isTurn && (
+                      <span className="text-xs bg-green-600 px-2 py-0.5 rounded">
+                        {view.phase === 'bidding' ? 'Bidding' : 'Playing'}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-300">
+                    {stanza && (
+                      <span className="text-blue-300 mr-3">
+                        Bid: {stanza.bids[index] ?? '-'} | Tricks: {stanza.tricksTaken[index] ?? 0}
+                      </span>
+                    )}
+                    Score: {view.scores[index]}
+                  </div>
+                </div>
+                {stanza && (
+                  <div className="flex gap-1 mt-2 flex-wrap">
+                    {hand
+                      ? hand.map((card, i) => <MiniCard key={i} card={card} />)
+                      : <CardBack count={stanza.otherHandCounts[index] ?? 0} />}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Current trick */}
+        {stanza && stanza.currentTrick.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-4 mb-4">
+            <p className="text-gray-400 text-sm mb-2">Current trick</p>
+            <div className="flex gap-2 flex-wrap">
+              {stanza.currentTrick.map((played) => (
+                <div key={played.playerIndex} className="flex flex-col items-center">
+                  <TrickCard card={played.card} playerCount={view.players.length} />
+                  <span className="text-gray-400 text-xs mt-1">
+                    {view.players[played.playerIndex]?.name}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {view.phase === 'gameEnd' && (
+          <div className="bg-gray-800 rounded-lg p-4 text-center text-white font-semibold">
+            Game over
+          </div>
+        )}
+
+        {view.settings.spectatorRevealDelayMs !== null && (
+          <p className="text-gray-500 text-xs text-center">
+            Hands are shown {Math.round(view.settings.spectatorRevealDelayMs / 1000)}s behind the live game
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
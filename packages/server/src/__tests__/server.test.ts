@@ -0,0 +1,757 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { appendFile, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Server } from 'socket.io';
+import { GameError, HumanPlayer, createManualClock, createSuitCard } from '@whoopie/shared';
+import { GameServer, GameSocket } from '../socket-types.js';
+import { GameManager } from '../game/game-manager.js';
+import { AIRunner } from '../game/ai-runner.js';
+import { DISCONNECT_GRACE_MS, HOST_ALONE_HOLD_MS, setupSocketHandlers } from '../socket-handlers.js';
+import {
+  BOT_TURN_TIMEOUT_MS,
+  BotTurnReply,
+  BotTurnRequest,
+  ExternalBotRegistry,
+  parseBotTokens,
+} from '../game/external-bots.js';
+import { FileGameStore, GameStore, MemoryGameStore } from '../services/game-store.js';
+import { Repositories } from '../services/repositories.js';
+import { createFileRepositories } from '../services/file-repositories.js';
+import { checkResumeCode, loadGameState, saveGameState } from '../services/pause.js';
+import { checkRateLimit, getFeedback, hashIP, submitFeedback, updateFeedbackStatus } from '../services/feedback.js';
+import {
+  getStatistics,
+  recordGameAbandoned,
+  recordGameCompleted,
+  recordGameCreated,
+  recordGameStarted,
+  recordWhoopieCall,
+  recordWhoopieMiss,
+} from '../services/stats.js';
+import {
+  SESSION_MAX_AGE_MS,
+  authenticateSocket,
+  issueSessionToken,
+  checkSessionSecret,
+  verifySessionToken,
+} from '../services/sessions.js';
+
+// Lets pending promise callbacks run
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+// Socket.io server that drops everything sent to players
+const io = { to: () => ({ emit: () => true }) } as unknown as GameServer;
+
+// Repositories on JSON files in a fresh temp directory, removed after the test
+const dataDirs: string[] = [];
+async function tempRepositories(): Promise<{ dir: string; repositories: Repositories }> {
+  const dir = await mkdtemp(join(tmpdir(), 'whoopie-data-'));
+  dataDirs.push(dir);
+  return { dir, repositories: createFileRepositories(dir) };
+}
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await Promise.all(dataDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+// ============================================================================
+// External Bots
+// ============================================================================
+
+// A bot's socket as the registry sees it; turns it's asked for wait in `turns` for the test to answer
+function botSocket(auth: Record<string, unknown>) {
+  const handlers = new Map<string, () => void>();
+  const socket = {
+    handshake: { auth },
+    data: {} as Record<string, unknown>,
+    disconnected: false,
+    turns: [] as { request: BotTurnRequest; ack: (error: Error | null, reply?: BotTurnReply) => void }[],
+    on: (event: string, handler: () => void) => handlers.set(event, handler),
+    disconnect: () => {
+      socket.disconnected = true;
+      handlers.get('disconnect')?.();
+    },
+    timeout: () => ({
+      emit: (_event: string, request: BotTurnRequest, ack: (error: Error | null, reply?: BotTurnReply) => void) => {
+        socket.turns.push({ request, ack });
+      },
+    }),
+  };
+  return socket;
+}
+
+// A registry attached to a stand-in /bots namespace; connect runs the
+// handshake check and returns its error, connecting the socket if it passed
+function attachRegistry(registry: ExternalBotRegistry) {
+  let check!: (socket: unknown, next: (error?: Error) => void) => void;
+  let onConnection!: (socket: unknown) => void;
+  const namespace = {
+    use: (middleware: typeof check) => { check = middleware; },
+    on: (_event: string, handler: typeof onConnection) => { onConnection = handler; },
+  };
+  registry.attach({ of: () => namespace } as unknown as Server);
+
+  return (socket: ReturnType<typeof botSocket>): Error | undefined => {
+    let error: Error | undefined;
+    check(socket, (result) => { error = result; });
+    if (!error) onConnection(socket);
+    return error;
+  };
+}
+
+describe('External bot registry', () => {
+  it('parses BOT_TOKENS', () => {
+    expect(parseBotTokens('alpha:one, beta : two,broken,:nameless,empty:')).toEqual(
+      new Map([['alpha', 'one'], ['beta', 'two']])
+    );
+    expect(parseBotTokens(undefined).size).toBe(0);
+  });
+
+  it('only lets listed bots in with their own token', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const registry = new ExternalBotRegistry(parseBotTokens('alpha:secret-one,beta:secret-two'));
+    const connect = attachRegistry(registry);
+
+    expect(connect(botSocket({ name: 'alpha', token: 'secret-two' }))?.message).toBe('Unauthorized');
+    expect(connect(botSocket({ name: 'alpha', token: 'secret' }))?.message).toBe('Unauthorized');
+    expect(connect(botSocket({ name: 'gamma', token: 'secret-one' }))?.message).toBe('Unauthorized');
+    expect(connect(botSocket({ name: 'alpha', token: 42 }))?.message).toBe('Unauthorized');
+    expect(connect(botSocket({}))?.message).toBe('Unauthorized');
+    expect(registry.getConnectedBots()).toEqual([]);
+
+    expect(connect(botSocket({ name: 'alpha', token: 'secret-one' }))).toBeUndefined();
+    expect(registry.isConnected('alpha')).toBe(true);
+  });
+
+  it('keeps one connection per bot', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const registry = new ExternalBotRegistry(parseBotTokens('alpha:secret'));
+    const connect = attachRegistry(registry);
+    const first = botSocket({ name: 'alpha', token: 'secret' });
+    const second = botSocket({ name: 'alpha', token: 'secret' });
+
+    connect(first);
+    connect(second);
+    expect(first.disconnected).toBe(true);
+    expect(registry.getConnectedBots()).toEqual(['alpha']);
+
+    second.disconnect();
+    expect(registry.isConnected('alpha')).toBe(false);
+  });
+
+  it('answers null for a bot that is not connected', async () => {
+    const registry = new ExternalBotRegistry(parseBotTokens('alpha:secret'));
+    const gameManager = new GameManager(createManualClock());
+    const { game } = gameManager.createGame('host-socket', 'host-identity', 'Alice');
+
+    await expect(registry.requestTurn('alpha', game.id, game, 0)).resolves.toBeNull();
+  });
+
+  it('only seats a bot for the host, in the lobby', () => {
+    const gameManager = new GameManager(createManualClock());
+    const { game } = gameManager.createGame('host-socket', 'host-identity', 'Alice');
+    gameManager.joinGame(game.id, 'guest-socket', 'guest-identity', 'Bob');
+
+    expect(() => gameManager.addExternalBot(game.id, 'guest-socket', 'alpha')).toThrow('Only host can add bots');
+    expect(() => gameManager.addExternalBot(game.id, 'stranger-socket', 'alpha')).toThrow('Only host can add bots');
+    gameManager.addExternalBot(game.id, 'host-socket', 'alpha');
+    gameManager.startGame(game.id, 'host-socket');
+    expect(() => gameManager.addExternalBot(game.id, 'host-socket', 'alpha')).toThrow('Cannot add bots after game has started');
+    expect(gameManager.getSession(game.id)!.game.players.map(p => p.name)).toEqual(['Alice', 'Bob', 'alpha']);
+  });
+});
+
+describe('External bot turns', () => {
+  // A game between Alice and a connected bot, at the bot's first bid
+  async function gameAtBotBid(registry: ExternalBotRegistry) {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const clock = createManualClock();
+    const gameManager = new GameManager(clock);
+    const socket = botSocket({ name: 'alpha', token: 'secret' });
+    attachRegistry(registry)(socket);
+
+    const gameId = gameManager.createGame('host-socket', 'host-identity', 'Alice').game.id;
+    gameManager.addExternalBot(gameId, 'host-socket', 'alpha');
+    gameManager.startGame(gameId, 'host-socket');
+    if (!gameManager.getCurrentAIPlayer(gameId)) {
+      gameManager.placeBid(gameId, 'host-socket', 0);
+    }
+
+    const { repositories } = await tempRepositories();
+    new AIRunner(io, gameManager, repositories, registry).checkAndRunAI(gameId);
+    const botBid = () => gameManager.getSession(gameId)!.game.stanza!.bids[1];
+    return { clock, socket, botBid };
+  }
+
+  it('plays a legal answer from the bot', async () => {
+    const { socket, botBid } = await gameAtBotBid(new ExternalBotRegistry(parseBotTokens('alpha:secret')));
+    const [turn] = socket.turns;
+    expect(turn!.request.timeoutMs).toBe(BOT_TURN_TIMEOUT_MS);
+
+    const bid = turn!.request.validActions.canBid.at(-1)!;
+    turn!.ack(null, { bid });
+    await settle();
+    expect(botBid()).toBe(bid);
+  });
+
+  it('plays the built-in strategy when the bot is too slow', async () => {
+    const { clock, socket, botBid } = await gameAtBotBid(new ExternalBotRegistry(parseBotTokens('alpha:secret')));
+    expect(socket.turns).toHaveLength(1);
+
+    clock.advance(BOT_TURN_TIMEOUT_MS - 1);
+    expect(botBid()).toBeNull();
+    clock.advance(1);
+    expect(botBid()).toEqual(expect.any(Number));
+  });
+
+  it('plays the built-in strategy for an illegal answer', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { socket, botBid } = await gameAtBotBid(new ExternalBotRegistry(parseBotTokens('alpha:secret')));
+
+    socket.turns[0]!.ack(null, { card: createSuitCard('hearts', 'A') });
+    await settle();
+    expect(warn).toHaveBeenCalled();
+    expect(botBid()).toEqual(expect.any(Number));
+  });
+
+  it('plays the built-in strategy when asking the bot fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    class FailingRegistry extends ExternalBotRegistry {
+      requestTurn(): Promise<BotTurnReply | null> {
+        return Promise.reject(new Error('Bot crashed'));
+      }
+    }
+    const { botBid } = await gameAtBotBid(new FailingRegistry(parseBotTokens('alpha:secret')));
+
+    await settle();
+    expect(error).toHaveBeenCalled();
+    expect(botBid()).toEqual(expect.any(Number));
+  });
+});
+
+// ============================================================================
+// Live Game Store
+// ============================================================================
+
+// Alice and an AI in the middle of bidding, checkpointed to the store
+async function checkpointedGame(store: GameStore, clock = createManualClock()) {
+  const gameManager = new GameManager(clock, store);
+  const session = gameManager.createGame('host-socket', 'host-identity', 'Alice');
+  gameManager.addAI(session.game.id, 'host-socket', 'beginner');
+  gameManager.startGame(session.game.id, 'host-socket');
+  await gameManager.flushCheckpoints();
+  return { gameManager, clock, session };
+}
+
+describe('Live game stores', () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'whoopie-games-'));
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const stores: [string, () => GameStore][] = [
+    ['memory', () => new MemoryGameStore()],
+    ['file', () => new FileGameStore(dir)],
+  ];
+
+  it.each(stores)('%s store gives back what was saved', async (_name, createStore) => {
+    const store = createStore();
+    const { session } = await checkpointedGame(store);
+
+    const [stored] = await store.loadAll();
+    expect(stored!.game).toEqual(session.game);
+    expect(stored!.log).toEqual(session.log);
+
+    await store.remove(session.game.id);
+    expect(await store.loadAll()).toEqual([]);
+  });
+
+  it.each(stores)('%s store appends entries, skipping ones it has', async (_name, createStore) => {
+    const store = createStore();
+    const { session, gameManager } = await checkpointedGame(store);
+    const { log } = session;
+    const savedAt = new Date(60_000).toISOString();
+
+    // Two more players queue up, then both are sent again (as after a failed write)
+    const seq = log.entries.length;
+    gameManager.joinGame(session.game.id, 'bob-socket', 'bob-identity', 'Bob');
+    await gameManager.flushCheckpoints();
+    gameManager.joinGame(session.game.id, 'carol-socket', 'carol-identity', 'Carol');
+    await gameManager.flushCheckpoints();
+    await store.save({ game: session.game, log, savedAt }, seq);
+
+    const [stored] = await store.loadAll();
+    expect(stored!.log.entries).toEqual(log.entries);
+    expect(stored!.savedAt).toBe(savedAt);
+  });
+
+  it('file store ignores entries past the last complete checkpoint', async () => {
+    const store = new FileGameStore(dir);
+    const { session } = await checkpointedGame(store);
+    const entryCount = session.log.entries.length;
+
+    // A write that appended an entry and part of another, then stopped before the game file
+    const extra = { seq: entryCount, timestamp: 0, action: { type: 'continueGame' } };
+    await appendFile(join(dir, `${session.game.id}.log`), `${JSON.stringify(extra)}\n{"seq":`);
+
+    const [stored] = await store.loadAll();
+    expect(stored!.log.entries).toHaveLength(entryCount);
+  });
+
+  it('file store skips a game whose log is missing entries', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new FileGameStore(dir);
+    const { session } = await checkpointedGame(store);
+    await writeFile(join(dir, `${session.game.id}.log`), '');
+
+    expect(await store.loadAll()).toEqual([]);
+  });
+});
+
+describe('Restoring games', () => {
+  it('writes only the log entries added since the last checkpoint', async () => {
+    const store = new MemoryGameStore();
+    const save = vi.spyOn(store, 'save');
+    const { gameManager, session } = await checkpointedGame(store);
+    const entryCount = session.log.entries.length;
+
+    gameManager.joinGame(session.game.id, 'bob-socket', 'bob-identity', 'Bob');
+    await gameManager.flushCheckpoints();
+    expect(save.mock.calls.map(([, fromSeq]) => fromSeq)).toEqual([0, entryCount]);
+  });
+
+  it('brings games back with everyone disconnected', async () => {
+    const store = new MemoryGameStore();
+    const { session } = await checkpointedGame(store);
+
+    const gameManager = new GameManager(createManualClock(), store);
+    expect(gameManager.restoreGames(await store.loadAll())).toEqual([session.game.id]);
+
+    const restored = gameManager.getSession(session.game.id)!;
+    expect(restored.log).toEqual(session.log);
+    expect(restored.game.players[0]).toMatchObject({ name: 'Alice', isConnected: false });
+    expect(restored.game.stanza).toEqual(session.game.stanza);
+  });
+
+  it('drops checkpoints too old to restore', async () => {
+    const store = new MemoryGameStore();
+    const { session } = await checkpointedGame(store);
+
+    const gameManager = new GameManager(createManualClock(7 * 60 * 60 * 1000), store);
+    expect(gameManager.restoreGames(await store.loadAll())).toEqual([]);
+    await settle();
+    expect(await store.loadAll()).toEqual([]);
+    expect(gameManager.getSession(session.game.id)).toBeUndefined();
+  });
+
+  it('drops a restored game no one comes back to', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const store = new MemoryGameStore();
+    const { session } = await checkpointedGame(store);
+    const gameId = session.game.id;
+
+    const clock = createManualClock();
+    const gameManager = new GameManager(clock, store);
+    gameManager.restoreGames(await store.loadAll());
+    clock.advance(10 * 60 * 1000);
+    await gameManager.flushCheckpoints();
+
+    expect(gameManager.getSession(gameId)).toBeUndefined();
+    expect(await store.loadAll()).toEqual([]);
+  });
+
+  it('keeps a restored game someone came back to', async () => {
+    const store = new MemoryGameStore();
+    const { session } = await checkpointedGame(store);
+    const gameId = session.game.id;
+
+    const clock = createManualClock();
+    const gameManager = new GameManager(clock, store);
+    gameManager.restoreGames(await store.loadAll());
+    const alice = session.game.players[0]!;
+    expect(gameManager.reconnectPlayer(gameId, 'new-socket', 'host-identity', alice.id)).not.toHaveProperty('error');
+    clock.advance(10 * 60 * 1000);
+
+    expect(gameManager.getSession(gameId)).toBeDefined();
+  });
+});
+
+// ============================================================================
+// Paused Games, Stats and Feedback
+// ============================================================================
+
+describe('File repositories', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('saves a paused game and resumes it once', async () => {
+    const { dir, repositories } = await tempRepositories();
+    const { game } = new GameManager(createManualClock()).createGame('host-socket', 'host-identity', 'Alice');
+
+    const saved = await saveGameState(repositories, game);
+    expect(saved).toEqual({ success: true, resumeCode: expect.any(String) });
+    const { resumeCode } = saved as { resumeCode: string };
+
+    // Read back from disk
+    const reopened = createFileRepositories(dir);
+    expect(await checkResumeCode(reopened, ` ${resumeCode.toLowerCase()} `)).toEqual({ success: true, playerNames: ['Alice'] });
+    expect(await loadGameState(reopened, resumeCode)).toEqual({ success: true, gameState: game, playerNames: ['Alice'] });
+    expect(await loadGameState(reopened, resumeCode)).toMatchObject({ success: false, code: 'RESUME_CODE_NOT_FOUND' });
+  });
+
+  it('limits feedback from one address per hour', async () => {
+    const { repositories } = await tempRepositories();
+    const ipHash = hashIP('203.0.113.7');
+
+    const checks = [];
+    for (let i = 0; i < 6; i++) {
+      checks.push(await checkRateLimit(repositories, ipHash));
+    }
+    expect(checks.map(c => c.allowed)).toEqual([true, true, true, true, true, false]);
+    expect(checks.map(c => c.remaining)).toEqual([4, 3, 2, 1, 0, 0]);
+    expect((await checkRateLimit(repositories, hashIP('198.51.100.1'))).allowed).toBe(true);
+
+    vi.setSystemTime(new Date('2026-10-19T13:00:01Z'));
+    expect(await checkRateLimit(repositories, ipHash)).toEqual({ allowed: true, remaining: 4 });
+  });
+
+  it('stores feedback and lists the newest first', async () => {
+    const { repositories } = await tempRepositories();
+    const ipHash = hashIP('203.0.113.7');
+
+    expect(await submitFeedback(repositories, { message: ' First ', ipHash })).toEqual({ success: true });
+    expect(await submitFeedback(repositories, { message: 'Second', contactEmail: 'bob@example.com', ipHash })).toEqual({ success: true });
+    expect(await submitFeedback(repositories, { message: 'Third', contactEmail: 'bob', ipHash })).toEqual({ success: false, error: 'Invalid email format' });
+
+    const { data, total } = await getFeedback(repositories);
+    expect(total).toBe(2);
+    expect(data.map(f => [f.message, f.contact_email])).toEqual([['Second', 'bob@example.com'], ['First', null]]);
+    expect(data[0]).not.toHaveProperty('ip_hash');
+
+    expect(await updateFeedbackStatus(repositories, data[1]!.id, 'resolved')).toBe(true);
+    expect((await getFeedback(repositories, 50, 0, 'new')).data.map(f => f.message)).toEqual(['Second']);
+  });
+
+  it('counts games in the stats', async () => {
+    const { repositories } = await tempRepositories();
+    await recordGameCreated(repositories, 'game-1', 2, 1);
+    await recordGameStarted(repositories, 'game-1', 3, 1);
+    await recordWhoopieCall(repositories, 'game-1');
+    await recordWhoopieMiss(repositories, 'game-1');
+    await recordGameCompleted(repositories, 'game-1', 4);
+    await recordGameCreated(repositories, 'game-2', 2, 0);
+    await recordGameStarted(repositories, 'game-2', 2, 0);
+    await recordGameAbandoned(repositories, 'game-2');
+    await recordGameCreated(repositories, 'game-3', 1, 0);
+
+    expect(await getStatistics(repositories)).toMatchObject({
+      totalGamesStarted: 2,
+      gamesCreatedNotStarted: 1,
+      gamesCompleted: 1,
+      gamesAbandoned: 1,
+      gamesToday: 2,
+      gamesCompletedToday: 1,
+      gamesAbandonedToday: 1,
+      humanPlayersToday: 4,
+      aiPlayersToday: 1,
+      completionRate: 50,
+      avgPlayersPerGame: 2.5,
+      gamesByPlayerCount: { 2: 1, 3: 1 },
+      peakHour: 12,
+      avgStanzasPerGame: 4,
+      totalWhoopiesCalled: 1,
+      totalWhoopieMisses: 1,
+    });
+  });
+
+  it('treats missing files as empty, and reads a corrupt file again once it is fixed', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { dir, repositories } = await tempRepositories();
+    const ipHash = hashIP('203.0.113.7');
+
+    expect(await checkResumeCode(repositories, 'ABCD')).toMatchObject({ success: false, code: 'RESUME_CODE_NOT_FOUND' });
+    expect(await getStatistics(repositories)).toMatchObject({ totalGamesStarted: 0, completionRate: null });
+
+    await writeFile(join(dir, 'feedback.json'), '[{"id":');
+    expect(await getFeedback(repositories)).toEqual({ data: [], total: 0 });
+    expect(await submitFeedback(repositories, { message: 'Hello', ipHash })).toEqual({ success: false, error: 'Failed to submit feedback' });
+    expect(error).toHaveBeenCalled();
+
+    await writeFile(join(dir, 'feedback.json'), '[]');
+    expect(await submitFeedback(repositories, { message: 'Hello', ipHash })).toEqual({ success: true });
+    expect((await getFeedback(repositories)).total).toBe(1);
+  });
+});
+
+// ============================================================================
+// Sessions and Seats
+// ============================================================================
+
+describe('Session tokens', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('verifies the tokens it issues', () => {
+    const token = issueSessionToken('alice-device');
+    expect(verifySessionToken(token)).toMatchObject({ identityId: 'alice-device' });
+  });
+
+  it('rejects tampered tokens', () => {
+    const [payload, signature] = issueSessionToken('alice-device').split('.');
+    const forged = Buffer.from(JSON.stringify({ identityId: 'bob-device', issuedAt: Date.now() })).toString('base64url');
+
+    expect(verifySessionToken(`${forged}.${signature}`)).toBeNull();
+    expect(verifySessionToken(`${payload}.${signature!.slice(1)}x`)).toBeNull();
+    expect(verifySessionToken(`${payload}.${signature}.extra`)).toBeNull();
+    expect(verifySessionToken(payload!)).toBeNull();
+    expect(verifySessionToken('')).toBeNull();
+  });
+
+  it('rejects tokens past their maximum age', () => {
+    const issued = Date.now();
+    const token = issueSessionToken('alice-device');
+
+    expect(verifySessionToken(token, issued + SESSION_MAX_AGE_MS - 1000)).not.toBeNull();
+    expect(verifySessionToken(token, issued + SESSION_MAX_AGE_MS + 1000)).toBeNull();
+  });
+
+  it('gives a socket the identity of its token, or a new one', () => {
+    const connect = (auth: Record<string, unknown>) => {
+      const socket = { handshake: { auth }, data: {} } as unknown as GameSocket;
+      authenticateSocket(socket, () => {});
+      return socket.data.identityId;
+    };
+
+    expect(connect({ token: issueSessionToken('alice-device') })).toBe('alice-device');
+    const stranger = connect({ token: 'forged.token' });
+    expect(stranger).toEqual(expect.any(String));
+    expect(stranger).not.toBe(connect({}));
+  });
+
+  it('warns without SESSION_SECRET when games are checkpointed beyond this process', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('SESSION_SECRET', '');
+    checkSessionSecret(new MemoryGameStore());
+    checkSessionSecret(null);
+    expect(warn).not.toHaveBeenCalled();
+    checkSessionSecret(new FileGameStore('unused'));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('SESSION_SECRET'));
+
+    warn.mockClear();
+    vi.stubEnv('SESSION_SECRET', 'configured');
+    checkSessionSecret(new FileGameStore('unused'));
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
+
+describe('Seats', () => {
+  // Alice (host) and Bob in a started game, each with their own identity
+  function startedGame(store: GameStore | null = null) {
+    const gameManager = new GameManager(createManualClock(), store);
+    const { game } = gameManager.createGame('alice-socket', 'alice-device', 'Alice');
+    const { playerId: bobId } = gameManager.joinGame(game.id, 'bob-socket', 'bob-device', 'Bob');
+    gameManager.startGame(game.id, 'alice-socket');
+    return { gameManager, gameId: game.id, aliceId: game.hostId, bobId };
+  }
+
+  function errorCode(result: { error: GameError } | object): string | undefined {
+    return 'error' in result ? result.error.code : undefined;
+  }
+
+  it('only gives a seat back to the identity holding it', () => {
+    const { gameManager, gameId, bobId } = startedGame();
+
+    expect(errorCode(gameManager.reconnectPlayer(gameId, 'mallory-socket', 'mallory-device', bobId))).toBe('NOT_YOUR_SEAT');
+    expect(errorCode(gameManager.reconnectPlayer(gameId, 'bob-socket-2', 'bob-device', bobId))).toBeUndefined();
+  });
+
+  it('gives a seat saved before identities to the first identity to claim it', async () => {
+    const store = new MemoryGameStore();
+    const { gameManager: before, gameId, bobId } = startedGame(store);
+    const bob = before.getSession(gameId)!.game.players.find(p => p.id === bobId) as HumanPlayer;
+    delete bob.identityId;
+    await before.flushCheckpoints();
+
+    const gameManager = new GameManager(createManualClock(), store);
+    gameManager.restoreGames(await store.loadAll());
+
+    expect(errorCode(gameManager.reconnectPlayer(gameId, 'bob-socket', 'bob-device', bobId))).toBeUndefined();
+    expect(errorCode(gameManager.reconnectPlayer(gameId, 'mallory-socket', 'mallory-device', bobId))).toBe('NOT_YOUR_SEAT');
+  });
+
+  it('keeps seats without an identity in live games from anyone', () => {
+    const { gameManager, gameId, bobId } = startedGame();
+    const bob = gameManager.getSession(gameId)!.game.players.find(p => p.id === bobId) as HumanPlayer;
+    delete bob.identityId;
+
+    expect(errorCode(gameManager.reconnectPlayer(gameId, 'mallory-socket', 'mallory-device', bobId))).toBe('NOT_YOUR_SEAT');
+  });
+
+  it('only lets the host pause', () => {
+    const { gameManager, gameId } = startedGame();
+
+    expect(() => gameManager.pauseGame(gameId, 'bob-socket', 'bob-device')).toThrow('Only host can pause the game');
+    expect(() => gameManager.pauseGame(gameId, 'alice-socket', 'bob-device')).toThrow('Only host can pause the game');
+    expect(gameManager.pauseGame(gameId, 'alice-socket', 'alice-device')!.socketIds).toEqual(['alice-socket', 'bob-socket']);
+    expect(gameManager.getSession(gameId)).toBeUndefined();
+  });
+
+  it('only lets the host add bots, before the start', () => {
+    const { gameManager, gameId } = startedGame();
+    const waitingGameId = gameManager.createGame('dave-socket', 'dave-device', 'Dave').game.id;
+    gameManager.joinGame(waitingGameId, 'erin-socket', 'erin-device', 'Erin');
+
+    expect(() => gameManager.addAI(waitingGameId, 'erin-socket', 'beginner')).toThrow('Only host can add bots');
+    expect(() => gameManager.addAI(gameId, 'alice-socket', 'beginner')).toThrow('Cannot add bots after game has started');
+    expect(gameManager.getSession(gameId)!.game.pendingPlayers).toEqual([]);
+    gameManager.addAI(waitingGameId, 'dave-socket', 'beginner');
+    expect(gameManager.getSession(waitingGameId)!.game.players).toHaveLength(3);
+  });
+});
+
+// ============================================================================
+// Host Migration
+// ============================================================================
+
+describe('Host migration', () => {
+  // Alice (host), then Bob and Carol a minute apart, and a bot, in a started game
+  function startedGame() {
+    const clock = createManualClock();
+    const gameManager = new GameManager(clock, null);
+    const { game } = gameManager.createGame('alice-socket', 'alice-device', 'Alice');
+    clock.advance(60_000);
+    const { playerId: bobId } = gameManager.joinGame(game.id, 'bob-socket', 'bob-device', 'Bob');
+    clock.advance(60_000);
+    const { playerId: carolId } = gameManager.joinGame(game.id, 'carol-socket', 'carol-device', 'Carol');
+    const { event } = gameManager.addAI(game.id, 'alice-socket', 'beginner');
+    const botId = event.type === 'playerJoined' ? event.player.id : '';
+    gameManager.startGame(game.id, 'alice-socket');
+    return { gameManager, gameId: game.id, aliceId: game.hostId, bobId, carolId, botId };
+  }
+
+  it('picks the human connected longest as successor', () => {
+    const { gameManager, gameId, bobId, carolId } = startedGame();
+    expect(gameManager.getHostSuccessor(gameId)?.id).toBe(bobId);
+
+    gameManager.leaveGame('bob-socket');
+    expect(gameManager.getHostSuccessor(gameId)?.id).toBe(carolId);
+
+    gameManager.leaveGame('carol-socket');
+    expect(gameManager.getHostSuccessor(gameId)).toBeUndefined();
+  });
+
+  it('moves the host role when the host leaves', () => {
+    const { gameManager, gameId, bobId } = startedGame();
+
+    const result = gameManager.leaveGame('alice-socket')!;
+    expect(result.hostChangedEvent).toEqual({ type: 'hostChanged', playerId: bobId, playerName: 'Bob' });
+    expect(gameManager.getSession(gameId)!.game.hostId).toBe(bobId);
+  });
+
+  it('abandons the game when the host leaves with no one to take over', () => {
+    const { gameManager, gameId } = startedGame();
+    gameManager.leaveGame('bob-socket');
+    gameManager.leaveGame('carol-socket');
+
+    const result = gameManager.leaveGame('alice-socket')!;
+    expect(result.hostChangedEvent).toBeUndefined();
+    expect(result.gameAbandoned).toBe(true);
+    expect(gameManager.getSession(gameId)).toBeUndefined();
+  });
+
+  it('only hands the host role to a connected human', () => {
+    const { gameManager, gameId, bobId, carolId, botId } = startedGame();
+    gameManager.leaveGame('bob-socket');
+
+    expect(() => gameManager.transferHost(gameId, 'carol-socket', carolId)).toThrow('Only host can hand over the host role');
+    expect(() => gameManager.transferHost(gameId, 'alice-socket', botId)).toThrow('Only a human player can be the host');
+    expect(() => gameManager.transferHost(gameId, 'alice-socket', bobId)).toThrow('Only a connected player can be the host');
+    gameManager.transferHost(gameId, 'alice-socket', carolId);
+    expect(gameManager.getSession(gameId)!.game.hostId).toBe(carolId);
+  });
+});
+
+describe('Disconnects', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Socket handlers on a stand-in server; returns a function that drops a player's socket
+  function connect(gameManager: GameManager, repositories: Repositories) {
+    let onConnection!: (socket: unknown) => void;
+    const server = {
+      use: () => {},
+      on: (_event: string, handler: typeof onConnection) => { onConnection = handler; },
+      to: () => ({ emit: () => true }),
+    };
+    setupSocketHandlers(server as unknown as GameServer, gameManager, repositories);
+
+    return (socketId: string) => {
+      const handlers = new Map<string, () => void>();
+      onConnection({
+        id: socketId,
+        data: {},
+        on: (event: string, handler: () => void) => handlers.set(event, handler),
+        join: () => {},
+        leave: () => {},
+      });
+      handlers.get('disconnect')!();
+    };
+  }
+
+  // Alice (host) and Bob in a started game
+  async function startedGame() {
+    const { repositories } = await tempRepositories();
+    const gameManager = new GameManager(createManualClock(), null);
+    const { game } = gameManager.createGame('alice-socket', 'alice-device', 'Alice');
+    const { playerId: bobId } = gameManager.joinGame(game.id, 'bob-socket', 'bob-device', 'Bob');
+    gameManager.startGame(game.id, 'alice-socket');
+    return { gameManager, repositories, gameId: game.id, bobId, disconnect: connect(gameManager, repositories) };
+  }
+
+  it('keeps a seat for the grace period, then hands the host role on', async () => {
+    const { gameManager, gameId, bobId, disconnect } = await startedGame();
+    disconnect('alice-socket');
+
+    vi.advanceTimersByTime(DISCONNECT_GRACE_MS - 1);
+    expect(gameManager.getSession(gameId)!.game.hostId).not.toBe(bobId);
+    vi.advanceTimersByTime(1);
+    expect(gameManager.getSession(gameId)!.game.hostId).toBe(bobId);
+  });
+
+  it('lets a host with no one to take over keep the table for a while', async () => {
+    const { gameManager, repositories, gameId, disconnect } = await startedGame();
+    disconnect('bob-socket');
+    vi.advanceTimersByTime(DISCONNECT_GRACE_MS);
+    disconnect('alice-socket');
+
+    vi.advanceTimersByTime(HOST_ALONE_HOLD_MS - 1);
+    expect(gameManager.getSession(gameId)).toBeDefined();
+    vi.advanceTimersByTime(DISCONNECT_GRACE_MS);
+    expect(gameManager.getSession(gameId)).toBeUndefined();
+    expect(vi.getTimerCount()).toBe(0);
+
+    const today = new Date().toISOString().split('T')[0]!;
+    await vi.waitFor(async () => expect((await repositories.dailyStats.get(today))?.gamesAbandoned).toBe(1));
+  });
+});
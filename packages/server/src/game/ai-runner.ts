@@ -1,36 +1,47 @@
-import { Server } from 'socket.io';
 import {
   AIPlayer,
   GameState,
+  GamePhase,
   Card,
-  getValidCards,
-  getValidBids,
-  isWhoopieCard,
-  isJoker,
-  isSuitCard,
-  RANK_VALUES,
-  Rank,
+  GameEvent,
+  AIStrategy,
+  createAIGameView,
+  getAIPlayerStrategy,
+  RandomFn,
+  randomInt,
+  getSeatJobKey,
+  ADVANCE_JOB_KEY,
+  TABLE_SPEEDS,
+  cardsEqual,
+  getValidActions,
 } from '@whoopie/shared';
+import { GameServer } from '../socket-types.js';
 import { GameManager, GameSession } from './game-manager.js';
-
-// AI timing constants (milliseconds)
-const AI_BID_DELAY_MIN = 1000;
-const AI_BID_DELAY_MAX = 2500;
-const AI_PLAY_DELAY_MIN = 800;
-const AI_PLAY_DELAY_MAX = 2000;
+import { broadcastToSpectators } from './spectators.js';
+import { BOT_TURN_TIMEOUT_MS, BotTurnReply, ExternalBotRegistry } from './external-bots.js';
+import { Repositories } from '../services/repositories.js';
+import { recordGameCompleted } from '../services/stats.js';
 
 /**
- * Simple AI implementation
- * For now, all difficulties use similar logic - can be enhanced later
+ * Schedules AI turns (as GameManager jobs, so pausing or redealing cancels them)
+ * Decisions come from the AIStrategy registered for each AI player, with its personality's habits,
+ * or from the player's external bot (with the strategy as its fallback)
  */
 export class AIRunner {
   constructor(
-    private io: Server,
-    private gameManager: GameManager
+    private io: GameServer,
+    private gameManager: GameManager,
+    private repositories: Repositories,
+    private bots: ExternalBotRegistry | null = null,
+    private random: RandomFn = Math.random
   ) {}
 
   /**
    * Check if AI needs to act and schedule it
+   *
+   * Turns are scheduled jobs, keyed by seat, so calling this again while a
+   * turn is pending does nothing. A game left at trickEnd or stanzaEnd (e.g.
+   * after a resume) gets its advance scheduled.
    */
   checkAndRunAI(gameId: string): void {
     const session = this.gameManager.getSession(gameId);
@@ -38,222 +49,215 @@ export class AIRunner {
       return;
     }
 
+    const { phase } = session.game;
+    const { timing } = TABLE_SPEEDS[session.game.settings.speed];
+    if (phase === 'trickEnd' || phase === 'stanzaEnd') {
+      this.scheduleAdvance(gameId, phase === 'trickEnd' ? timing.trickEndPause : timing.stanzaEndPause);
+      return;
+    }
+
     const aiPlayer = this.gameManager.getCurrentAIPlayer(gameId);
     if (!aiPlayer) {
       return;
     }
 
-    const { phase } = session.game;
+    if (phase !== 'bidding' && phase !== 'playing') {
+      return;
+    }
 
-    if (phase === 'bidding') {
-      this.scheduleAIBid(gameId, aiPlayer, session);
-    } else if (phase === 'playing') {
-      this.scheduleAIPlay(gameId, aiPlayer, session);
+    const seat = getSeatJobKey(session.game.stanza!.currentPlayerIndex);
+    if (aiPlayer.externalBot && this.bots) {
+      this.askExternalBot(gameId, aiPlayer, phase, seat);
+    } else if (phase === 'bidding') {
+      const delay = this.getRandomDelay(timing.aiBidDelayMin, timing.aiBidDelayMax);
+      this.gameManager.scheduleJob(gameId, seat, delay, () => this.runAIBid(gameId, aiPlayer.id));
+    } else {
+      const delay = this.getRandomDelay(timing.aiPlayDelayMin, timing.aiPlayDelayMax);
+      this.gameManager.scheduleJob(gameId, seat, delay, () => this.runAIPlay(gameId, aiPlayer.id));
     }
   }
 
-  private scheduleAIBid(gameId: string, aiPlayer: AIPlayer, session: GameSession): void {
-    const delay = this.getRandomDelay(AI_BID_DELAY_MIN, AI_BID_DELAY_MAX);
+  private runAIBid(gameId: string, playerId: string): void {
+    const aiPlayer = this.getAIToAct(gameId, playerId, 'bidding');
+    if (!aiPlayer) {
+      return;
+    }
 
-    setTimeout(() => {
-      try {
-        const bid = this.calculateBid(session.game, aiPlayer);
-        const { session: updatedSession, events } = this.gameManager.aiPlaceBid(
-          gameId,
-          aiPlayer.id,
-          bid
-        );
+    try {
+      const bid = this.calculateBid(this.gameManager.getSession(gameId)!.game, aiPlayer);
+      this.applyBid(gameId, aiPlayer, bid);
+    } catch (error) {
+      console.error('AI bid error:', error);
+    }
+  }
 
-        // Broadcast events
-        this.broadcastEvents(gameId, updatedSession, events);
+  private runAIPlay(gameId: string, playerId: string): void {
+    const aiPlayer = this.getAIToAct(gameId, playerId, 'playing');
+    if (!aiPlayer) {
+      return;
+    }
 
-        // Check if another AI needs to act
-        this.checkAndRunAI(gameId);
-      } catch (error) {
-        console.error('AI bid error:', error);
-      }
-    }, delay);
+    try {
+      const { card, callWhoopie } = this.calculatePlay(this.gameManager.getSession(gameId)!.game, aiPlayer);
+      this.applyPlay(gameId, aiPlayer, card, callWhoopie);
+    } catch (error) {
+      console.error('AI play error:', error);
+    }
   }
 
-  private scheduleAIPlay(gameId: string, aiPlayer: AIPlayer, session: GameSession): void {
-    const delay = this.getRandomDelay(AI_PLAY_DELAY_MIN, AI_PLAY_DELAY_MAX);
+  private applyBid(gameId: string, aiPlayer: AIPlayer, bid: number): void {
+    const { session, events } = this.gameManager.aiPlaceBid(gameId, aiPlayer.id, bid);
 
-    setTimeout(() => {
-      try {
-        const { card, callWhoopie } = this.calculatePlay(session.game, aiPlayer);
-        const { session: updatedSession, events } = this.gameManager.aiPlayCard(
-          gameId,
-          aiPlayer.id,
-          card,
-          callWhoopie
-        );
-
-        // Broadcast events
-        this.broadcastEvents(gameId, updatedSession, events);
-
-        // Handle phase transitions
-        if (updatedSession.game.phase === 'trickEnd') {
-          // Pause for: last card anim (800ms) + display (3s) + collection anim (1.5s) + buffer
-          setTimeout(() => {
-            const { session: nextSession, events: nextEvents } = this.gameManager.continueGame(gameId);
-            // Always broadcast state update, even if no events (phase change needs to be sent)
-            this.broadcastEvents(gameId, nextSession, nextEvents);
-            this.checkAndRunAI(gameId);
-          }, 6000); // 800ms + 3000ms + 1500ms + 700ms buffer
-        } else if (updatedSession.game.phase === 'stanzaEnd') {
-          // Longer pause for stanza end (same animation timing)
-          setTimeout(() => {
-            const { session: nextSession, events: nextEvents } = this.gameManager.continueGame(gameId);
-            this.broadcastEvents(gameId, nextSession, nextEvents);
-            this.checkAndRunAI(gameId);
-          }, 6000);
-        } else {
-          // Check if another AI needs to act
-          this.checkAndRunAI(gameId);
-        }
-      } catch (error) {
-        console.error('AI play error:', error);
-      }
-    }, delay);
-  }
+    // Broadcast events
+    this.broadcastEvents(gameId, session, events);
 
-  private calculateBid(game: GameState, aiPlayer: AIPlayer): number {
-    if (!game.stanza) {
-      throw new Error('No active stanza');
-    }
+    // Check if another AI needs to act
+    this.checkAndRunAI(gameId);
+  }
 
-    const playerIndex = game.players.findIndex(p => p.id === aiPlayer.id);
-    const hand = game.stanza.hands[playerIndex]!;
-    const validBids = getValidBids(
-      playerIndex,
-      game.stanza.dealerIndex,
-      game.stanza.cardsPerPlayer,
-      game.stanza.bids
-    );
-
-    // Simple heuristic: count "strong" cards
-    let estimatedTricks = 0;
-
-    for (const card of hand) {
-      if (isJoker(card)) {
-        estimatedTricks += 0.9; // Jokers are very powerful
-      } else if (isSuitCard(card)) {
-        // Whoopie cards are strong
-        if (isWhoopieCard(card, game.stanza.whoopieRank)) {
-          estimatedTricks += 0.7;
-        }
-        // Trump cards
-        else if (card.suit === game.stanza.currentTrumpSuit) {
-          const value = RANK_VALUES[card.rank];
-          if (value >= 12) estimatedTricks += 0.8; // Q, K, A of trump
-          else if (value >= 10) estimatedTricks += 0.5;
-          else estimatedTricks += 0.2;
-        }
-        // High non-trump
-        else if (RANK_VALUES[card.rank] === 14) {
-          estimatedTricks += 0.4; // Aces
-        }
-      }
-    }
+  private applyPlay(gameId: string, aiPlayer: AIPlayer, card: Card, callWhoopie: boolean): void {
+    const { session, events } = this.gameManager.aiPlayCard(gameId, aiPlayer.id, card, callWhoopie);
 
-    // Add some randomness based on difficulty
-    const variance = aiPlayer.difficulty === 'beginner' ? 1 :
-                     aiPlayer.difficulty === 'intermediate' ? 0.5 : 0.2;
-    const randomAdjust = (Math.random() - 0.5) * 2 * variance;
+    // Broadcast events
+    this.broadcastEvents(gameId, session, events);
 
-    let bid = Math.round(estimatedTricks + randomAdjust);
-    bid = Math.max(0, Math.min(bid, game.stanza.cardsPerPlayer));
+    // Schedules the trickEnd / stanzaEnd advance, or the next AI turn
+    this.checkAndRunAI(gameId);
+  }
 
-    // Make sure bid is valid
-    if (!validBids.includes(bid)) {
-      // Find closest valid bid
-      bid = validBids.reduce((closest, valid) =>
-        Math.abs(valid - bid) < Math.abs(closest - bid) ? valid : closest
-      );
+  /**
+   * Ask an external bot for its move
+   *
+   * The seat's job is the fallback: it stays pending while the bot thinks,
+   * so the seat is never asked twice, and plays the built-in strategy if
+   * the bot doesn't answer in time.
+   */
+  private askExternalBot(gameId: string, aiPlayer: AIPlayer, phase: 'bidding' | 'playing', seat: string): void {
+    const fallback = () => (phase === 'bidding' ? this.runAIBid(gameId, aiPlayer.id) : this.runAIPlay(gameId, aiPlayer.id));
+    if (!this.gameManager.scheduleJob(gameId, seat, BOT_TURN_TIMEOUT_MS, fallback)) {
+      return;
     }
 
-    return bid;
+    const game = this.gameManager.getSession(gameId)!.game;
+    this.bots!.requestTurn(aiPlayer.externalBot!, gameId, game, this.getPlayerIndex(game, aiPlayer))
+      .catch((error) => {
+        console.error(`Bot ${aiPlayer.externalBot} turn error:`, error);
+        return null;
+      })
+      .then((reply) => {
+        // Too late: the fallback has played, or the game was paused or redealt
+        if (!this.gameManager.cancelJob(gameId, seat)) {
+          return;
+        }
+        if (!this.applyBotReply(gameId, aiPlayer.id, phase, reply)) {
+          fallback();
+        }
+      });
   }
 
-  private calculatePlay(game: GameState, aiPlayer: AIPlayer): { card: Card; callWhoopie: boolean } {
-    if (!game.stanza) {
-      throw new Error('No active stanza');
+  /**
+   * Apply a bot's answer if it's a legal move; false if it isn't (or there's no answer)
+   */
+  private applyBotReply(gameId: string, playerId: string, phase: 'bidding' | 'playing', reply: BotTurnReply | null): boolean {
+    const aiPlayer = this.getAIToAct(gameId, playerId, phase);
+    if (!aiPlayer || !reply) {
+      return false;
     }
 
-    const playerIndex = game.players.findIndex(p => p.id === aiPlayer.id);
-    const hand = game.stanza.hands[playerIndex]!;
-    const validCards = getValidCards(
-      hand,
-      game.stanza.currentTrick,
-      game.stanza.currentTrumpSuit,
-      game.stanza.whoopieRank,
-      game.stanza.jTrumpActive
-    );
-
-    if (validCards.length === 0) {
-      throw new Error('No valid cards to play');
+    try {
+      const { canBid, canPlay } = getValidActions(this.gameManager.getSession(gameId)!.game);
+      if (phase === 'bidding' && 'bid' in reply && canBid.includes(reply.bid)) {
+        this.applyBid(gameId, aiPlayer, reply.bid);
+        return true;
+      }
+
+      if (phase === 'playing' && 'card' in reply) {
+        const card = canPlay.find(c => cardsEqual(c, reply.card));
+        if (card) {
+          this.applyPlay(gameId, aiPlayer, card, reply.calledWhoopie === true);
+          return true;
+        }
+      }
+
+      console.warn(`Bot ${aiPlayer.externalBot} sent an illegal move:`, reply);
+    } catch (error) {
+      console.error('External bot move error:', error);
     }
+    return false;
+  }
 
-    // Simple strategy: pick based on whether we want to win or lose
-    const bid = game.stanza.bids[playerIndex] ?? 0;
-    const tricksTaken = game.stanza.tricksTaken[playerIndex] ?? 0;
-    const tricksNeeded = bid - tricksTaken;
+  /**
+   * Move the game on from trickEnd / stanzaEnd once the table has seen the trick
+   * (the pause comes from the game's table speed)
+   */
+  private scheduleAdvance(gameId: string, delay: number): void {
+    this.gameManager.scheduleJob(gameId, ADVANCE_JOB_KEY, delay, () => {
+      try {
+        const { session, events } = this.gameManager.continueGame(gameId);
+        // Always broadcast state update, even if no events (phase change needs to be sent)
+        this.broadcastEvents(gameId, session, events);
 
-    let selectedCard: Card;
+        // Every game ends here, whoever played the last card
+        if (session.game.phase === 'gameEnd') {
+          recordGameCompleted(this.repositories, gameId, session.game.completedStanzas.length);
+        }
+        this.checkAndRunAI(gameId);
+      } catch (error) {
+        console.error('AI advance error:', error);
+      }
+    });
+  }
 
-    if (tricksNeeded > 0) {
-      // Need to win tricks - play high
-      selectedCard = this.getHighestCard(validCards, game.stanza.whoopieRank);
-    } else {
-      // Don't need tricks - play low
-      selectedCard = this.getLowestCard(validCards, game.stanza.whoopieRank);
+  /**
+   * The AI player, if it's still their turn in this phase when the job runs
+   * (the game may have moved on while the turn was pending)
+   */
+  private getAIToAct(gameId: string, playerId: string, phase: GamePhase): AIPlayer | null {
+    const session = this.gameManager.getSession(gameId);
+    const aiPlayer = this.gameManager.getCurrentAIPlayer(gameId);
+    if (!session || session.game.phase !== phase || aiPlayer?.id !== playerId) {
+      return null;
     }
+    return aiPlayer;
+  }
 
-    // Always call Whoopie for AI (they don't forget!)
-    // Special case: if whoopieRank is null and this is a lead with a non-joker,
-    // this card will DEFINE the whoopie rank, so it IS a whoopie card
-    const isLead = game.stanza.currentTrick.length === 0;
-    const willDefineWhoopieRank = isLead && game.stanza.whoopieRank === null && !isJoker(selectedCard);
-    const callWhoopie = willDefineWhoopieRank || (isWhoopieCard(selectedCard, game.stanza.whoopieRank) && !isJoker(selectedCard));
-
-    return { card: selectedCard, callWhoopie };
+  private getStrategy(aiPlayer: AIPlayer): AIStrategy {
+    return getAIPlayerStrategy(aiPlayer);
   }
 
-  private getHighestCard(cards: Card[], whoopieRank: Rank | null): Card {
-    return cards.reduce((highest, card) => {
-      const highestValue = this.getCardStrength(highest, whoopieRank);
-      const cardValue = this.getCardStrength(card, whoopieRank);
-      return cardValue > highestValue ? card : highest;
-    });
+  private calculateBid(game: GameState, aiPlayer: AIPlayer): number {
+    const view = createAIGameView(game, this.getPlayerIndex(game, aiPlayer));
+    return this.getStrategy(aiPlayer).bid(view, this.random);
   }
 
-  private getLowestCard(cards: Card[], whoopieRank: Rank | null): Card {
-    return cards.reduce((lowest, card) => {
-      const lowestValue = this.getCardStrength(lowest, whoopieRank);
-      const cardValue = this.getCardStrength(card, whoopieRank);
-      return cardValue < lowestValue ? card : lowest;
-    });
+  private calculatePlay(game: GameState, aiPlayer: AIPlayer): { card: Card; callWhoopie: boolean } {
+    const view = createAIGameView(game, this.getPlayerIndex(game, aiPlayer));
+    if (view.validCards.length === 0) {
+      throw new Error('No valid cards to play');
+    }
+
+    const strategy = this.getStrategy(aiPlayer);
+    const card = strategy.play(view, this.random);
+    return { card, callWhoopie: strategy.callWhoopie(view, card, this.random) };
   }
 
-  private getCardStrength(card: Card, whoopieRank: Rank | null): number {
-    if (isJoker(card)) return 100; // Jokers highest
-    if (isWhoopieCard(card, whoopieRank)) return 50 + RANK_VALUES[card.rank]; // Whoopie cards high
-    return RANK_VALUES[card.rank];
+  private getPlayerIndex(game: GameState, aiPlayer: AIPlayer): number {
+    return game.players.findIndex(p => p.id === aiPlayer.id);
   }
 
   private getRandomDelay(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return randomInt(min, max, this.random);
   }
 
-  private broadcastEvents(gameId: string, session: GameSession, events: any[]): void {
+  private broadcastEvents(gameId: string, session: GameSession, events: GameEvent[]): void {
     // Broadcast to all players in the game
     for (const socketId of session.playerSockets.values()) {
-      const playerId = this.gameManager.getPlayerIdForSocket(socketId);
-      if (playerId) {
-        const playerIndex = session.game.players.findIndex(p => p.id === playerId);
-        const view = this.gameManager.getPlayerView(gameId, socketId);
+      const view = this.gameManager.getPlayerView(gameId, socketId);
+      if (view) {
         this.io.to(socketId).emit('game:update', { events, view });
       }
     }
+
+    broadcastToSpectators(this.io, this.gameManager, gameId, events);
   }
 }
@@ -0,0 +1,122 @@
+import { timingSafeEqual } from 'crypto';
+import { Server, Socket } from 'socket.io';
+import { Card, getPlayerView, getValidActions, GameState } from '@whoopie/shared';
+
+// How long an external bot has to answer before the built-in fallback plays for it
+export const BOT_TURN_TIMEOUT_MS = 5000;
+
+// Socket.io namespace external bots connect to
+const BOT_NAMESPACE = '/bots';
+
+// Sent to a bot on its turn (event 'bot:turn'); the bot answers through the ack
+export interface BotTurnRequest {
+  gameId: string;
+  playerId: string;
+  view: ReturnType<typeof getPlayerView>;
+  validActions: ReturnType<typeof getValidActions>;
+  timeoutMs: number;
+}
+
+export type BotTurnReply =
+  | { bid: number }
+  | { card: Card; calledWhoopie?: boolean };
+
+/**
+ * Parse BOT_TOKENS ("name:token,name:token") into bot name -> token
+ */
+export function parseBotTokens(value: string | undefined): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const entry of (value ?? '').split(',')) {
+    const separator = entry.indexOf(':');
+    const name = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (separator > 0 && name && token) {
+      tokens.set(name, token);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Registered external bots and their live connections
+ *
+ * A bot connects to the /bots namespace with { name, token } as its
+ * handshake auth. Only bots listed in BOT_TOKENS can connect, and only one
+ * connection per bot is kept (a reconnect replaces the old one).
+ */
+export class ExternalBotRegistry {
+  private connections: Map<string, Socket> = new Map(); // bot name -> socket
+
+  constructor(private tokens: Map<string, string>) {}
+
+  attach(io: Server): void {
+    const namespace = io.of(BOT_NAMESPACE);
+
+    namespace.use((socket, next) => {
+      const { name, token } = socket.handshake.auth as { name?: unknown; token?: unknown };
+      if (typeof name !== 'string' || typeof token !== 'string' || !this.isBotToken(name, token)) {
+        next(new Error('Unauthorized'));
+        return;
+      }
+      socket.data.botName = name;
+      next();
+    });
+
+    namespace.on('connection', (socket) => {
+      const name = socket.data.botName as string;
+      this.connections.get(name)?.disconnect(true);
+      this.connections.set(name, socket);
+      console.log(`Bot connected: ${name}`);
+
+      socket.on('disconnect', () => {
+        if (this.connections.get(name) === socket) {
+          this.connections.delete(name);
+        }
+        console.log(`Bot disconnected: ${name}`);
+      });
+    });
+  }
+
+  // Compared in constant time, like session tokens
+  private isBotToken(name: string, token: string): boolean {
+    const expected = this.tokens.get(name);
+    if (expected === undefined) {
+      return false;
+    }
+    const actual = Buffer.from(token);
+    return actual.length === Buffer.byteLength(expected) && timingSafeEqual(actual, Buffer.from(expected));
+  }
+
+  isConnected(name: string): boolean {
+    return this.connections.has(name);
+  }
+
+  getConnectedBots(): string[] {
+    return [...this.connections.keys()];
+  }
+
+  /**
+   * Ask a bot for its move; resolves null if it isn't connected or doesn't
+   * answer in time
+   */
+  requestTurn(name: string, gameId: string, game: GameState, playerIndex: number): Promise<BotTurnReply | null> {
+    const socket = this.connections.get(name);
+    if (!socket) {
+      return Promise.resolve(null);
+    }
+
+    const request: BotTurnRequest = {
+      gameId,
+      playerId: game.players[playerIndex]!.id,
+      view: getPlayerView(game, playerIndex),
+      validActions: getValidActions(game),
+      timeoutMs: BOT_TURN_TIMEOUT_MS,
+    };
+
+    return new Promise((resolve) => {
+      socket.timeout(BOT_TURN_TIMEOUT_MS).emit('bot:turn', request, (error: Error | null, reply: BotTurnReply) => {
+        resolve(error ? null : reply);
+      });
+    });
+  }
+}
@@ -6,34 +6,85 @@ import {
   HumanPlayer,
   AIPlayer,
   AIDifficulty,
+  AIPersonalityName,
+  AI_PERSONALITIES,
   Card,
   GameEvent,
+  GameAction,
+  GameLog,
+  DEFAULT_GAME_SETTINGS,
   createGame,
-  addPlayer,
-  removePlayer,
-  removePlayerAndRedeal,
-  startGame,
-  placeBid,
-  playCard,
-  continueToNextStanza,
-  endGame,
+  createGameLog,
+  appendToGameLog,
+  applyGameAction,
   getPlayerView,
+  getSpectatorView,
   getValidActions,
   isPlayersTurn,
+  Hint,
+  getHint,
+  getAIStrategy,
+  PlayerReview,
+  reviewPlayerInSteps,
+  Clock,
+  GameScheduler,
+  createGameScheduler,
+  systemClock,
+  GameError,
 } from '@whoopie/shared';
+import { GameStore, StoredGame } from '../services/game-store.js';
+
+// Strategy that coaching hints come from
+const HINT_STRATEGY = 'expert';
+
+// How long a review computes before letting other sockets' requests run
+const REVIEW_SLICE_MS = 20;
+
+// Built-in difficulty that plays for an external bot that doesn't answer in time
+const EXTERNAL_BOT_FALLBACK: AIDifficulty = 'intermediate';
+
+// Checkpointed games older than this aren't restored after a restart
+const RESTORE_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+// A restored game nobody has come back to by then is dropped
+const RESTORE_RECONNECT_MS = 10 * 60 * 1000;
+const RESTORE_EXPIRY_JOB_KEY = 'restoreExpiry';
 
 export interface GameSession {
   game: GameState;
+  log: GameLog;                       // Every action applied to this session's game
   playerSockets: Map<string, string>; // playerId -> socketId
+  connectedSince: Map<string, number>; // playerId -> when their current connection began (for host migration)
   spectatorSockets: Set<string>;
+  reviews: Map<string, Promise<PlayerReview>>; // Post-game reviews by player id, started on first request
+  unclaimedSeats: Set<string>;        // Player ids of seats saved before identities existed (the first identity to claim one gets it)
+}
+
+export interface PublicGameListing {
+  id: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  spectatorCount: number;
+  inProgress: boolean;
+  allowSpectators: boolean;
 }
 
 export class GameManager {
   private games: Map<string, GameSession> = new Map();
   private socketToGame: Map<string, string> = new Map(); // socketId -> gameId
   private socketToPlayer: Map<string, string> = new Map(); // socketId -> playerId
+  private spectatorToGame: Map<string, string> = new Map(); // socketId -> gameId
+  private scheduler: GameScheduler; // Pending AI turns and phase advances
+  private checkpoints: Map<string, Promise<void>> = new Map(); // gameId -> latest store write
+  private dirtyGames: Set<string> = new Set(); // Games with a checkpoint queued but not started
+  private storedEntries: Map<string, number> = new Map(); // gameId -> log entries the store has
+
+  constructor(private clock: Clock = systemClock, private store: GameStore | null = null) {
+    this.scheduler = createGameScheduler(clock);
+  }
 
-  createGame(hostSocketId: string, hostName: string, settings?: Partial<GameSettings>): GameSession {
+  createGame(hostSocketId: string, identityId: string, hostName: string, settings?: Partial<GameSettings>): GameSession {
     const playerId = uuidv4();
     const game = createGame(playerId, settings);
 
@@ -42,31 +93,31 @@ export class GameManager {
       id: playerId,
       name: hostName,
       isConnected: true,
+      identityId,
     };
 
-    const { game: gameWithHost } = addPlayer(game, hostPlayer);
-
     const session: GameSession = {
-      game: gameWithHost,
+      game,
+      log: createGameLog(structuredClone(game)),
       playerSockets: new Map([[playerId, hostSocketId]]),
+      connectedSince: new Map([[playerId, this.clock.now()]]),
       spectatorSockets: new Set(),
+      reviews: new Map(),
+      unclaimedSeats: new Set(),
     };
+    this.applyAction(session, { type: 'addPlayer', player: hostPlayer });
 
-    this.games.set(gameWithHost.id, session);
-    this.socketToGame.set(hostSocketId, gameWithHost.id);
+    this.games.set(game.id, session);
+    this.socketToGame.set(hostSocketId, game.id);
     this.socketToPlayer.set(hostSocketId, playerId);
 
     return session;
   }
 
-  joinGame(gameId: string, socketId: string, playerName: string): { session: GameSession; playerId: string; event: GameEvent } {
+  joinGame(gameId: string, socketId: string, identityId: string, playerName: string): { session: GameSession; playerId: string; event: GameEvent } {
     const session = this.games.get(gameId);
     if (!session) {
-      throw new Error('Game not found');
-    }
-
-    if (session.game.phase !== 'waiting') {
-      throw new Error('Game already in progress');
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
     }
 
     const playerId = uuidv4();
@@ -75,58 +126,107 @@ export class GameManager {
       id: playerId,
       name: playerName,
       isConnected: true,
+      identityId,
     };
 
-    const { game, event } = addPlayer(session.game, player);
-    session.game = game;
+    const [event] = this.applyAction(session, { type: 'addPlayer', player });
     session.playerSockets.set(playerId, socketId);
+    session.connectedSince.set(playerId, this.clock.now());
     this.socketToGame.set(socketId, gameId);
     this.socketToPlayer.set(socketId, playerId);
 
-    return { session, playerId, event };
+    return { session, playerId, event: event! };
   }
 
-  addAI(gameId: string, difficulty: AIDifficulty): { session: GameSession; event: GameEvent } {
-    const session = this.games.get(gameId);
-    if (!session) {
-      throw new Error('Game not found');
+  addAI(gameId: string, socketId: string, difficulty: AIDifficulty, personality?: AIPersonalityName): { session: GameSession; event: GameEvent } {
+    const session = this.getSessionForBotSeat(gameId, socketId);
+    if (personality && !Object.hasOwn(AI_PERSONALITIES, personality)) {
+      throw new GameError('UNKNOWN_PERSONALITY', 'Unknown AI personality');
     }
 
-    const aiNames: Record<AIDifficulty, string[]> = {
-      beginner: ['Rookie Bot', 'Newbie AI', 'Learner'],
-      intermediate: ['Card Shark', 'Clever Bot', 'Smart AI'],
-      expert: ['Master Bot', 'Pro AI', 'Genius'],
-    };
-    const names = aiNames[difficulty];
     const usedNames = session.game.players.map(p => p.name);
-    const availableName = names.find(n => !usedNames.includes(n)) || `AI ${session.game.players.length + 1}`;
+    let name: string;
+    if (personality) {
+      // A personality bot goes by the personality's name (numbered if it's already at the table)
+      const baseName = AI_PERSONALITIES[personality].name;
+      name = baseName;
+      for (let n = 2; usedNames.includes(name); n++) {
+        name = `${baseName} ${n}`;
+      }
+    } else {
+      const aiNames: Record<AIDifficulty, string[]> = {
+        beginner: ['Rookie Bot', 'Newbie AI', 'Learner'],
+        intermediate: ['Card Shark', 'Clever Bot', 'Smart AI'],
+        expert: ['Master Bot', 'Pro AI', 'Genius'],
+      };
+      name = aiNames[difficulty].find(n => !usedNames.includes(n)) || `AI ${session.game.players.length + 1}`;
+    }
 
     const aiPlayer: AIPlayer = {
       type: 'ai',
       id: uuidv4(),
-      name: availableName,
+      name,
       difficulty,
+      ...(personality && { personality }),
     };
 
-    const { game, event } = addPlayer(session.game, aiPlayer);
-    session.game = game;
+    const [event] = this.applyAction(session, { type: 'addPlayer', player: aiPlayer });
 
-    return { session, event };
+    return { session, event: event! };
+  }
+
+  // Seat a registered external bot (the caller checks it's connected)
+  // The bot's difficulty picks the built-in strategy that covers for it when it's too slow
+  addExternalBot(gameId: string, socketId: string, botName: string): { session: GameSession; event: GameEvent } {
+    const session = this.getSessionForBotSeat(gameId, socketId);
+
+    const usedNames = session.game.players.map(p => p.name);
+    let name = botName;
+    for (let n = 2; usedNames.includes(name); n++) {
+      name = `${botName} ${n}`;
+    }
+
+    const aiPlayer: AIPlayer = {
+      type: 'ai',
+      id: uuidv4(),
+      name,
+      difficulty: EXTERNAL_BOT_FALLBACK,
+      externalBot: botName,
+    };
+
+    const [event] = this.applyAction(session, { type: 'addPlayer', player: aiPlayer });
+
+    return { session, event: event! };
+  }
+
+  updateSettings(gameId: string, socketId: string, settings: Partial<GameSettings>): GameSession {
+    const session = this.games.get(gameId);
+    if (!session) {
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
+    }
+
+    const playerId = this.socketToPlayer.get(socketId);
+    if (playerId !== session.game.hostId) {
+      throw new GameError('NOT_HOST', 'Only host can change settings');
+    }
+
+    this.applyAction(session, { type: 'updateSettings', settings });
+
+    return session;
   }
 
   startGame(gameId: string, socketId: string): { session: GameSession; events: GameEvent[] } {
     const session = this.games.get(gameId);
     if (!session) {
-      throw new Error('Game not found');
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
     }
 
     const playerId = this.socketToPlayer.get(socketId);
     if (playerId !== session.game.hostId) {
-      throw new Error('Only host can start the game');
+      throw new GameError('NOT_HOST', 'Only host can start the game');
     }
 
-    const { game, events } = startGame(session.game);
-    session.game = game;
+    const events = this.applyAction(session, { type: 'startGame' });
 
     return { session, events };
   }
@@ -134,17 +234,16 @@ export class GameManager {
   placeBid(gameId: string, socketId: string, bid: number): { session: GameSession; events: GameEvent[] } {
     const session = this.games.get(gameId);
     if (!session) {
-      throw new Error('Game not found');
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
     }
 
     const playerId = this.socketToPlayer.get(socketId);
     const playerIndex = session.game.players.findIndex(p => p.id === playerId);
     if (playerIndex === -1) {
-      throw new Error('Player not in game');
+      throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in game');
     }
 
-    const { game, events } = placeBid(session.game, playerIndex, bid);
-    session.game = game;
+    const events = this.applyAction(session, { type: 'placeBid', playerIndex, bid });
 
     return { session, events };
   }
@@ -152,35 +251,80 @@ export class GameManager {
   playCard(gameId: string, socketId: string, card: Card, calledWhoopie: boolean): { session: GameSession; events: GameEvent[] } {
     const session = this.games.get(gameId);
     if (!session) {
-      throw new Error('Game not found');
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
     }
 
     const playerId = this.socketToPlayer.get(socketId);
     const playerIndex = session.game.players.findIndex(p => p.id === playerId);
     if (playerIndex === -1) {
-      throw new Error('Player not in game');
+      throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in game');
     }
 
-    const { game, events } = playCard(session.game, playerIndex, card, calledWhoopie);
-    session.game = game;
+    const events = this.applyAction(session, { type: 'playCard', playerIndex, card, calledWhoopie });
 
     return { session, events };
   }
 
+  // Recommend a bid or card for the player whose turn it is (noted in the game record)
+  getHint(gameId: string, socketId: string): Hint {
+    const session = this.games.get(gameId);
+    if (!session) {
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
+    }
+
+    const playerId = this.socketToPlayer.get(socketId);
+    const playerIndex = session.game.players.findIndex(p => p.id === playerId);
+    if (playerIndex === -1) {
+      throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in game');
+    }
+
+    const hint = getHint(session.game, playerIndex, getAIStrategy(HINT_STRATEGY));
+    this.applyAction(session, { type: 'recordHint', playerId: playerId! });
+
+    return hint;
+  }
+
+  // Review the requesting player's bids and cards once the game is over
+  async getReview(gameId: string, socketId: string): Promise<PlayerReview> {
+    const session = this.games.get(gameId);
+    if (!session) {
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
+    }
+
+    if (session.game.phase !== 'gameEnd') {
+      throw new GameError('GAME_NOT_FINISHED', 'Game is not finished');
+    }
+
+    const playerId = this.socketToPlayer.get(socketId);
+    if (!playerId) {
+      throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in game');
+    }
+
+    // Reviews take a few seconds to compute, so each one is computed in slices
+    // (the server keeps serving games meanwhile) and kept for the session
+    let review = session.reviews.get(playerId);
+    if (!review) {
+      review = runInSlices(reviewPlayerInSteps(session.game, playerId));
+      session.reviews.set(playerId, review);
+      review.catch(() => session.reviews.delete(playerId));
+    }
+
+    return review;
+  }
+
   // AI plays a card (called by AI runner)
   aiPlayCard(gameId: string, playerId: string, card: Card, calledWhoopie: boolean): { session: GameSession; events: GameEvent[] } {
     const session = this.games.get(gameId);
     if (!session) {
-      throw new Error('Game not found');
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
     }
 
     const playerIndex = session.game.players.findIndex(p => p.id === playerId);
     if (playerIndex === -1) {
-      throw new Error('AI player not in game');
+      throw new GameError('PLAYER_NOT_IN_GAME', 'AI player not in game');
     }
 
-    const { game, events } = playCard(session.game, playerIndex, card, calledWhoopie);
-    session.game = game;
+    const events = this.applyAction(session, { type: 'playCard', playerIndex, card, calledWhoopie });
 
     return { session, events };
   }
@@ -189,16 +333,15 @@ export class GameManager {
   aiPlaceBid(gameId: string, playerId: string, bid: number): { session: GameSession; events: GameEvent[] } {
     const session = this.games.get(gameId);
     if (!session) {
-      throw new Error('Game not found');
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
     }
 
     const playerIndex = session.game.players.findIndex(p => p.id === playerId);
     if (playerIndex === -1) {
-      throw new Error('AI player not in game');
+      throw new GameError('PLAYER_NOT_IN_GAME', 'AI player not in game');
     }
 
-    const { game, events } = placeBid(session.game, playerIndex, bid);
-    session.game = game;
+    const events = this.applyAction(session, { type: 'placeBid', playerIndex, bid });
 
     return { session, events };
   }
@@ -206,32 +349,18 @@ export class GameManager {
   continueGame(gameId: string): { session: GameSession; events: GameEvent[] } {
     const session = this.games.get(gameId);
     if (!session) {
-      throw new Error('Game not found');
-    }
-
-    if (session.game.phase === 'stanzaEnd') {
-      const { game, events } = continueToNextStanza(session.game);
-      session.game = game;
-      return { session, events };
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
     }
 
-    if (session.game.phase === 'trickEnd') {
-      // Clear the trick and update phase to playing
-      session.game = {
-        ...session.game,
-        phase: 'playing',
-        stanza: session.game.stanza ? {
-          ...session.game.stanza,
-          currentTrick: [], // Clear the trick for the next round
-        } : null,
-      };
+    if (session.game.phase !== 'stanzaEnd' && session.game.phase !== 'trickEnd') {
       return { session, events: [] };
     }
 
-    return { session, events: [] };
+    const events = this.applyAction(session, { type: 'continueGame' });
+    return { session, events };
   }
 
-  leaveGame(socketId: string): { gameId: string; event: GameEvent; needsHostDecision?: boolean; leavingPlayerId?: string; leavingPlayerName?: string; gameAbandoned?: boolean; gameWasInProgress?: boolean } | null {
+  leaveGame(socketId: string): { gameId: string; event: GameEvent; hostChangedEvent?: GameEvent; needsHostDecision?: boolean; leavingPlayerId?: string; leavingPlayerName?: string; gameAbandoned?: boolean; gameWasInProgress?: boolean } | null {
     const gameId = this.socketToGame.get(socketId);
     const playerId = this.socketToPlayer.get(socketId);
 
@@ -244,33 +373,29 @@ export class GameManager {
       return null;
     }
 
-    const leavingPlayer = session.game.players.find(p => p.id === playerId);
+    const isQueued = session.game.pendingPlayers.some(p => p.id === playerId);
+    const leavingPlayer = [...session.game.players, ...session.game.pendingPlayers].find(p => p.id === playerId);
     const leavingPlayerName = leavingPlayer?.name || 'Unknown';
 
-    // If game hasn't started, clean up fully and remove the player
-    if (session.game.phase === 'waiting') {
+    // If game hasn't started (or the player was only queued to join), clean up fully and remove the player
+    if (session.game.phase === 'waiting' || isQueued) {
       // Clean up socket mappings completely for waiting phase
       this.socketToGame.delete(socketId);
       this.socketToPlayer.delete(socketId);
       session.playerSockets.delete(playerId);
-      const { game, event } = removePlayer(session.game, playerId);
-      session.game = game;
+      session.connectedSince.delete(playerId);
+      const [event] = this.applyAction(session, { type: 'removePlayer', playerId });
 
       // Transfer host if needed
-      if (playerId === session.game.hostId && session.game.players.length > 0) {
-        const newHost = session.game.players.find(p => p.type === 'human') || session.game.players[0];
-        if (newHost) {
-          session.game.hostId = newHost.id;
-        }
-      }
+      const hostChangedEvent = playerId === session.game.hostId ? this.migrateHost(session) : undefined;
 
       // If no human players left, delete the game (AI-only games can't be started)
       const remainingHumans = session.game.players.filter(p => p.type === 'human');
       if (session.game.players.length === 0 || remainingHumans.length === 0) {
-        this.games.delete(gameId);
+        this.deleteGame(gameId);
       }
 
-      return { gameId, event, gameWasInProgress: false };
+      return { gameId, event: event!, hostChangedEvent, gameWasInProgress: false };
     }
 
     // Game in progress - mark player as disconnected but keep them in the game
@@ -284,23 +409,12 @@ export class GameManager {
     if (playerIndex !== -1) {
       const player = session.game.players[playerIndex] as HumanPlayer;
       player.isConnected = false;
+      this.checkpoint(gameId);
     }
+    session.connectedSince.delete(playerId);
 
-    // Transfer host if needed
-    const wasHost = playerId === session.game.hostId;
-    if (wasHost) {
-      const newHost = session.game.players.find(p => p.type === 'human' && p.id !== playerId && (p as HumanPlayer).isConnected);
-      if (newHost) {
-        session.game.hostId = newHost.id;
-      } else {
-        // No connected humans left - game should end or continue with just AI
-        // For now, just pick first human if exists
-        const anyHuman = session.game.players.find(p => p.type === 'human' && p.id !== playerId);
-        if (anyHuman) {
-          session.game.hostId = anyHuman.id;
-        }
-      }
-    }
+    // Transfer host if needed (with no one connected to take over, the game is abandoned below)
+    const hostChangedEvent = playerId === session.game.hostId ? this.migrateHost(session) : undefined;
 
     // Check if all human players are now disconnected
     const connectedHumans = session.game.players.filter(
@@ -315,12 +429,13 @@ export class GameManager {
         this.socketToGame.delete(sid);
         this.socketToPlayer.delete(sid);
       }
-      this.games.delete(gameId);
+      this.deleteGame(gameId);
     }
 
     return {
       gameId,
       event: { type: 'playerLeft', playerId, playerName: leavingPlayerName },
+      hostChangedEvent,
       needsHostDecision: !gameAbandoned, // Only need decision if game isn't abandoned
       leavingPlayerId: playerId,
       leavingPlayerName,
@@ -338,21 +453,21 @@ export class GameManager {
   } {
     const session = this.games.get(gameId);
     if (!session) {
-      throw new Error('Game not found');
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
     }
 
     const hostPlayerId = this.socketToPlayer.get(hostSocketId);
     if (hostPlayerId !== session.game.hostId) {
-      throw new Error('Only host can kick players');
+      throw new GameError('NOT_HOST', 'Only host can kick players');
     }
 
     if (targetPlayerId === hostPlayerId) {
-      throw new Error('Cannot kick yourself');
+      throw new GameError('CANNOT_KICK_SELF', 'Cannot kick yourself');
     }
 
     const targetPlayer = session.game.players.find(p => p.id === targetPlayerId);
     if (!targetPlayer) {
-      throw new Error('Player not found');
+      throw new GameError('PLAYER_NOT_FOUND', 'Player not found');
     }
 
     const kickedPlayerName = targetPlayer.name;
@@ -375,15 +490,15 @@ export class GameManager {
 
     // If game hasn't started, just remove them
     if (session.game.phase === 'waiting') {
-      const { game, event } = removePlayer(session.game, targetPlayerId);
-      session.game = game;
-      return { session, event, kickedPlayerName, targetSocketId };
+      const [event] = this.applyAction(session, { type: 'removePlayer', playerId: targetPlayerId });
+      return { session, event: event!, kickedPlayerName, targetSocketId };
     }
 
     // Game in progress - mark as disconnected, host will decide to replace or continue
     const playerIndex = session.game.players.findIndex(p => p.id === targetPlayerId);
     if (playerIndex !== -1 && targetPlayer.type === 'human') {
       (targetPlayer as HumanPlayer).isConnected = false;
+      this.checkpoint(gameId);
     }
 
     return {
@@ -402,17 +517,17 @@ export class GameManager {
   } {
     const session = this.games.get(gameId);
     if (!session) {
-      throw new Error('Game not found');
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
     }
 
     const hostPlayerId = this.socketToPlayer.get(hostSocketId);
     if (hostPlayerId !== session.game.hostId) {
-      throw new Error('Only host can replace players');
+      throw new GameError('NOT_HOST', 'Only host can replace players');
     }
 
     const playerIndex = session.game.players.findIndex(p => p.id === targetPlayerId);
     if (playerIndex === -1) {
-      throw new Error('Player not found');
+      throw new GameError('PLAYER_NOT_FOUND', 'Player not found');
     }
 
     const oldPlayer = session.game.players[playerIndex]!;
@@ -427,7 +542,7 @@ export class GameManager {
     };
 
     // Replace player in the game
-    session.game.players[playerIndex] = aiPlayer;
+    this.applyAction(session, { type: 'removePlayer', playerId: targetPlayerId, replacement: aiPlayer });
 
     // Clean up any socket mappings for this player
     for (const [pid, sid] of session.playerSockets) {
@@ -456,21 +571,69 @@ export class GameManager {
   } {
     const session = this.games.get(gameId);
     if (!session) {
-      throw new Error('Game not found');
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
     }
 
     const hostPlayerId = this.socketToPlayer.get(hostSocketId);
     if (hostPlayerId !== session.game.hostId) {
-      throw new Error('Only host can make this decision');
+      throw new GameError('NOT_HOST', 'Only host can make this decision');
     }
 
     // Remove the player and redeal the current stanza
-    const { game: newGame, events } = removePlayerAndRedeal(session.game, targetPlayerId);
-    session.game = newGame;
+    const events = this.applyAction(session, { type: 'removePlayerAndRedeal', playerId: targetPlayerId });
+
+    // Seats and the deal have changed, so nothing already scheduled still applies
+    this.scheduler.cancelGame(gameId);
+
+    return { session, events };
+  }
+
+  // Hand the host role to another human player (host only)
+  transferHost(gameId: string, hostSocketId: string, targetPlayerId: string): { session: GameSession; events: GameEvent[] } {
+    const session = this.games.get(gameId);
+    if (!session) {
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
+    }
 
+    const hostPlayerId = this.socketToPlayer.get(hostSocketId);
+    if (hostPlayerId !== session.game.hostId) {
+      throw new GameError('NOT_HOST', 'Only host can hand over the host role');
+    }
+
+    const target = session.game.players.find(p => p.id === targetPlayerId);
+    if (!target) {
+      throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in game');
+    }
+    if (target.type !== 'human') {
+      throw new GameError('HOST_MUST_BE_HUMAN', 'Only a human player can be the host');
+    }
+    if (!target.isConnected) {
+      throw new GameError('HOST_NOT_CONNECTED', 'Only a connected player can be the host');
+    }
+
+    const events = this.applyAction(session, { type: 'transferHost', playerId: targetPlayerId });
     return { session, events };
   }
 
+  // The connected human who has been connected longest, other than the host
+  // (who takes over when the host leaves); undefined if there's no one
+  getHostSuccessor(gameId: string): HumanPlayer | undefined {
+    const session = this.games.get(gameId);
+    if (!session) return undefined;
+
+    let successor: HumanPlayer | undefined;
+    let successorSince = Infinity;
+    for (const player of session.game.players) {
+      if (player.type !== 'human' || !player.isConnected || player.id === session.game.hostId) continue;
+      const since = session.connectedSince.get(player.id) ?? Infinity;
+      if (!successor || since < successorSince) {
+        successor = player;
+        successorSince = since;
+      }
+    }
+    return successor;
+  }
+
   // Get list of disconnected players awaiting host decision
   getDisconnectedPlayers(gameId: string): Array<{ id: string; name: string }> {
     const session = this.games.get(gameId);
@@ -483,25 +646,30 @@ export class GameManager {
       .map(p => ({ id: p.id, name: p.name }));
   }
 
-  // Reconnect a player who lost their socket connection
-  reconnectPlayer(gameId: string, socketId: string, playerId: string): {
+  // Reconnect a player who lost their socket connection (only the identity holding the seat can)
+  reconnectPlayer(gameId: string, socketId: string, identityId: string, playerId: string): {
     session: GameSession;
     playerIndex: number;
-  } | { error: string } {
+  } | { error: GameError } {
     const session = this.games.get(gameId);
     if (!session) {
-      return { error: 'Game not found' };
+      return { error: new GameError('GAME_NOT_FOUND', 'Game not found') };
     }
 
-    // Find the player in the game
+    // Find the player in the game (or in the queue to join at the next stanza)
     const playerIndex = session.game.players.findIndex(p => p.id === playerId);
-    if (playerIndex === -1) {
-      return { error: 'Player not found in game' };
+    const player = session.game.players[playerIndex]
+      ?? session.game.pendingPlayers.find(p => p.id === playerId);
+    if (!player) {
+      return { error: new GameError('PLAYER_NOT_FOUND', 'Player not found in game') };
     }
 
-    const player = session.game.players[playerIndex]!;
     if (player.type !== 'human') {
-      return { error: 'Cannot reconnect AI player' };
+      return { error: new GameError('CANNOT_RECONNECT_AI', 'Cannot reconnect AI player') };
+    }
+
+    if (!this.claimSeat(session.unclaimedSeats, player, identityId)) {
+      return { error: new GameError('NOT_YOUR_SEAT', 'That seat belongs to another player') };
     }
 
     // Check if this player is already connected with a different socket
@@ -514,11 +682,13 @@ export class GameManager {
 
     // Re-establish socket mappings
     session.playerSockets.set(playerId, socketId);
+    session.connectedSince.set(playerId, this.clock.now());
     this.socketToGame.set(socketId, gameId);
     this.socketToPlayer.set(socketId, playerId);
 
     // Mark player as connected
     (player as HumanPlayer).isConnected = true;
+    this.checkpoint(gameId);
 
     return { session, playerIndex };
   }
@@ -527,6 +697,10 @@ export class GameManager {
     return this.games.get(gameId);
   }
 
+  getGameLog(gameId: string): GameLog | undefined {
+    return this.games.get(gameId)?.log;
+  }
+
   getGameForSocket(socketId: string): GameSession | undefined {
     const gameId = this.socketToGame.get(socketId);
     return gameId ? this.games.get(gameId) : undefined;
@@ -544,8 +718,9 @@ export class GameManager {
       return null;
     }
 
+    // Queued players (joined mid-game) get a view with no seat (index -1)
     const playerIndex = session.game.players.findIndex(p => p.id === playerId);
-    if (playerIndex === -1) {
+    if (playerIndex === -1 && !session.game.pendingPlayers.some(p => p.id === playerId)) {
       return null;
     }
 
@@ -560,17 +735,68 @@ export class GameManager {
     };
   }
 
-  getPublicGames(): { id: string; hostName: string; playerCount: number; maxPlayers: number }[] {
-    const publicGames: { id: string; hostName: string; playerCount: number; maxPlayers: number }[] = [];
+  // Watch a game without a seat (no hand, read-only)
+  spectateGame(gameId: string, socketId: string): GameSession {
+    const session = this.games.get(gameId);
+    if (!session) {
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
+    }
+
+    if (!session.game.settings.allowSpectators) {
+      throw new GameError('SPECTATORS_NOT_ALLOWED', 'This game does not allow spectators');
+    }
+
+    this.stopSpectating(socketId);
+    session.spectatorSockets.add(socketId);
+    this.spectatorToGame.set(socketId, gameId);
+
+    return session;
+  }
+
+  // Stop watching; returns the game that was being watched
+  stopSpectating(socketId: string): string | null {
+    const gameId = this.spectatorToGame.get(socketId);
+    if (!gameId) {
+      return null;
+    }
+
+    this.spectatorToGame.delete(socketId);
+    this.games.get(gameId)?.spectatorSockets.delete(socketId);
+
+    return gameId;
+  }
+
+  // revealHands defaults to the game's setting (see getSpectatorView in @whoopie/shared)
+  getSpectatorView(gameId: string, revealHands?: boolean) {
+    const session = this.games.get(gameId);
+    if (!session) {
+      return null;
+    }
+
+    return {
+      ...getSpectatorView(session.game, revealHands),
+      validActions: { canBid: [], canPlay: [] },
+      isMyTurn: false,
+    };
+  }
+
+  getPublicGames(): PublicGameListing[] {
+    const publicGames: PublicGameListing[] = [];
 
     for (const [id, session] of this.games) {
-      if (session.game.settings.isPublic && session.game.phase === 'waiting') {
+      const { settings, phase } = session.game;
+      // Waiting games can be joined; games in progress are listed for watching
+      const watchable = settings.allowSpectators && phase !== 'gameEnd' && phase !== 'resuming';
+      if (settings.isPublic && (phase === 'waiting' || watchable)) {
         const host = session.game.players.find(p => p.id === session.game.hostId);
         publicGames.push({
           id,
           hostName: host?.name || 'Unknown',
           playerCount: session.game.players.length,
-          maxPlayers: session.game.settings.maxPlayers,
+          maxPlayers: settings.maxPlayers,
+          spectatorCount: session.spectatorSockets.size,
+          inProgress: phase !== 'waiting',
+          allowSpectators: settings.allowSpectators,
         });
       }
     }
@@ -582,6 +808,24 @@ export class GameManager {
     return this.games.size;
   }
 
+  getGameIds(): string[] {
+    return [...this.games.keys()];
+  }
+
+  // Run a delayed job for a game (an AI turn or a phase advance)
+  // Returns false if the game is gone or a job with this key is already pending
+  scheduleJob(gameId: string, key: string, delayMs: number, run: () => void): boolean {
+    if (!this.games.has(gameId)) {
+      return false;
+    }
+    return this.scheduler.schedule(gameId, key, delayMs, run);
+  }
+
+  // Cancel a pending job; false if it already ran or was cancelled
+  cancelJob(gameId: string, key: string): boolean {
+    return this.scheduler.cancel(gameId, key);
+  }
+
   // Get current player if it's an AI
   getCurrentAIPlayer(gameId: string): AIPlayer | null {
     const session = this.games.get(gameId);
@@ -597,13 +841,68 @@ export class GameManager {
     return null;
   }
 
-  // Pause a game - returns the game state to be saved
-  pauseGame(gameId: string): { gameState: GameState; socketIds: string[] } | null {
+  // Bring back checkpointed games after a restart (returns their ids)
+  // Everyone starts disconnected; players take their seats back with game:reconnect.
+  // With no one connected, leaveGame never abandons the game, so it expires if no one comes back.
+  restoreGames(stored: StoredGame[]): string[] {
+    const restored: string[] = [];
+
+    for (const { game, log, savedAt } of stored) {
+      if (this.clock.now() - Date.parse(savedAt) > RESTORE_MAX_AGE_MS) {
+        this.store?.remove(game.id).catch((error) => {
+          console.error(`Failed to remove stale game ${game.id} from the store:`, error);
+        });
+        continue;
+      }
+      if (this.games.has(game.id)) {
+        continue;
+      }
+
+      this.games.set(game.id, {
+        game: {
+          ...game,
+          players: game.players.map(p => (p.type === 'human' ? { ...p, isConnected: false } : p)),
+        },
+        log,
+        playerSockets: new Map(),
+        connectedSince: new Map(),
+        spectatorSockets: new Set(),
+        reviews: new Map(),
+        unclaimedSeats: getUnclaimedSeats(game),
+      });
+      this.storedEntries.set(game.id, log.entries.length);
+      this.scheduler.schedule(game.id, RESTORE_EXPIRY_JOB_KEY, RESTORE_RECONNECT_MS, () => {
+        const session = this.games.get(game.id);
+        if (session && !session.game.players.some(p => p.type === 'human' && p.isConnected)) {
+          console.log(`Restored game ${game.id} expired with no one back`);
+          this.deleteGame(game.id);
+        }
+      });
+      restored.push(game.id);
+    }
+
+    return restored;
+  }
+
+  // Wait for queued checkpoints to reach the store (e.g. before shutting down)
+  async flushCheckpoints(): Promise<void> {
+    await Promise.all(this.checkpoints.values());
+  }
+
+  // Pause a game (host only) - returns the game state to be saved
+  pauseGame(gameId: string, hostSocketId: string, identityId: string): { gameState: GameState; socketIds: string[] } | null {
     const session = this.games.get(gameId);
     if (!session) {
       return null;
     }
 
+    // The socket's seat must be the host's, and held by the socket's identity
+    const playerId = this.socketToPlayer.get(hostSocketId);
+    const host = session.game.players.find(p => p.id === session.game.hostId);
+    if (playerId !== session.game.hostId || host?.type !== 'human' || host.identityId !== identityId) {
+      throw new GameError('NOT_HOST', 'Only host can pause the game');
+    }
+
     // Get all connected socket IDs to notify them
     const socketIds = Array.from(session.playerSockets.values());
 
@@ -616,8 +915,8 @@ export class GameManager {
       this.socketToPlayer.delete(socketId);
     }
 
-    // Remove game from active games
-    this.games.delete(gameId);
+    // Remove game from active games (pending AI turns would act on a game that's gone)
+    this.deleteGame(gameId);
 
     return { gameState, socketIds };
   }
@@ -627,8 +926,9 @@ export class GameManager {
     gameState: GameState,
     originalPlayerNames: string[],
     hostSocketId: string,
+    identityId: string,
     hostName: string
-  ): { session: GameSession; playerId: string; playerIndex: number } | { error: string } {
+  ): { session: GameSession; playerId: string; playerIndex: number } | { error: GameError } {
     // Find the player slot matching this name
     const playerIndex = gameState.players.findIndex(
       p => p.type === 'human' && p.name.toLowerCase() === hostName.toLowerCase()
@@ -640,14 +940,19 @@ export class GameManager {
         n => n.toLowerCase() === hostName.toLowerCase()
       );
       if (!wasOriginalPlayer) {
-        return { error: 'Your name was not in the original game. Please use the same name you played with.' };
+        return { error: new GameError('NAME_NOT_IN_GAME', 'Your name was not in the original game. Please use the same name you played with.') };
       }
-      return { error: 'Could not find your player slot' };
+      return { error: new GameError('NAME_NOT_IN_GAME', 'Could not find your player slot') };
     }
 
     const player = gameState.players[playerIndex] as HumanPlayer;
     const playerId = player.id;
 
+    const unclaimedSeats = getUnclaimedSeats(gameState);
+    if (!this.claimSeat(unclaimedSeats, player, identityId)) {
+      return { error: new GameError('NOT_YOUR_SEAT', 'That seat belongs to another player') };
+    }
+
     // Store the phase the game was in before pausing
     const previousPhase = gameState.phase;
 
@@ -656,6 +961,11 @@ export class GameManager {
       ...gameState,
       id: uuidv4(), // New game ID for the resumed session
       phase: 'resuming',
+      // Games paused before house rules existed have no rules in their settings
+      settings: { ...DEFAULT_GAME_SETTINGS, ...gameState.settings },
+      // Players queued to join aren't restored - they can join the resumed game again
+      pendingPlayers: [],
+      hintsUsed: gameState.hintsUsed ?? {},
     };
 
     // Store the previous phase so we can restore it
@@ -672,18 +982,31 @@ export class GameManager {
     // Mark the rejoining player as connected
     (resumingGame.players[playerIndex] as HumanPlayer).isConnected = true;
 
+    // Update the hostId to the first rejoining player
+    resumingGame.hostId = playerId;
+
+    // The resumed session's log starts from the restored state in its original
+    // phase - 'resuming' is a lobby state, not part of the game itself
     const session: GameSession = {
       game: resumingGame,
+      log: createGameLog(structuredClone({
+        ...gameState,
+        id: resumingGame.id,
+        hostId: playerId,
+        settings: resumingGame.settings,
+        pendingPlayers: resumingGame.pendingPlayers,
+      })),
       playerSockets: new Map([[playerId, hostSocketId]]),
+      connectedSince: new Map([[playerId, this.clock.now()]]),
       spectatorSockets: new Set(),
+      reviews: new Map(),
+      unclaimedSeats,
     };
 
     this.games.set(resumingGame.id, session);
     this.socketToGame.set(hostSocketId, resumingGame.id);
     this.socketToPlayer.set(hostSocketId, playerId);
-
-    // Update the hostId to the first rejoining player
-    session.game.hostId = playerId;
+    this.checkpoint(resumingGame.id);
 
     return { session, playerId, playerIndex };
   }
@@ -692,15 +1015,16 @@ export class GameManager {
   rejoinGame(
     gameId: string,
     socketId: string,
+    identityId: string,
     playerName: string
-  ): { session: GameSession; playerId: string; playerIndex: number } | { error: string } {
+  ): { session: GameSession; playerId: string; playerIndex: number } | { error: GameError } {
     const session = this.games.get(gameId);
     if (!session) {
-      return { error: 'Game not found' };
+      return { error: new GameError('GAME_NOT_FOUND', 'Game not found') };
     }
 
     if (session.game.phase !== 'resuming') {
-      return { error: 'Game is not in resuming state' };
+      return { error: new GameError('NOT_RESUMING', 'Game is not in resuming state') };
     }
 
     // Find the player slot matching this name
@@ -709,20 +1033,26 @@ export class GameManager {
     );
 
     if (playerIndex === -1) {
-      return { error: 'No player with that name in this game' };
+      return { error: new GameError('NAME_NOT_IN_GAME', 'No player with that name in this game') };
     }
 
     const player = session.game.players[playerIndex] as HumanPlayer;
 
     if (player.isConnected) {
-      return { error: 'A player with that name has already rejoined' };
+      return { error: new GameError('NAME_ALREADY_REJOINED', 'A player with that name has already rejoined') };
+    }
+
+    if (!this.claimSeat(session.unclaimedSeats, player, identityId)) {
+      return { error: new GameError('NOT_YOUR_SEAT', 'That seat belongs to another player') };
     }
 
     // Mark as connected
-    (session.game.players[playerIndex] as HumanPlayer).isConnected = true;
+    player.isConnected = true;
+    this.checkpoint(gameId);
 
     const playerId = player.id;
     session.playerSockets.set(playerId, socketId);
+    session.connectedSince.set(playerId, this.clock.now());
     this.socketToGame.set(socketId, gameId);
     this.socketToPlayer.set(socketId, playerId);
 
@@ -755,6 +1085,7 @@ export class GameManager {
       // Fallback to bidding if we don't know the previous phase
       session.game.phase = 'bidding';
     }
+    this.checkpoint(gameId);
 
     return session.game;
   }
@@ -768,4 +1099,130 @@ export class GameManager {
       .filter(p => p.type === 'human' && !(p as HumanPlayer).isConnected)
       .map(p => p.name);
   }
+
+  // Make the host's successor the host, if there is one
+  private migrateHost(session: GameSession): GameEvent | undefined {
+    const successor = this.getHostSuccessor(session.game.id);
+    if (!successor) {
+      return undefined;
+    }
+    const [event] = this.applyAction(session, { type: 'transferHost', playerId: successor.id });
+    return event;
+  }
+
+  // The game a socket may seat a bot in: only the host can, and only before the start
+  // (players who join later are queued, and only humans join for themselves)
+  private getSessionForBotSeat(gameId: string, socketId: string): GameSession {
+    const session = this.games.get(gameId);
+    if (!session) {
+      throw new GameError('GAME_NOT_FOUND', 'Game not found');
+    }
+
+    const playerId = this.socketToPlayer.get(socketId);
+    if (playerId !== session.game.hostId) {
+      throw new GameError('NOT_HOST', 'Only host can add bots');
+    }
+    if (session.game.phase !== 'waiting') {
+      throw new GameError('GAME_ALREADY_STARTED', 'Cannot add bots after game has started');
+    }
+
+    return session;
+  }
+
+  // Whether an identity may take a seat; a seat saved before identities existed goes to the first to claim it
+  private claimSeat(unclaimedSeats: Set<string>, player: HumanPlayer, identityId: string): boolean {
+    if (player.identityId === undefined && unclaimedSeats.delete(player.id)) {
+      player.identityId = identityId;
+    }
+    return player.identityId === identityId;
+  }
+
+  // Apply an action to a session's game and record it in the session log
+  // All game-state changes should go through here so the log stays replayable
+  private applyAction(session: GameSession, action: GameAction): GameEvent[] {
+    const { game, events } = applyGameAction(session.game, action);
+    session.game = game;
+    // Clone so later in-place changes (e.g. isConnected) don't rewrite history
+    appendToGameLog(session.log, structuredClone(action));
+    this.checkpoint(game.id);
+    return events;
+  }
+
+  // Queue a write of the game to the store
+  // Changes made in the same tick (or while a write is in flight) share one write
+  private checkpoint(gameId: string): void {
+    if (!this.store || this.dirtyGames.has(gameId)) {
+      return;
+    }
+    this.dirtyGames.add(gameId);
+
+    const store = this.store;
+    const previous = this.checkpoints.get(gameId) ?? Promise.resolve();
+    const write = previous.then(() => {
+      this.dirtyGames.delete(gameId);
+      const session = this.games.get(gameId);
+      if (!session) {
+        return; // Deleted since - deleteGame removes it from the store
+      }
+
+      // Only the entries added since the last checkpoint that got through are written
+      const entryCount = session.log.entries.length;
+      const saved = store.save(
+        { game: session.game, log: session.log, savedAt: new Date(this.clock.now()).toISOString() },
+        this.storedEntries.get(gameId) ?? 0
+      );
+      return saved.then(() => {
+        if (this.games.has(gameId)) {
+          this.storedEntries.set(gameId, entryCount);
+        }
+      });
+    }).catch((error) => {
+      console.error(`Failed to checkpoint game ${gameId}:`, error);
+    });
+    this.checkpoints.set(gameId, write);
+  }
+
+  // Drop a game: its pending jobs, and its checkpoint once any queued write is done
+  private deleteGame(gameId: string): void {
+    this.games.delete(gameId);
+    this.storedEntries.delete(gameId);
+    this.scheduler.cancelGame(gameId);
+    if (!this.store) {
+      return;
+    }
+
+    const store = this.store;
+    const previous = this.checkpoints.get(gameId) ?? Promise.resolve();
+    const removal = previous.then(() => store.remove(gameId)).catch((error) => {
+      console.error(`Failed to remove game ${gameId} from the store:`, error);
+    }).finally(() => {
+      if (this.checkpoints.get(gameId) === removal) {
+        this.checkpoints.delete(gameId);
+      }
+    });
+    this.checkpoints.set(gameId, removal);
+  }
+}
+
+// Run a long computation, yielding to the event loop every REVIEW_SLICE_MS
+// (of real time - a test's manual clock would never end a slice)
+async function runInSlices<T>(steps: Generator<void, T, void>): Promise<T> {
+  let sliceEnd = Date.now() + REVIEW_SLICE_MS;
+  for (;;) {
+    const step = steps.next();
+    if (step.done) {
+      return step.value;
+    }
+    if (Date.now() >= sliceEnd) {
+      await new Promise((resolve) => setImmediate(resolve));
+      sliceEnd = Date.now() + REVIEW_SLICE_MS;
+    }
+  }
+}
+
+// Human seats in a saved game that no identity holds (the game was saved before identities existed)
+function getUnclaimedSeats(game: GameState): Set<string> {
+  return new Set(
+    game.players.filter(p => p.type === 'human' && p.identityId === undefined).map(p => p.id)
+  );
 }
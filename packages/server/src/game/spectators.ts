@@ -0,0 +1,48 @@
+import { GameEvent } from '@whoopie/shared';
+import { GameServer } from '../socket-types.js';
+import { GameManager } from './game-manager.js';
+
+const SPECTATOR_JOB_KEY = 'spectators';
+let nextUpdateId = 1;
+
+/**
+ * Send spectators a game:update with the latest spectator view
+ *
+ * If the game reveals hands to spectators, the update is held back by the
+ * configured delay so spectators can't relay live hands to players. Held
+ * back updates are game jobs, cancelled with the game's other jobs.
+ */
+export function broadcastToSpectators(
+  io: GameServer,
+  gameManager: GameManager,
+  gameId: string,
+  events: GameEvent[] = []
+): void {
+  const session = gameManager.getSession(gameId);
+  if (!session || session.spectatorSockets.size === 0) return;
+
+  const view = gameManager.getSpectatorView(gameId)!;
+  const delay = session.game.settings.spectatorRevealDelayMs;
+  const spectatorEvents = delay === null ? events.map(hideHands) : events;
+
+  const send = () => {
+    for (const socketId of session.spectatorSockets) {
+      io.to(socketId).emit('game:update', { events: spectatorEvents, view });
+    }
+  };
+
+  if (delay) {
+    // Each update is its own job, so pausing or removing the game drops the ones still held back
+    gameManager.scheduleJob(gameId, `${SPECTATOR_JOB_KEY}:${nextUpdateId++}`, delay, send);
+  } else {
+    send();
+  }
+}
+
+// stanzaStarted carries the full deal - strip it for spectators who can't see hands
+function hideHands(event: GameEvent): GameEvent {
+  if (event.type === 'stanzaStarted') {
+    return { ...event, stanza: { ...event.stanza, hands: [] } };
+  }
+  return event;
+}
@@ -1,11 +1,18 @@
 import express from 'express';
+import { readFileSync } from 'fs';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
 import { setupSocketHandlers } from './socket-handlers.js';
+import { ExternalBotRegistry, parseBotTokens } from './game/external-bots.js';
 import { GameManager } from './game/game-manager.js';
-import adminRoutes from './routes/admin.js';
-import feedbackRoutes from './routes/feedback.js';
+import { parseBidModel, setBidModel, systemClock } from '@whoopie/shared';
+import { GameServer } from './socket-types.js';
+import { createGameStore } from './services/game-store.js';
+import { checkSessionSecret } from './services/sessions.js';
+import { createRepositories } from './services/repositories.js';
+import { createAdminRoutes } from './routes/admin.js';
+import { createFeedbackRoutes } from './routes/feedback.js';
 import { incrementConnections, decrementConnections } from './services/stats.js';
 
 const PORT = process.env.PORT || 3005;
@@ -26,7 +33,7 @@ app.use(cors({
 app.use(express.json());
 
 const httpServer = createServer(app);
-const io = new Server(httpServer, {
+const io: GameServer = new Server(httpServer, {
   cors: {
     origin: CORS_ORIGINS,
     methods: ['GET', 'POST'],
@@ -34,8 +41,23 @@ const io = new Server(httpServer, {
   },
 });
 
+// Paused games, stats and feedback
+const repositories = createRepositories();
+console.log(`Data backend: ${repositories.backend}`);
+
 // Initialize game manager
-const gameManager = new GameManager();
+// Live games are checkpointed so a restart or deploy doesn't end them
+const gameStore = createGameStore();
+checkSessionSecret(gameStore);
+const gameManager = new GameManager(systemClock, gameStore);
+if (gameStore) {
+  try {
+    const restored = gameManager.restoreGames(await gameStore.loadAll());
+    console.log(`Game store: ${gameStore.name}, restored ${restored.length} games`);
+  } catch (error) {
+    console.error('Failed to restore games:', error);
+  }
+}
 
 // REST endpoints
 app.get('/api/health', (_req, res) => {
@@ -47,20 +69,36 @@ app.get('/api/games', (_req, res) => {
 });
 
 // Mount routes
-app.use('/api', feedbackRoutes);
-app.use('/api/admin', adminRoutes);
+app.use('/api', createFeedbackRoutes(repositories));
+app.use('/api/admin', createAdminRoutes(repositories));
 
 // Track connections for statistics
 io.on('connection', (socket) => {
-  incrementConnections();
+  incrementConnections(repositories);
   socket.on('disconnect', () => {
     decrementConnections();
   });
 });
 
+// Bid with trained weights (see train-bids) instead of the hand-tuned ones
+if (process.env.BID_MODEL_PATH) {
+  const model = parseBidModel(JSON.parse(readFileSync(process.env.BID_MODEL_PATH, 'utf8')));
+  setBidModel(model);
+  console.log(`Bid model loaded: ${model.source}`);
+}
+
+// External bots connect on their own namespace
+const bots = new ExternalBotRegistry(parseBotTokens(process.env.BOT_TOKENS));
+bots.attach(io);
+
 // Setup Socket.io handlers
-setupSocketHandlers(io, gameManager);
+setupSocketHandlers(io, gameManager, repositories, bots);
 
 httpServer.listen(PORT, () => {
   console.log(`🃏 Whoopie server running on port ${PORT}`);
 });
+
+// Let queued checkpoints reach the store before a deploy stops the process
+process.on('SIGTERM', () => {
+  gameManager.flushCheckpoints().finally(() => process.exit(0));
+});
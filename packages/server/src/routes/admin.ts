@@ -1,8 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { getStatistics } from '../services/stats.js';
 import { getFeedback, updateFeedbackStatus } from '../services/feedback.js';
-
-const router: Router = Router();
+import { Repositories } from '../services/repositories.js';
 
 // Admin authentication middleware
 function adminAuth(req: Request, res: Response, next: NextFunction): void {
@@ -22,61 +21,65 @@ function adminAuth(req: Request, res: Response, next: NextFunction): void {
   next();
 }
 
-// Apply auth to all admin routes
-router.use(adminAuth);
-
-// GET /api/admin/stats - Get aggregate statistics
-router.get('/stats', async (_req: Request, res: Response) => {
-  try {
-    const stats = await getStatistics();
-    res.json(stats);
-  } catch (error) {
-    console.error('Failed to get stats:', error);
-    res.status(500).json({ error: 'Failed to get statistics' });
-  }
-});
+export function createAdminRoutes(repositories: Repositories): Router {
+  const router: Router = Router();
 
-// GET /api/admin/feedback - Get paginated feedback list
-router.get('/feedback', async (req: Request, res: Response) => {
-  try {
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-    const offset = parseInt(req.query.offset as string) || 0;
-    const status = req.query.status as string | undefined;
+  // Apply auth to all admin routes
+  router.use(adminAuth);
 
-    const result = await getFeedback(limit, offset, status);
-    res.json(result);
-  } catch (error) {
-    console.error('Failed to get feedback:', error);
-    res.status(500).json({ error: 'Failed to get feedback' });
-  }
-});
+  // GET /api/admin/stats - Get aggregate statistics
+  router.get('/stats', async (_req: Request, res: Response) => {
+    try {
+      const stats = await getStatistics(repositories);
+      res.json(stats);
+    } catch (error) {
+      console.error('Failed to get stats:', error);
+      res.status(500).json({ error: 'Failed to get statistics' });
+    }
+  });
 
-// POST /api/admin/feedback/:id/status - Update feedback status
-router.post('/feedback/:id/status', async (req: Request, res: Response) => {
-  try {
-    const id = req.params.id;
-    const { status } = req.body;
+  // GET /api/admin/feedback - Get paginated feedback list
+  router.get('/feedback', async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const status = req.query.status as string | undefined;
 
-    if (!id) {
-      res.status(400).json({ error: 'Missing feedback ID' });
-      return;
+      const result = await getFeedback(repositories, limit, offset, status);
+      res.json(result);
+    } catch (error) {
+      console.error('Failed to get feedback:', error);
+      res.status(500).json({ error: 'Failed to get feedback' });
     }
+  });
 
-    if (!['new', 'read', 'resolved'].includes(status)) {
-      res.status(400).json({ error: 'Invalid status' });
-      return;
-    }
+  // POST /api/admin/feedback/:id/status - Update feedback status
+  router.post('/feedback/:id/status', async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id;
+      const { status } = req.body;
+
+      if (!id) {
+        res.status(400).json({ error: 'Missing feedback ID' });
+        return;
+      }
+
+      if (!['new', 'read', 'resolved'].includes(status)) {
+        res.status(400).json({ error: 'Invalid status' });
+        return;
+      }
 
-    const success = await updateFeedbackStatus(id, status as 'new' | 'read' | 'resolved');
-    if (success) {
-      res.json({ success: true });
-    } else {
+      const success = await updateFeedbackStatus(repositories, id, status as 'new' | 'read' | 'resolved');
+      if (success) {
+        res.json({ success: true });
+      } else {
+        res.status(500).json({ error: 'Failed to update status' });
+      }
+    } catch (error) {
+      console.error('Failed to update feedback status:', error);
       res.status(500).json({ error: 'Failed to update status' });
     }
-  } catch (error) {
-    console.error('Failed to update feedback status:', error);
-    res.status(500).json({ error: 'Failed to update status' });
-  }
-});
+  });
 
-export default router;
+  return router;
+}
@@ -1,36 +1,39 @@
 import { Router, Request, Response } from 'express';
 import { submitFeedback, hashIP, getClientIP } from '../services/feedback.js';
+import { Repositories } from '../services/repositories.js';
 
-const router: Router = Router();
+export function createFeedbackRoutes(repositories: Repositories): Router {
+  const router: Router = Router();
 
-// POST /api/feedback - Submit feedback (public, rate-limited)
-router.post('/feedback', async (req: Request, res: Response) => {
-  try {
-    const { message, contactEmail } = req.body;
+  // POST /api/feedback - Submit feedback (public, rate-limited)
+  router.post('/feedback', async (req: Request, res: Response) => {
+    try {
+      const { message, contactEmail } = req.body;
 
-    if (!message || typeof message !== 'string') {
-      res.status(400).json({ success: false, error: 'Message is required' });
-      return;
-    }
+      if (!message || typeof message !== 'string') {
+        res.status(400).json({ success: false, error: 'Message is required' });
+        return;
+      }
 
-    const clientIP = getClientIP(req);
-    const ipHash = hashIP(clientIP);
+      const clientIP = getClientIP(req);
+      const ipHash = hashIP(clientIP);
 
-    const result = await submitFeedback({
-      message,
-      contactEmail: contactEmail || undefined,
-      ipHash
-    });
+      const result = await submitFeedback(repositories, {
+        message,
+        contactEmail: contactEmail || undefined,
+        ipHash
+      });
 
-    if (result.success) {
-      res.json({ success: true });
-    } else {
-      res.status(400).json(result);
+      if (result.success) {
+        res.json({ success: true });
+      } else {
+        res.status(400).json(result);
+      }
+    } catch (error) {
+      console.error('Failed to submit feedback:', error);
+      res.status(500).json({ success: false, error: 'Failed to submit feedback' });
     }
-  } catch (error) {
-    console.error('Failed to submit feedback:', error);
-    res.status(500).json({ success: false, error: 'Failed to submit feedback' });
-  }
-});
+  });
 
-export default router;
+  return router;
+}
@@ -1,5 +1,5 @@
 import { createHash } from 'crypto';
-import { supabase, isSupabaseConfigured } from './supabase.js';
+import { Feedback, FeedbackStatus, Repositories } from './repositories.js';
 
 const RATE_LIMIT_MAX = 5; // Max submissions per window
 const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
@@ -18,40 +18,17 @@ export function getClientIP(req: { headers: Record<string, string | string[] | u
   return req.socket?.remoteAddress || 'unknown';
 }
 
-export async function checkRateLimit(ipHash: string): Promise<{ allowed: boolean; remaining: number }> {
-  if (!isSupabaseConfigured() || !supabase) {
-    return { allowed: true, remaining: RATE_LIMIT_MAX };
-  }
-
+export async function checkRateLimit(repositories: Repositories, ipHash: string): Promise<{ allowed: boolean; remaining: number }> {
   try {
     const now = new Date();
     const windowStart = new Date(now.getTime() - RATE_LIMIT_WINDOW_MS);
 
     // Get existing rate limit record
-    const { data: existing } = await supabase
-      .from('rate_limits')
-      .select('*')
-      .eq('ip_hash', ipHash)
-      .single();
-
-    if (!existing) {
-      // First submission from this IP
-      await supabase.from('rate_limits').insert({
-        ip_hash: ipHash,
-        count: 1,
-        window_start: now.toISOString()
-      });
-      return { allowed: true, remaining: RATE_LIMIT_MAX - 1 };
-    }
+    const existing = await repositories.rateLimits.get(ipHash);
 
-    // Check if window has expired
-    const existingWindowStart = new Date(existing.window_start);
-    if (existingWindowStart < windowStart) {
-      // Reset window
-      await supabase.from('rate_limits').update({
-        count: 1,
-        window_start: now.toISOString()
-      }).eq('ip_hash', ipHash);
+    // First submission from this IP, or the window has expired
+    if (!existing || new Date(existing.windowStart) < windowStart) {
+      await repositories.rateLimits.set(ipHash, { count: 1, windowStart: now.toISOString() });
       return { allowed: true, remaining: RATE_LIMIT_MAX - 1 };
     }
 
@@ -61,9 +38,7 @@ export async function checkRateLimit(ipHash: string): Promise<{ allowed: boolean
     }
 
     // Increment count
-    await supabase.from('rate_limits').update({
-      count: existing.count + 1
-    }).eq('ip_hash', ipHash);
+    await repositories.rateLimits.set(ipHash, { ...existing, count: existing.count + 1 });
 
     return { allowed: true, remaining: RATE_LIMIT_MAX - existing.count - 1 };
   } catch (error) {
@@ -80,12 +55,9 @@ export interface FeedbackSubmission {
 }
 
 export async function submitFeedback(
+  repositories: Repositories,
   submission: FeedbackSubmission
 ): Promise<{ success: boolean; error?: string }> {
-  if (!isSupabaseConfigured() || !supabase) {
-    return { success: false, error: 'Feedback system not configured' };
-  }
-
   // Validate message
   if (!submission.message || submission.message.trim().length === 0) {
     return { success: false, error: 'Message is required' };
@@ -104,20 +76,17 @@ export async function submitFeedback(
   }
 
   // Check rate limit
-  const rateLimit = await checkRateLimit(submission.ipHash);
+  const rateLimit = await checkRateLimit(repositories, submission.ipHash);
   if (!rateLimit.allowed) {
     return { success: false, error: 'Too many submissions. Please try again later.' };
   }
 
   try {
-    const { error } = await supabase.from('feedback').insert({
+    await repositories.feedback.insert({
       message: submission.message.trim(),
-      contact_email: submission.contactEmail?.trim() || null,
-      ip_hash: submission.ipHash,
-      status: 'new'
+      contactEmail: submission.contactEmail?.trim() || null,
+      ipHash: submission.ipHash,
     });
-
-    if (error) throw error;
     return { success: true };
   } catch (error) {
     console.error('Failed to submit feedback:', error);
@@ -125,38 +94,14 @@ export async function submitFeedback(
   }
 }
 
-export interface Feedback {
-  id: string;
-  message: string;
-  contact_email: string | null;
-  created_at: string;
-  status: 'new' | 'read' | 'resolved';
-}
-
 export async function getFeedback(
+  repositories: Repositories,
   limit: number = 50,
   offset: number = 0,
   status?: string
 ): Promise<{ data: Feedback[]; total: number }> {
-  if (!isSupabaseConfigured() || !supabase) {
-    return { data: [], total: 0 };
-  }
-
   try {
-    let query = supabase
-      .from('feedback')
-      .select('*', { count: 'exact' })
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (status) {
-      query = query.eq('status', status);
-    }
-
-    const { data, count, error } = await query;
-    if (error) throw error;
-
-    return { data: data || [], total: count || 0 };
+    return await repositories.feedback.list(limit, offset, status);
   } catch (error) {
     console.error('Failed to get feedback:', error);
     return { data: [], total: 0 };
@@ -164,20 +109,12 @@ export async function getFeedback(
 }
 
 export async function updateFeedbackStatus(
+  repositories: Repositories,
   id: string,
-  status: 'new' | 'read' | 'resolved'
+  status: FeedbackStatus
 ): Promise<boolean> {
-  if (!isSupabaseConfigured() || !supabase) {
-    return false;
-  }
-
   try {
-    const { error } = await supabase
-      .from('feedback')
-      .update({ status })
-      .eq('id', id);
-
-    if (error) throw error;
+    await repositories.feedback.updateStatus(id, status);
     return true;
   } catch (error) {
     console.error('Failed to update feedback status:', error);
@@ -0,0 +1,207 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import {
+  DailyStatsRecord,
+  Feedback,
+  GameStatisticsRecord,
+  PausedGameRecord,
+  RateLimitRecord,
+  Repositories,
+} from './repositories.js';
+
+// How long a paused game can be resumed
+const PAUSED_GAME_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A JSON file loaded once and rewritten after every change
+ *
+ * Writes are queued so they land in order, and each one replaces the file
+ * whole (write then rename), so a crash leaves the last complete version.
+ */
+class JsonFile<T> {
+  private loading: Promise<T> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private path: string, private empty: () => T) {}
+
+  read(): Promise<T> {
+    this.loading ??= readFile(this.path, 'utf8')
+      .then(
+        (text) => JSON.parse(text) as T,
+        (error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') return this.empty();
+          throw error;
+        }
+      )
+      .catch((error: unknown) => {
+        // Read the file again next time, so one bad read doesn't last until a restart
+        this.loading = null;
+        throw error;
+      });
+    return this.loading;
+  }
+
+  async update<R>(change: (data: T) => R): Promise<R> {
+    const data = await this.read();
+    const result = change(data);
+    const text = JSON.stringify(data, null, 2);
+
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(`${this.path}.tmp`, text);
+      await rename(`${this.path}.tmp`, this.path);
+    });
+    await this.writing;
+    return result;
+  }
+}
+
+type FeedbackRow = Feedback & { ip_hash: string };
+
+/**
+ * Repositories on JSON files in a directory (for local runs and tests)
+ */
+export function createFileRepositories(dir: string): Repositories {
+  const pausedGames = new JsonFile<Record<string, PausedGameRecord>>(join(dir, 'paused-games.json'), () => ({}));
+  const gameStatistics = new JsonFile<Record<string, GameStatisticsRecord>>(join(dir, 'game-statistics.json'), () => ({}));
+  const dailyStats = new JsonFile<Record<string, DailyStatsRecord>>(join(dir, 'daily-stats.json'), () => ({}));
+  const feedback = new JsonFile<FeedbackRow[]>(join(dir, 'feedback.json'), () => []);
+  const rateLimits = new JsonFile<Record<string, RateLimitRecord>>(join(dir, 'rate-limits.json'), () => ({}));
+
+  const emptyDay = (date: string): DailyStatsRecord => ({
+    date,
+    gamesStarted: 0,
+    gamesCompleted: 0,
+    gamesAbandoned: 0,
+    humanPlayersToday: 0,
+    aiPlayersToday: 0,
+    maxConcurrentPlayers: 0,
+  });
+
+  return {
+    backend: 'file',
+
+    pausedGames: {
+      insert: (record) => pausedGames.update((games) => {
+        if (games[record.resumeCode]) return false;
+        const now = Date.now();
+        games[record.resumeCode] = {
+          ...record,
+          createdAt: new Date(now).toISOString(),
+          expiresAt: new Date(now + PAUSED_GAME_TTL_MS).toISOString(),
+          resumedAt: null,
+        };
+        return true;
+      }),
+
+      async findActive(resumeCode, now) {
+        const game = (await pausedGames.read())[resumeCode];
+        if (!game || game.resumedAt !== null || Date.parse(game.expiresAt) <= now.getTime()) return null;
+        return structuredClone(game);
+      },
+
+      async markResumed(resumeCode, at) {
+        await pausedGames.update((games) => {
+          const game = games[resumeCode];
+          if (game) game.resumedAt = at.toISOString();
+        });
+      },
+    },
+
+    gameStatistics: {
+      async insert(record) {
+        await gameStatistics.update((games) => {
+          games[record.gameId] = {
+            ...record,
+            status: 'created',
+            humanCount: record.playerCount - record.aiCount,
+            startedAt: null,
+            completedAt: null,
+            stanzasPlayed: 0,
+            whoopieCalls: 0,
+            whoopieMisses: 0,
+          };
+        });
+      },
+
+      async update(gameId, fields) {
+        await gameStatistics.update((games) => {
+          if (games[gameId]) Object.assign(games[gameId], fields);
+        });
+      },
+
+      async increment(gameId, field) {
+        await gameStatistics.update((games) => {
+          if (games[gameId]) games[gameId][field]++;
+        });
+      },
+
+      list: async () => Object.values(await gameStatistics.read()),
+    },
+
+    dailyStats: {
+      async increment(date, counter, amount) {
+        await dailyStats.update((days) => {
+          days[date] ??= emptyDay(date);
+          days[date][counter] += amount;
+        });
+      },
+
+      async setMaxConcurrent(date, max) {
+        await dailyStats.update((days) => {
+          days[date] ??= emptyDay(date);
+          days[date].maxConcurrentPlayers = max;
+        });
+      },
+
+      get: async (date) => (await dailyStats.read())[date] ?? null,
+
+      getMaxConcurrent: async () =>
+        Math.max(0, ...Object.values(await dailyStats.read()).map((day) => day.maxConcurrentPlayers)),
+    },
+
+    feedback: {
+      async insert(submission) {
+        await feedback.update((rows) => {
+          rows.push({
+            id: randomUUID(),
+            message: submission.message,
+            contact_email: submission.contactEmail,
+            ip_hash: submission.ipHash,
+            created_at: new Date().toISOString(),
+            status: 'new',
+          });
+        });
+      },
+
+      async list(limit, offset, status) {
+        const rows = (await feedback.read())
+          .filter((row) => !status || row.status === status)
+          .reverse(); // Newest first
+        return {
+          data: rows.slice(offset, offset + limit).map(({ ip_hash: _, ...row }) => row),
+          total: rows.length,
+        };
+      },
+
+      async updateStatus(id, status) {
+        await feedback.update((rows) => {
+          const row = rows.find((r) => r.id === id);
+          if (!row) throw new Error('Feedback not found');
+          row.status = status;
+        });
+      },
+    },
+
+    rateLimits: {
+      get: async (ipHash) => (await rateLimits.read())[ipHash] ?? null,
+
+      async set(ipHash, record) {
+        await rateLimits.update((limits) => {
+          limits[ipHash] = record;
+        });
+      },
+    },
+  };
+}
@@ -0,0 +1,245 @@
+import { appendFile, mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { GameLog, GameLogEntry, GameState } from '@whoopie/shared';
+import { supabase, isSupabaseConfigured } from './supabase.js';
+
+// A live game as checkpointed: enough to rebuild its session after a restart
+export interface StoredGame {
+  game: GameState;
+  log: GameLog;
+  savedAt: string;               // ISO timestamp of the checkpoint
+}
+
+/**
+ * Where live games are checkpointed so a restart doesn't end them
+ *
+ * A game's log only grows, so a checkpoint adds the entries from `fromSeq`
+ * on (the ones earlier checkpoints haven't written) rather than rewriting
+ * the whole log; 0 writes it all. Entries already stored may be sent again
+ * after a failed write and are skipped.
+ */
+export interface GameStore {
+  readonly name: string;
+  save(stored: StoredGame, fromSeq: number): Promise<void>;
+  remove(gameId: string): Promise<void>;
+  loadAll(): Promise<StoredGame[]>;
+}
+
+/**
+ * Keeps checkpoints in this process (survives nothing; for tests and when no store is configured)
+ */
+export class MemoryGameStore implements GameStore {
+  readonly name = 'memory';
+  private games: Map<string, StoredGame> = new Map();
+
+  async save(stored: StoredGame, fromSeq: number): Promise<void> {
+    const existing = this.games.get(stored.game.id);
+    if (!existing || fromSeq === 0) {
+      this.games.set(stored.game.id, structuredClone(stored));
+      return;
+    }
+
+    existing.game = structuredClone(stored.game);
+    existing.savedAt = stored.savedAt;
+    existing.log.entries.push(...structuredClone(stored.log.entries.slice(existing.log.entries.length)));
+  }
+
+  async remove(gameId: string): Promise<void> {
+    this.games.delete(gameId);
+  }
+
+  async loadAll(): Promise<StoredGame[]> {
+    return [...this.games.values()].map((stored) => structuredClone(stored));
+  }
+}
+
+// What FileGameStore keeps in <id>.json; the log's entries are in <id>.log
+interface GameFile {
+  game: GameState;
+  log: Omit<GameLog, 'entries'>;
+  entryCount: number;            // Entries the game had (any later lines are from a checkpoint that didn't finish)
+  savedAt: string;
+}
+
+/**
+ * Two files per game in a directory (for local runs): the game as JSON,
+ * and its log's entries as JSON lines that each checkpoint appends to
+ */
+export class FileGameStore implements GameStore {
+  readonly name = 'file';
+
+  constructor(private dir: string) {}
+
+  async save(stored: StoredGame, fromSeq: number): Promise<void> {
+    // Serialized before the first await: the session keeps changing while this writes
+    const { entries, ...log } = stored.log;
+    const lines = entries.slice(fromSeq).map((entry) => `${JSON.stringify(entry)}\n`).join('');
+    const file: GameFile = { game: stored.game, log, entryCount: entries.length, savedAt: stored.savedAt };
+    const contents = JSON.stringify(file);
+
+    await mkdir(this.dir, { recursive: true });
+    // Entries first, so the game file never counts entries that aren't there
+    const path = this.getPath(stored.game.id);
+    if (fromSeq === 0) {
+      await replaceFile(`${path}.log`, lines);
+    } else {
+      await appendFile(`${path}.log`, lines);
+    }
+    await replaceFile(`${path}.json`, contents);
+  }
+
+  async remove(gameId: string): Promise<void> {
+    const path = this.getPath(gameId);
+    await rm(`${path}.json`, { force: true });
+    await rm(`${path}.log`, { force: true });
+  }
+
+  async loadAll(): Promise<StoredGame[]> {
+    let files: string[];
+    try {
+      files = (await readdir(this.dir)).filter((file) => file.endsWith('.json'));
+    } catch {
+      return []; // Nothing saved yet
+    }
+
+    const games: StoredGame[] = [];
+    for (const file of files) {
+      try {
+        const { game, log, entryCount, savedAt } = JSON.parse(await readFile(join(this.dir, file), 'utf8')) as GameFile;
+        const lines = (await readFile(`${this.getPath(game.id)}.log`, 'utf8')).split('\n');
+        const entries = readEntries(lines, entryCount);
+        if (entries.length < entryCount) {
+          throw new Error(`log has ${entries.length} of ${entryCount} entries`);
+        }
+        games.push({ game, log: { ...log, entries }, savedAt });
+      } catch (error) {
+        console.error(`Skipping unreadable game checkpoint ${file}:`, error);
+      }
+    }
+    return games;
+  }
+
+  private getPath(gameId: string): string {
+    return join(this.dir, gameId);
+  }
+}
+
+// Write then rename, so a crash mid-write leaves the last good file
+async function replaceFile(path: string, contents: string): Promise<void> {
+  await writeFile(`${path}.tmp`, contents);
+  await rename(`${path}.tmp`, path);
+}
+
+// The first `count` entries in order, from JSON lines that may repeat
+// entries or end in a line cut off by a crash
+function readEntries(lines: string[], count: number): GameLogEntry[] {
+  const entries: GameLogEntry[] = [];
+  for (const line of lines) {
+    if (entries.length === count) break;
+    try {
+      const entry = JSON.parse(line) as GameLogEntry;
+      if (entry.seq === entries.length) {
+        entries.push(entry);
+      }
+    } catch {
+      // Cut off mid-write
+    }
+  }
+  return entries;
+}
+
+// Rows Supabase returns per request at most
+const SUPABASE_PAGE_SIZE = 1000;
+
+/**
+ * The live_games table in Supabase (for deploys), with each game's log
+ * entries in live_game_entries
+ */
+export class SupabaseGameStore implements GameStore {
+  readonly name = 'supabase';
+
+  async save(stored: StoredGame, fromSeq: number): Promise<void> {
+    const { game, savedAt } = stored;
+    const { entries, ...log } = stored.log;
+    const rows = entries.slice(fromSeq).map((entry) => ({ game_id: game.id, seq: entry.seq, entry }));
+    const row = { id: game.id, game_state: game, game_log: log, entry_count: entries.length, updated_at: savedAt };
+
+    // Entries first, so the game never counts entries that aren't there
+    if (rows.length > 0) {
+      const { error } = await supabase!.from('live_game_entries').upsert(rows);
+      if (error) throw error;
+    }
+    const { error } = await supabase!.from('live_games').upsert(row);
+    if (error) throw error;
+  }
+
+  async remove(gameId: string): Promise<void> {
+    const { error } = await supabase!.from('live_games').delete().eq('id', gameId);
+    if (error) throw error;
+    const { error: entriesError } = await supabase!.from('live_game_entries').delete().eq('game_id', gameId);
+    if (entriesError) throw entriesError;
+  }
+
+  async loadAll(): Promise<StoredGame[]> {
+    const { data, error } = await supabase!.from('live_games').select('id, game_state, game_log, entry_count, updated_at');
+    if (error) throw error;
+
+    const games: StoredGame[] = [];
+    for (const row of data ?? []) {
+      const entries = await this.loadEntries(row.id as string, row.entry_count as number);
+      if (entries.length < (row.entry_count as number)) {
+        console.error(`Skipping game ${row.id}: its log has ${entries.length} of ${row.entry_count} entries`);
+        continue;
+      }
+      games.push({
+        game: row.game_state as GameState,
+        log: { ...(row.game_log as Omit<GameLog, 'entries'>), entries },
+        savedAt: row.updated_at as string,
+      });
+    }
+    return games;
+  }
+
+  // A game's first `count` entries, a page at a time
+  private async loadEntries(gameId: string, count: number): Promise<GameLogEntry[]> {
+    const entries: GameLogEntry[] = [];
+    while (entries.length < count) {
+      const { data, error } = await supabase!
+        .from('live_game_entries')
+        .select('entry')
+        .eq('game_id', gameId)
+        .lt('seq', count)
+        .order('seq')
+        .range(entries.length, entries.length + SUPABASE_PAGE_SIZE - 1);
+      if (error) throw error;
+      if (!data || data.length === 0) break;
+      entries.push(...data.map((row) => row.entry as GameLogEntry));
+    }
+    return entries;
+  }
+}
+
+/**
+ * Pick a store from GAME_STORE (memory, file or supabase)
+ * Without it, games are checkpointed to Supabase when it's configured, and not at all otherwise
+ */
+export function createGameStore(
+  kind: string | undefined = process.env.GAME_STORE,
+  dir: string = process.env.GAME_STORE_DIR || '.whoopie-games'
+): GameStore | null {
+  switch (kind ?? (isSupabaseConfigured() ? 'supabase' : null)) {
+    case null:
+      return null;
+    case 'memory':
+      return new MemoryGameStore();
+    case 'file':
+      return new FileGameStore(dir);
+    case 'supabase':
+      if (!isSupabaseConfigured()) {
+        throw new Error('GAME_STORE is supabase but Supabase is not configured');
+      }
+      return new SupabaseGameStore();
+    default:
+      throw new Error(`Unknown game store: ${kind}`);
+  }
+}
@@ -1,5 +1,5 @@
-import { supabase, isSupabaseConfigured } from './supabase.js';
-import { GameState } from '@whoopie/shared';
+import { ErrorResponse, GameError, GameState, toErrorResponse } from '@whoopie/shared';
+import { Repositories } from './repositories.js';
 
 // Generate a short, memorable resume code (e.g., "7X3K")
 function generateResumeCode(): string {
@@ -12,92 +12,49 @@ function generateResumeCode(): string {
   return code;
 }
 
-export interface PausedGame {
-  id: string;
-  resumeCode: string;
-  gameState: GameState;
-  playerNames: string[];
-  createdAt: string;
-  expiresAt: string;
-}
-
 export async function saveGameState(
+  repositories: Repositories,
   gameState: GameState
-): Promise<{ success: boolean; resumeCode?: string; error?: string }> {
-  if (!isSupabaseConfigured() || !supabase) {
-    return { success: false, error: 'Pause system not configured' };
-  }
-
-  // Generate a unique resume code (retry if collision)
-  let resumeCode = generateResumeCode();
-  let attempts = 0;
-  const maxAttempts = 5;
-
-  while (attempts < maxAttempts) {
-    try {
-      // Extract human player names for matching on resume
-      const playerNames = gameState.players
-        .filter(p => p.type === 'human')
-        .map(p => p.name);
+): Promise<{ success: true; resumeCode: string } | ErrorResponse> {
+  // Extract human player names for matching on resume
+  const playerNames = gameState.players
+    .filter(p => p.type === 'human')
+    .map(p => p.name);
 
-      const { error } = await supabase.from('paused_games').insert({
-        resume_code: resumeCode,
-        game_state: gameState,
-        player_names: playerNames,
-      });
-
-      if (error) {
-        // If duplicate key, try a new code
-        if (error.code === '23505') {
-          resumeCode = generateResumeCode();
-          attempts++;
-          continue;
-        }
-        throw error;
+  try {
+    // Generate a unique resume code (retry if collision)
+    for (let attempts = 0; attempts < 5; attempts++) {
+      const resumeCode = generateResumeCode();
+      if (await repositories.pausedGames.insert({ resumeCode, gameState, playerNames })) {
+        return { success: true, resumeCode };
       }
-
-      return { success: true, resumeCode };
-    } catch (error) {
-      console.error('Failed to save game state:', error);
-      return { success: false, error: 'Failed to save game' };
     }
+    return { success: false, error: 'Failed to generate unique resume code' };
+  } catch (error) {
+    console.error('Failed to save game state:', error);
+    return { success: false, error: 'Failed to save game' };
   }
-
-  return { success: false, error: 'Failed to generate unique resume code' };
 }
 
 export async function loadGameState(
+  repositories: Repositories,
   resumeCode: string
-): Promise<{ success: boolean; gameState?: GameState; playerNames?: string[]; error?: string }> {
-  if (!isSupabaseConfigured() || !supabase) {
-    return { success: false, error: 'Pause system not configured' };
-  }
-
+): Promise<{ success: true; gameState: GameState; playerNames: string[] } | ErrorResponse> {
   try {
     const normalizedCode = resumeCode.toUpperCase().trim();
+    const paused = await repositories.pausedGames.findActive(normalizedCode, new Date());
 
-    const { data, error } = await supabase
-      .from('paused_games')
-      .select('*')
-      .eq('resume_code', normalizedCode)
-      .is('resumed_at', null)
-      .gt('expires_at', new Date().toISOString())
-      .single();
-
-    if (error || !data) {
-      return { success: false, error: 'Game not found or expired' };
+    if (!paused) {
+      return toErrorResponse(new GameError('RESUME_CODE_NOT_FOUND', 'Game not found or expired'));
     }
 
     // Mark as resumed
-    await supabase
-      .from('paused_games')
-      .update({ resumed_at: new Date().toISOString() })
-      .eq('id', data.id);
+    await repositories.pausedGames.markResumed(normalizedCode, new Date());
 
     return {
       success: true,
-      gameState: data.game_state as GameState,
-      playerNames: data.player_names as string[],
+      gameState: paused.gameState,
+      playerNames: paused.playerNames,
     };
   } catch (error) {
     console.error('Failed to load game state:', error);
@@ -106,33 +63,23 @@ export async function loadGameState(
 }
 
 export async function checkResumeCode(
+  repositories: Repositories,
   resumeCode: string
-): Promise<{ valid: boolean; playerNames?: string[]; error?: string }> {
-  if (!isSupabaseConfigured() || !supabase) {
-    return { valid: false, error: 'Pause system not configured' };
-  }
-
+): Promise<{ success: true; playerNames: string[] } | ErrorResponse> {
   try {
     const normalizedCode = resumeCode.toUpperCase().trim();
+    const paused = await repositories.pausedGames.findActive(normalizedCode, new Date());
 
-    const { data, error } = await supabase
-      .from('paused_games')
-      .select('player_names')
-      .eq('resume_code', normalizedCode)
-      .is('resumed_at', null)
-      .gt('expires_at', new Date().toISOString())
-      .single();
-
-    if (error || !data) {
-      return { valid: false, error: 'Game not found or expired' };
+    if (!paused) {
+      return toErrorResponse(new GameError('RESUME_CODE_NOT_FOUND', 'Game not found or expired'));
     }
 
     return {
-      valid: true,
-      playerNames: data.player_names as string[],
+      success: true,
+      playerNames: paused.playerNames,
     };
   } catch (error) {
     console.error('Failed to check resume code:', error);
-    return { valid: false, error: 'Failed to check code' };
+    return { success: false, error: 'Failed to check code' };
   }
 }
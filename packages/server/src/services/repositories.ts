@@ -0,0 +1,125 @@
+import { GameState } from '@whoopie/shared';
+import { supabase, isSupabaseConfigured } from './supabase.js';
+import { createSupabaseRepositories } from './supabase-repositories.js';
+import { createFileRepositories } from './file-repositories.js';
+
+// ============================================================================
+// Records
+// ============================================================================
+
+export interface PausedGameRecord {
+  resumeCode: string;
+  gameState: GameState;
+  playerNames: string[];         // Human players, for matching on resume
+  createdAt: string;
+  expiresAt: string;
+  resumedAt: string | null;
+}
+
+export type GameStatus = 'created' | 'in_progress' | 'completed' | 'abandoned';
+
+export interface GameStatisticsRecord {
+  gameId: string;
+  status: GameStatus;
+  playerCount: number;
+  aiCount: number;
+  humanCount: number;
+  startedAt: string | null;
+  completedAt: string | null;
+  stanzasPlayed: number;
+  whoopieCalls: number;
+  whoopieMisses: number;
+}
+
+export type GameStatisticsUpdate = Partial<Omit<GameStatisticsRecord, 'gameId' | 'whoopieCalls' | 'whoopieMisses'>>;
+
+export type DailyCounter = 'gamesStarted' | 'gamesCompleted' | 'gamesAbandoned' | 'humanPlayersToday' | 'aiPlayersToday';
+
+export interface DailyStatsRecord extends Record<DailyCounter, number> {
+  date: string;                  // YYYY-MM-DD (UTC)
+  maxConcurrentPlayers: number;
+}
+
+export type FeedbackStatus = 'new' | 'read' | 'resolved';
+
+export interface Feedback {
+  id: string;
+  message: string;
+  contact_email: string | null;
+  created_at: string;
+  status: FeedbackStatus;
+}
+
+export interface RateLimitRecord {
+  count: number;
+  windowStart: string;
+}
+
+// ============================================================================
+// Repositories
+// ============================================================================
+
+export interface PausedGameRepository {
+  /** Save a paused game; false if the resume code is already taken */
+  insert(record: Pick<PausedGameRecord, 'resumeCode' | 'gameState' | 'playerNames'>): Promise<boolean>;
+  /** A game with this code that hasn't been resumed or expired */
+  findActive(resumeCode: string, now: Date): Promise<PausedGameRecord | null>;
+  markResumed(resumeCode: string, at: Date): Promise<void>;
+}
+
+export interface GameStatisticsRepository {
+  insert(record: Pick<GameStatisticsRecord, 'gameId' | 'playerCount' | 'aiCount'>): Promise<void>;
+  update(gameId: string, fields: GameStatisticsUpdate): Promise<void>;
+  increment(gameId: string, field: 'whoopieCalls' | 'whoopieMisses'): Promise<void>;
+  list(): Promise<GameStatisticsRecord[]>;
+}
+
+export interface DailyStatsRepository {
+  increment(date: string, counter: DailyCounter, amount: number): Promise<void>;
+  setMaxConcurrent(date: string, max: number): Promise<void>;
+  get(date: string): Promise<DailyStatsRecord | null>;
+  /** Highest concurrent player count on any day */
+  getMaxConcurrent(): Promise<number>;
+}
+
+export interface FeedbackRepository {
+  insert(feedback: { message: string; contactEmail: string | null; ipHash: string }): Promise<void>;
+  /** Newest first */
+  list(limit: number, offset: number, status?: string): Promise<{ data: Feedback[]; total: number }>;
+  updateStatus(id: string, status: FeedbackStatus): Promise<void>;
+}
+
+export interface RateLimitRepository {
+  get(ipHash: string): Promise<RateLimitRecord | null>;
+  set(ipHash: string, record: RateLimitRecord): Promise<void>;
+}
+
+export interface Repositories {
+  backend: string;
+  pausedGames: PausedGameRepository;
+  gameStatistics: GameStatisticsRepository;
+  dailyStats: DailyStatsRepository;
+  feedback: FeedbackRepository;
+  rateLimits: RateLimitRepository;
+}
+
+/**
+ * Pick the storage backend from DATA_BACKEND (supabase or file)
+ * Without it, Supabase when it's configured and JSON files otherwise
+ */
+export function createRepositories(
+  backend: string | undefined = process.env.DATA_BACKEND,
+  dir: string = process.env.DATA_DIR || '.whoopie-data'
+): Repositories {
+  switch (backend ?? (isSupabaseConfigured() ? 'supabase' : 'file')) {
+    case 'supabase':
+      if (!supabase) {
+        throw new Error('DATA_BACKEND is supabase but Supabase is not configured');
+      }
+      return createSupabaseRepositories(supabase);
+    case 'file':
+      return createFileRepositories(dir);
+    default:
+      throw new Error(`Unknown data backend: ${backend}`);
+  }
+}
@@ -0,0 +1,82 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { Socket } from 'socket.io';
+import { GameStore } from './game-store.js';
+
+// Tokens are signed with SESSION_SECRET; without it a random secret is used,
+// so tokens (and the seats they hold) don't survive a restart
+const secret = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
+if (!process.env.SESSION_SECRET) {
+  console.warn('SESSION_SECRET not configured - session tokens will not survive a restart');
+}
+
+// Tokens older than this aren't accepted; players get a fresh one whenever they take a seat
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Warn when live games outlive the process but session tokens don't:
+ * restored seats are held by identities, so without SESSION_SECRET no one
+ * can take theirs back after a restart
+ */
+export function checkSessionSecret(gameStore: GameStore | null): void {
+  if (gameStore && gameStore.name !== 'memory' && !process.env.SESSION_SECRET) {
+    console.warn(`SESSION_SECRET not configured - games checkpointed to ${gameStore.name} will be restored, but players can't take their seats back after a restart`);
+  }
+}
+
+// What a session token says about its holder
+export interface Session {
+  identityId: string;  // The device's persistent identity; seats, and later history and ratings, hang off it
+  issuedAt: number;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * A token ("payload.signature") proving its holder is this identity
+ */
+export function issueSessionToken(identityId: string): string {
+  const session: Session = { identityId, issuedAt: Date.now() };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The session a token was issued for, or null if it's malformed, wasn't
+ * signed by us or is too old
+ */
+export function verifySessionToken(token: string, now: number = Date.now()): Session | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Session;
+    if (typeof session.identityId !== 'string' || typeof session.issuedAt !== 'number') {
+      return null;
+    }
+    return now - session.issuedAt <= SESSION_MAX_AGE_MS ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Socket.io middleware: give each socket the identity from its handshake token
+ * ({ token } as handshake auth). A socket without a valid token is a new
+ * identity; it gets its token with the first game it creates or joins.
+ */
+export function authenticateSocket(socket: Socket, next: (error?: Error) => void): void {
+  const { token } = socket.handshake.auth as { token?: unknown };
+  const session = typeof token === 'string' ? verifySessionToken(token) : null;
+  socket.data.identityId = session?.identityId ?? randomUUID();
+  next();
+}
@@ -1,4 +1,4 @@
-import { supabase, isSupabaseConfigured } from './supabase.js';
+import { DailyCounter, Repositories } from './repositories.js';
 
 function getToday(): string {
   return new Date().toISOString().split('T')[0]!;
@@ -9,7 +9,7 @@ let currentConnections = 0;
 let maxConcurrentToday = 0;
 let lastDateCheck = getToday();
 
-export function incrementConnections(): void {
+export function incrementConnections(repositories: Repositories): void {
   currentConnections++;
   const today = getToday();
 
@@ -21,7 +21,7 @@ export function incrementConnections(): void {
 
   if (currentConnections > maxConcurrentToday) {
     maxConcurrentToday = currentConnections;
-    updateMaxConcurrent(today, maxConcurrentToday);
+    updateMaxConcurrent(repositories, today, maxConcurrentToday);
   }
 }
 
@@ -33,48 +33,22 @@ export function getCurrentConnections(): number {
   return currentConnections;
 }
 
-async function updateMaxConcurrent(date: string, max: number): Promise<void> {
-  if (!isSupabaseConfigured() || !supabase) return;
-
+async function updateMaxConcurrent(repositories: Repositories, date: string, max: number): Promise<void> {
   try {
-    const { error } = await supabase
-      .from('daily_stats')
-      .upsert({
-        date,
-        max_concurrent_players: max
-      }, {
-        onConflict: 'date'
-      });
-    if (error) console.error('Failed to update max concurrent:', error.message);
+    await repositories.dailyStats.setMaxConcurrent(date, max);
   } catch (error) {
     console.error('Failed to update max concurrent:', error);
   }
 }
 
 export async function recordGameCreated(
+  repositories: Repositories,
   gameId: string,
   playerCount: number,
   aiCount: number
 ): Promise<void> {
-  if (!isSupabaseConfigured() || !supabase) {
-    console.log('Supabase not configured, skipping recordGameCreated');
-    return;
-  }
-
   try {
-    const { error: insertError } = await supabase.from('game_statistics').insert({
-      game_id: gameId,
-      player_count: playerCount,
-      ai_count: aiCount,
-      human_count: playerCount - aiCount,
-      status: 'created'
-    });
-
-    if (insertError) {
-      console.error('Failed to insert game_statistics:', insertError.message);
-      return;
-    }
-
+    await repositories.gameStatistics.insert({ gameId, playerCount, aiCount });
     console.log(`Game created recorded: ${gameId}`);
   } catch (error) {
     console.error('Failed to record game created:', error);
@@ -82,34 +56,25 @@ export async function recordGameCreated(
 }
 
 export async function recordGameStarted(
+  repositories: Repositories,
   gameId: string,
   playerCount: number,
   aiCount: number
 ): Promise<void> {
-  if (!isSupabaseConfigured() || !supabase) return;
-
   try {
-    const { error } = await supabase
-      .from('game_statistics')
-      .update({
-        status: 'in_progress',
-        started_at: new Date().toISOString(),
-        player_count: playerCount,
-        ai_count: aiCount,
-        human_count: playerCount - aiCount
-      })
-      .eq('game_id', gameId);
-
-    if (error) {
-      console.error('Failed to record game started:', error.message);
-      return;
-    }
+    await repositories.gameStatistics.update(gameId, {
+      status: 'in_progress',
+      startedAt: new Date().toISOString(),
+      playerCount,
+      aiCount,
+      humanCount: playerCount - aiCount
+    });
 
     // Update daily stats for games started
     const today = getToday();
-    await incrementDailyStat(today, 'games_started');
-    await incrementDailyStat(today, 'human_players_today', playerCount - aiCount);
-    await incrementDailyStat(today, 'ai_players_today', aiCount);
+    await incrementDailyStat(repositories, today, 'gamesStarted');
+    await incrementDailyStat(repositories, today, 'humanPlayersToday', playerCount - aiCount);
+    await incrementDailyStat(repositories, today, 'aiPlayersToday', aiCount);
 
     console.log(`Game started recorded: ${gameId} with ${playerCount} players (${aiCount} AI)`);
   } catch (error) {
@@ -118,29 +83,19 @@ export async function recordGameStarted(
 }
 
 export async function recordGameCompleted(
+  repositories: Repositories,
   gameId: string,
   stanzasPlayed: number = 0
 ): Promise<void> {
-  if (!isSupabaseConfigured() || !supabase) return;
-
   try {
-    const { error } = await supabase
-      .from('game_statistics')
-      .update({
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-        stanzas_played: stanzasPlayed
-      })
-      .eq('game_id', gameId);
-
-    if (error) {
-      console.error('Failed to record game completed:', error.message);
-      return;
-    }
+    await repositories.gameStatistics.update(gameId, {
+      status: 'completed',
+      completedAt: new Date().toISOString(),
+      stanzasPlayed
+    });
 
     // Update daily stats
-    const today = getToday();
-    await incrementDailyStat(today, 'games_completed');
+    await incrementDailyStat(repositories, getToday(), 'gamesCompleted');
 
     console.log(`Game completed recorded: ${gameId} with ${stanzasPlayed} stanzas`);
   } catch (error) {
@@ -148,26 +103,15 @@ export async function recordGameCompleted(
   }
 }
 
-export async function recordGameAbandoned(gameId: string): Promise<void> {
-  if (!isSupabaseConfigured() || !supabase) return;
-
+export async function recordGameAbandoned(repositories: Repositories, gameId: string): Promise<void> {
   try {
-    const { error } = await supabase
-      .from('game_statistics')
-      .update({
-        status: 'abandoned',
-        completed_at: new Date().toISOString()
-      })
-      .eq('game_id', gameId);
-
-    if (error) {
-      console.error('Failed to record game abandoned:', error.message);
-      return;
-    }
+    await repositories.gameStatistics.update(gameId, {
+      status: 'abandoned',
+      completedAt: new Date().toISOString()
+    });
 
     // Update daily stats
-    const today = getToday();
-    await incrementDailyStat(today, 'games_abandoned');
+    await incrementDailyStat(repositories, getToday(), 'gamesAbandoned');
 
     console.log(`Game abandoned recorded: ${gameId}`);
   } catch (error) {
@@ -176,122 +120,43 @@ export async function recordGameAbandoned(gameId: string): Promise<void> {
 }
 
 export async function updateGamePlayerCount(
+  repositories: Repositories,
   gameId: string,
   playerCount: number,
   aiCount: number
 ): Promise<void> {
-  if (!isSupabaseConfigured() || !supabase) return;
-
   try {
-    const { error } = await supabase
-      .from('game_statistics')
-      .update({
-        player_count: playerCount,
-        ai_count: aiCount,
-        human_count: playerCount - aiCount
-      })
-      .eq('game_id', gameId);
-
-    if (error) {
-      console.error('Failed to update game player count:', error.message);
-    }
+    await repositories.gameStatistics.update(gameId, {
+      playerCount,
+      aiCount,
+      humanCount: playerCount - aiCount
+    });
   } catch (error) {
     console.error('Failed to update game player count:', error);
   }
 }
 
-export async function recordWhoopieCall(gameId: string): Promise<void> {
-  if (!isSupabaseConfigured() || !supabase) return;
-
+export async function recordWhoopieCall(repositories: Repositories, gameId: string): Promise<void> {
   try {
-    // Get current count and increment
-    const { data, error: selectError } = await supabase
-      .from('game_statistics')
-      .select('whoopie_calls')
-      .eq('game_id', gameId)
-      .single();
-
-    if (selectError) {
-      console.error('Failed to get whoopie_calls:', selectError.message);
-      return;
-    }
-
-    const currentCalls = data?.whoopie_calls || 0;
-    const { error } = await supabase
-      .from('game_statistics')
-      .update({ whoopie_calls: currentCalls + 1 })
-      .eq('game_id', gameId);
-
-    if (error) {
-      console.error('Failed to record Whoopie call:', error.message);
-    }
+    await repositories.gameStatistics.increment(gameId, 'whoopieCalls');
   } catch (error) {
     console.error('Failed to record Whoopie call:', error);
   }
 }
 
-export async function recordWhoopieMiss(gameId: string): Promise<void> {
-  if (!isSupabaseConfigured() || !supabase) return;
-
+export async function recordWhoopieMiss(repositories: Repositories, gameId: string): Promise<void> {
   try {
-    // Get current count and increment
-    const { data, error: selectError } = await supabase
-      .from('game_statistics')
-      .select('whoopie_misses')
-      .eq('game_id', gameId)
-      .single();
-
-    if (selectError) {
-      console.error('Failed to get whoopie_misses:', selectError.message);
-      return;
-    }
-
-    const currentMisses = data?.whoopie_misses || 0;
-    const { error } = await supabase
-      .from('game_statistics')
-      .update({ whoopie_misses: currentMisses + 1 })
-      .eq('game_id', gameId);
-
-    if (error) {
-      console.error('Failed to record Whoopie miss:', error.message);
-    }
+    await repositories.gameStatistics.increment(gameId, 'whoopieMisses');
   } catch (error) {
     console.error('Failed to record Whoopie miss:', error);
   }
 }
 
-async function incrementDailyStat(date: string, field: string, amount: number = 1): Promise<void> {
-  if (!supabase) return;
-
+async function incrementDailyStat(repositories: Repositories, date: string, counter: DailyCounter, amount: number = 1): Promise<void> {
   try {
-    // First try to get existing row
-    const { data: existing, error: selectError } = await supabase
-      .from('daily_stats')
-      .select(field)
-      .eq('date', date)
-      .single();
-
-    if (selectError && selectError.code !== 'PGRST116') {
-      // PGRST116 = no rows returned, which is fine
-      console.error(`Failed to query daily stat ${field}:`, selectError.message);
-      return;
-    }
-
-    if (existing && typeof existing === 'object') {
-      const currentValue = (existing as unknown as Record<string, number>)[field] || 0;
-      const { error } = await supabase
-        .from('daily_stats')
-        .update({ [field]: currentValue + amount })
-        .eq('date', date);
-      if (error) console.error(`Failed to increment ${field}:`, error.message);
-    } else {
-      const { error } = await supabase
-        .from('daily_stats')
-        .insert({ date, [field]: amount });
-      if (error) console.error(`Failed to insert daily stat ${field}:`, error.message);
-    }
+    await repositories.dailyStats.increment(date, counter, amount);
   } catch (error) {
-    console.error(`Failed to increment daily stat ${field}:`, error);
+    console.error(`Failed to increment daily stat ${counter}:`, error);
   }
 }
 
@@ -321,7 +186,7 @@ export interface Statistics {
   totalWhoopieMisses: number;
 }
 
-export async function getStatistics(): Promise<Statistics> {
+export async function getStatistics(repositories: Repositories): Promise<Statistics> {
   const defaultStats: Statistics = {
     totalGamesStarted: 0,
     gamesCreatedNotStarted: 0,
@@ -346,23 +211,9 @@ export async function getStatistics(): Promise<Statistics> {
     totalWhoopieMisses: 0
   };
 
-  if (!isSupabaseConfigured() || !supabase) {
-    console.log('Supabase not configured, returning default stats');
-    return defaultStats;
-  }
-
   try {
     const today = getToday();
-
-    // Get all game statistics with more fields for calculations
-    const { data: allGames, error: gamesError } = await supabase
-      .from('game_statistics')
-      .select('status, started_at, completed_at, player_count, stanzas_played, whoopie_calls, whoopie_misses');
-
-    if (gamesError) {
-      console.error('Failed to fetch game statistics:', gamesError.message);
-      return defaultStats;
-    }
+    const allGames = await repositories.gameStatistics.list();
 
     const counts = {
       created: 0,
@@ -384,43 +235,40 @@ export async function getStatistics(): Promise<Statistics> {
     let totalWhoopiesCalled = 0;
     let totalWhoopieMisses = 0;
 
-    allGames?.forEach(row => {
-      const status = row.status as keyof typeof counts;
-      if (status in counts) {
-        counts[status]++;
-      }
-      if (row.started_at) {
+    allGames.forEach(row => {
+      counts[row.status]++;
+      if (row.startedAt) {
         counts.started++;
 
         // Track peak hours
-        const startHour = new Date(row.started_at).getUTCHours();
+        const startHour = new Date(row.startedAt).getUTCHours();
         gamesByHour[startHour] = (gamesByHour[startHour] || 0) + 1;
       }
 
       // Calculate duration for completed/abandoned games
-      if (row.started_at && row.completed_at) {
-        const start = new Date(row.started_at).getTime();
-        const end = new Date(row.completed_at).getTime();
+      if (row.startedAt && row.completedAt) {
+        const start = new Date(row.startedAt).getTime();
+        const end = new Date(row.completedAt).getTime();
         totalDurationMs += (end - start);
         durationCount++;
       }
 
       // Track player counts
-      if (row.player_count && row.started_at) {
-        totalPlayers += row.player_count;
+      if (row.playerCount && row.startedAt) {
+        totalPlayers += row.playerCount;
         playerCountGames++;
-        gamesByPlayerCount[row.player_count] = (gamesByPlayerCount[row.player_count] || 0) + 1;
+        gamesByPlayerCount[row.playerCount] = (gamesByPlayerCount[row.playerCount] || 0) + 1;
       }
 
       // Track stanzas
-      if (row.stanzas_played && row.stanzas_played > 0) {
-        totalStanzas += row.stanzas_played;
+      if (row.stanzasPlayed > 0) {
+        totalStanzas += row.stanzasPlayed;
         stanzasCount++;
       }
 
       // Track Whoopie calls
-      if (row.whoopie_calls) totalWhoopiesCalled += row.whoopie_calls;
-      if (row.whoopie_misses) totalWhoopieMisses += row.whoopie_misses;
+      totalWhoopiesCalled += row.whoopieCalls;
+      totalWhoopieMisses += row.whoopieMisses;
     });
 
     // Find peak hour
@@ -433,40 +281,16 @@ export async function getStatistics(): Promise<Statistics> {
       }
     }
 
-    // Get today's started games (games started today)
-    const { count: gamesToday } = await supabase
-      .from('game_statistics')
-      .select('*', { count: 'exact', head: true })
-      .gte('started_at', `${today}T00:00:00Z`);
-
-    // Get today's completed games
-    const { count: completedToday } = await supabase
-      .from('game_statistics')
-      .select('*', { count: 'exact', head: true })
-      .eq('status', 'completed')
-      .gte('completed_at', `${today}T00:00:00Z`);
-
-    // Get today's abandoned games
-    const { count: abandonedToday } = await supabase
-      .from('game_statistics')
-      .select('*', { count: 'exact', head: true })
-      .eq('status', 'abandoned')
-      .gte('completed_at', `${today}T00:00:00Z`);
-
-    // Get daily stats for player counts
-    const { data: dailyStats } = await supabase
-      .from('daily_stats')
-      .select('*')
-      .eq('date', today)
-      .single();
-
-    // Get max concurrent from all daily stats
-    const { data: maxStats } = await supabase
-      .from('daily_stats')
-      .select('max_concurrent_players')
-      .order('max_concurrent_players', { ascending: false })
-      .limit(1)
-      .single();
+    // Games started, completed and abandoned today
+    const startOfToday = `${today}T00:00:00Z`;
+    const isToday = (time: string | null) => time !== null && new Date(time) >= new Date(startOfToday);
+    const gamesToday = allGames.filter(row => isToday(row.startedAt)).length;
+    const completedToday = allGames.filter(row => row.status === 'completed' && isToday(row.completedAt)).length;
+    const abandonedToday = allGames.filter(row => row.status === 'abandoned' && isToday(row.completedAt)).length;
+
+    // Daily stats for player counts, and max concurrent over all days
+    const dailyStats = await repositories.dailyStats.get(today);
+    const maxConcurrent = await repositories.dailyStats.getMaxConcurrent();
 
     // Calculate derived stats
     const totalFinished = counts.completed + counts.abandoned;
@@ -481,12 +305,12 @@ export async function getStatistics(): Promise<Statistics> {
       gamesInProgress: counts.in_progress,
       gamesCompleted: counts.completed,
       gamesAbandoned: counts.abandoned,
-      gamesToday: gamesToday || 0,
-      gamesCompletedToday: completedToday || 0,
-      gamesAbandonedToday: abandonedToday || 0,
-      humanPlayersToday: dailyStats?.human_players_today || 0,
-      aiPlayersToday: dailyStats?.ai_players_today || 0,
-      maxConcurrentPlayers: maxStats?.max_concurrent_players || maxConcurrentToday,
+      gamesToday,
+      gamesCompletedToday: completedToday,
+      gamesAbandonedToday: abandonedToday,
+      humanPlayersToday: dailyStats?.humanPlayersToday || 0,
+      aiPlayersToday: dailyStats?.aiPlayersToday || 0,
+      maxConcurrentPlayers: maxConcurrent || maxConcurrentToday,
       currentConnections: getCurrentConnections(),
       avgGameDurationMinutes: avgDurationMinutes ? Math.round(avgDurationMinutes * 10) / 10 : null,
       completionRate: completionRate ? Math.round(completionRate * 10) / 10 : null,
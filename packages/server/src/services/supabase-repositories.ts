@@ -0,0 +1,274 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { GameState } from '@whoopie/shared';
+import {
+  DailyCounter,
+  DailyStatsRecord,
+  GameStatisticsRecord,
+  GameStatisticsUpdate,
+  PausedGameRecord,
+  Repositories,
+} from './repositories.js';
+
+// Column names for the camelCase record fields
+const GAME_STATISTICS_COLUMNS: Record<keyof GameStatisticsRecord, string> = {
+  gameId: 'game_id',
+  status: 'status',
+  playerCount: 'player_count',
+  aiCount: 'ai_count',
+  humanCount: 'human_count',
+  startedAt: 'started_at',
+  completedAt: 'completed_at',
+  stanzasPlayed: 'stanzas_played',
+  whoopieCalls: 'whoopie_calls',
+  whoopieMisses: 'whoopie_misses',
+};
+
+const DAILY_COLUMNS: Record<DailyCounter, string> = {
+  gamesStarted: 'games_started',
+  gamesCompleted: 'games_completed',
+  gamesAbandoned: 'games_abandoned',
+  humanPlayersToday: 'human_players_today',
+  aiPlayersToday: 'ai_players_today',
+};
+
+function toColumns(fields: GameStatisticsUpdate): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) =>
+    [GAME_STATISTICS_COLUMNS[key as keyof GameStatisticsRecord], value]
+  ));
+}
+
+/**
+ * Repositories on the Supabase tables (see Persistence in architecture.md)
+ */
+export function createSupabaseRepositories(supabase: SupabaseClient): Repositories {
+  return {
+    backend: 'supabase',
+
+    pausedGames: {
+      async insert(record) {
+        const { error } = await supabase.from('paused_games').insert({
+          resume_code: record.resumeCode,
+          game_state: record.gameState,
+          player_names: record.playerNames,
+        });
+        // Duplicate key: the resume code is taken
+        if (error?.code === '23505') return false;
+        if (error) throw error;
+        return true;
+      },
+
+      async findActive(resumeCode, now) {
+        const { data, error } = await supabase
+          .from('paused_games')
+          .select('*')
+          .eq('resume_code', resumeCode)
+          .is('resumed_at', null)
+          .gt('expires_at', now.toISOString())
+          .single();
+
+        if (error || !data) return null;
+        return {
+          resumeCode: data.resume_code,
+          gameState: data.game_state as GameState,
+          playerNames: data.player_names as string[],
+          createdAt: data.created_at,
+          expiresAt: data.expires_at,
+          resumedAt: data.resumed_at,
+        } satisfies PausedGameRecord;
+      },
+
+      async markResumed(resumeCode, at) {
+        const { error } = await supabase
+          .from('paused_games')
+          .update({ resumed_at: at.toISOString() })
+          .eq('resume_code', resumeCode);
+        if (error) throw error;
+      },
+    },
+
+    gameStatistics: {
+      async insert(record) {
+        const { error } = await supabase.from('game_statistics').insert({
+          game_id: record.gameId,
+          player_count: record.playerCount,
+          ai_count: record.aiCount,
+          human_count: record.playerCount - record.aiCount,
+          status: 'created',
+        });
+        if (error) throw error;
+      },
+
+      async update(gameId, fields) {
+        const { error } = await supabase
+          .from('game_statistics')
+          .update(toColumns(fields))
+          .eq('game_id', gameId);
+        if (error) throw error;
+      },
+
+      async increment(gameId, field) {
+        const column = GAME_STATISTICS_COLUMNS[field];
+        const { data, error: selectError } = await supabase
+          .from('game_statistics')
+          .select(column)
+          .eq('game_id', gameId)
+          .single();
+        if (selectError) throw selectError;
+
+        const current = (data as unknown as Record<string, number> | null)?.[column] || 0;
+        const { error } = await supabase
+          .from('game_statistics')
+          .update({ [column]: current + 1 })
+          .eq('game_id', gameId);
+        if (error) throw error;
+      },
+
+      async list() {
+        const { data, error } = await supabase
+          .from('game_statistics')
+          .select('game_id, status, player_count, ai_count, human_count, started_at, completed_at, stanzas_played, whoopie_calls, whoopie_misses');
+        if (error) throw error;
+
+        return (data ?? []).map((row) => ({
+          gameId: row.game_id,
+          status: row.status,
+          playerCount: row.player_count || 0,
+          aiCount: row.ai_count || 0,
+          humanCount: row.human_count || 0,
+          startedAt: row.started_at,
+          completedAt: row.completed_at,
+          stanzasPlayed: row.stanzas_played || 0,
+          whoopieCalls: row.whoopie_calls || 0,
+          whoopieMisses: row.whoopie_misses || 0,
+        }));
+      },
+    },
+
+    dailyStats: {
+      async increment(date, counter, amount) {
+        const column = DAILY_COLUMNS[counter];
+        const { data: existing, error: selectError } = await supabase
+          .from('daily_stats')
+          .select(column)
+          .eq('date', date)
+          .single();
+
+        // PGRST116 = no rows returned, which is fine
+        if (selectError && selectError.code !== 'PGRST116') throw selectError;
+
+        if (existing && typeof existing === 'object') {
+          const current = (existing as unknown as Record<string, number>)[column] || 0;
+          const { error } = await supabase
+            .from('daily_stats')
+            .update({ [column]: current + amount })
+            .eq('date', date);
+          if (error) throw error;
+        } else {
+          const { error } = await supabase
+            .from('daily_stats')
+            .insert({ date, [column]: amount });
+          if (error) throw error;
+        }
+      },
+
+      async setMaxConcurrent(date, max) {
+        const { error } = await supabase
+          .from('daily_stats')
+          .upsert({ date, max_concurrent_players: max }, { onConflict: 'date' });
+        if (error) throw error;
+      },
+
+      async get(date) {
+        const { data } = await supabase
+          .from('daily_stats')
+          .select('*')
+          .eq('date', date)
+          .single();
+        if (!data) return null;
+
+        return {
+          date,
+          gamesStarted: data.games_started || 0,
+          gamesCompleted: data.games_completed || 0,
+          gamesAbandoned: data.games_abandoned || 0,
+          humanPlayersToday: data.human_players_today || 0,
+          aiPlayersToday: data.ai_players_today || 0,
+          maxConcurrentPlayers: data.max_concurrent_players || 0,
+        } satisfies DailyStatsRecord;
+      },
+
+      async getMaxConcurrent() {
+        const { data } = await supabase
+          .from('daily_stats')
+          .select('max_concurrent_players')
+          .order('max_concurrent_players', { ascending: false })
+          .limit(1)
+          .single();
+        return data?.max_concurrent_players || 0;
+      },
+    },
+
+    feedback: {
+      async insert(feedback) {
+        const { error } = await supabase.from('feedback').insert({
+          message: feedback.message,
+          contact_email: feedback.contactEmail,
+          ip_hash: feedback.ipHash,
+          status: 'new',
+        });
+        if (error) throw error;
+      },
+
+      async list(limit, offset, status) {
+        let query = supabase
+          .from('feedback')
+          .select('*', { count: 'exact' })
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (status) {
+          query = query.eq('status', status);
+        }
+
+        const { data, count, error } = await query;
+        if (error) throw error;
+        return { data: data || [], total: count || 0 };
+      },
+
+      async updateStatus(id, status) {
+        const { error } = await supabase
+          .from('feedback')
+          .update({ status })
+          .eq('id', id);
+        if (error) throw error;
+      },
+    },
+
+    rateLimits: {
+      async get(ipHash) {
+        const { data } = await supabase
+          .from('rate_limits')
+          .select('*')
+          .eq('ip_hash', ipHash)
+          .single();
+        return data ? { count: data.count, windowStart: data.window_start } : null;
+      },
+
+      async set(ipHash, record) {
+        const row = { count: record.count, window_start: record.windowStart };
+        const { data, error } = await supabase
+          .from('rate_limits')
+          .update(row)
+          .eq('ip_hash', ipHash)
+          .select('ip_hash');
+        if (error) throw error;
+
+        // First submission from this IP
+        if (!data?.length) {
+          const { error: insertError } = await supabase.from('rate_limits').insert({ ip_hash: ipHash, ...row });
+          if (insertError) throw insertError;
+        }
+      },
+    },
+  };
+}
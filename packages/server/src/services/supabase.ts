@@ -4,7 +4,7 @@ const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
 
 if (!supabaseUrl || !supabaseServiceKey) {
-  console.warn('Supabase credentials not configured - statistics and feedback disabled');
+  console.warn('Supabase credentials not configured - using local storage');
 }
 
 export const supabase = supabaseUrl && supabaseServiceKey
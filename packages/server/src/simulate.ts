@@ -0,0 +1,87 @@
+import { parseArgs } from 'node:util';
+import {
+  createMonteCarloStrategy,
+  DEFAULT_MONTE_CARLO_OPTIONS,
+  GameLengthMode,
+  GameSettings,
+  getAIStrategy,
+  HOUSE_RULESETS,
+  registerAIStrategy,
+  RulesetName,
+  runTournament,
+} from '@whoopie/shared';
+
+/**
+ * Headless self-play: pnpm --filter @whoopie/server simulate -- [options]
+ *
+ *   --players         Strategy per seat (default expert,intermediate,beginner)
+ *   --games           Games to play (default 1000)
+ *   --seed            First game's seed (default 1)
+ *   --rules           House ruleset (default standard)
+ *   --length          Game length mode without extra settings (default full)
+ *   --expert-samples  Deals the expert tries per move, with no time budget so
+ *                     results are reproducible; 0 keeps the live expert (default 20)
+ */
+const { values } = parseArgs({
+  options: {
+    players: { type: 'string', default: 'expert,intermediate,beginner' },
+    games: { type: 'string', default: '1000' },
+    seed: { type: 'string', default: '1' },
+    rules: { type: 'string', default: 'standard' },
+    length: { type: 'string', default: 'full' },
+    'expert-samples': { type: 'string', default: '20' },
+  },
+});
+
+const strategies = values.players!.split(',').map((name) => name.trim());
+const games = Number(values.games);
+const seed = Number(values.seed);
+const expertSamples = Number(values['expert-samples']);
+
+if (!Object.hasOwn(HOUSE_RULESETS, values.rules!)) {
+  console.error(`Unknown ruleset: ${values.rules}`);
+  process.exit(1);
+}
+const length = values.length as GameLengthMode;
+if (!['full', 'upOnly', 'downOnly'].includes(length)) {
+  console.error('Length must be full, upOnly or downOnly');
+  process.exit(1);
+}
+
+if (expertSamples > 0) {
+  registerAIStrategy(createMonteCarloStrategy({
+    ...DEFAULT_MONTE_CARLO_OPTIONS,
+    name: 'expert',
+    description: getAIStrategy('expert').description,
+    maxSamples: expertSamples,
+    timeBudgetMs: Infinity,
+  }));
+}
+
+const settings: Partial<GameSettings> = {
+  rules: HOUSE_RULESETS[values.rules as RulesetName].rules,
+  length: { mode: length } as GameSettings['length'],
+};
+
+const started = Date.now();
+const report = runTournament({ strategies, games, seed, settings });
+const percent = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+console.log(`${report.completed}/${report.games} games, ${report.stanzas} stanzas in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+console.log(`Seats: ${strategies.join(', ')} (rotated every game), rules: ${values.rules}, length: ${length}\n`);
+console.table(Object.fromEntries(report.strategies.map((s) => [s.name, {
+  seats: s.seats,
+  'win rate': percent(s.winRate),
+  'avg score': s.averageScore.toFixed(1),
+  'bids made': percent(s.bidSuccessRate),
+}])));
+console.log(`J-Trump stanzas: ${percent(report.jTrumpStanzaRate)}`);
+console.log(`Whoopie plays per stanza: ${report.whoopiePlaysPerStanza.toFixed(2)}`);
+
+if (report.failures.length > 0) {
+  console.log(`\n${report.failures.length} failed games:`);
+  for (const failure of report.failures) {
+    console.log(`  seed ${failure.seed} [${failure.strategies.join(', ')}]: ${failure.error}`);
+  }
+  process.exit(1);
+}
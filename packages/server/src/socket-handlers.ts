@@ -1,55 +1,84 @@
-import { Server, Socket } from 'socket.io';
 import { GameManager } from './game/game-manager.js';
 import { AIRunner } from './game/ai-runner.js';
-import { Card, AIDifficulty, GameSettings } from '@whoopie/shared';
+import { ExternalBotRegistry } from './game/external-bots.js';
+import { broadcastToSpectators } from './game/spectators.js';
+import { GameServer, GameSocket } from './socket-types.js';
+import {
+  GameEvent,
+  GameError,
+  RequestEvent,
+  RequestPayloads,
+  ResponseCallback,
+  validateRequest,
+  toErrorResponse,
+} from '@whoopie/shared';
 
 // Grace period before marking a player as disconnected (ms)
 // Allows mobile browsers to reconnect after brief app switches
-const DISCONNECT_GRACE_MS = 20_000;
+export const DISCONNECT_GRACE_MS = 20_000;
+
+// How long a host with no one connected to take over keeps the table before
+// leaving like anyone else (which abandons the game)
+export const HOST_ALONE_HOLD_MS = 10 * 60 * 1000;
 
 // Track pending disconnects so we can cancel them on reconnect
 const pendingDisconnects: Map<string, NodeJS.Timeout> = new Map(); // playerId -> timeout
 import {
   recordGameCreated,
   recordGameStarted,
-  recordGameCompleted,
   recordGameAbandoned,
   updateGamePlayerCount,
   recordWhoopieCall,
   recordWhoopieMiss
 } from './services/stats.js';
 import { saveGameState, loadGameState, checkResumeCode } from './services/pause.js';
+import { Repositories } from './services/repositories.js';
+import { authenticateSocket, issueSessionToken } from './services/sessions.js';
+
+export function setupSocketHandlers(
+  io: GameServer,
+  gameManager: GameManager,
+  repositories: Repositories,
+  bots: ExternalBotRegistry | null = null
+): void {
+  const aiRunner = new AIRunner(io, gameManager, repositories, bots);
+
+  // Pick up AI turns and phase advances in games restored after a restart
+  for (const gameId of gameManager.getGameIds()) {
+    aiRunner.checkAndRunAI(gameId);
+  }
 
-export function setupSocketHandlers(io: Server, gameManager: GameManager): void {
-  const aiRunner = new AIRunner(io, gameManager);
+  // Every socket acts as the identity in its handshake token; seats are bound to identities
+  io.use(authenticateSocket);
 
-  io.on('connection', (socket: Socket) => {
+  io.on('connection', (socket) => {
     console.log(`Client connected: ${socket.id}`);
 
     // Create a new game
-    socket.on('game:create', (data: { playerName: string; settings?: Partial<GameSettings> }, callback) => {
+    onRequest(socket, 'game:create', (data, callback) => {
       try {
-        const session = gameManager.createGame(socket.id, data.playerName, data.settings);
+        const session = gameManager.createGame(socket.id, socket.data.identityId, data.playerName, data.settings);
         socket.join(session.game.id);
 
         // Track game creation
         const humanCount = session.game.players.filter(p => p.type === 'human').length;
         const aiCount = session.game.players.filter(p => p.type === 'ai').length;
-        recordGameCreated(session.game.id, humanCount + aiCount, aiCount);
+        recordGameCreated(repositories, session.game.id, humanCount + aiCount, aiCount);
 
-        const view = gameManager.getPlayerView(session.game.id, socket.id);
-        callback({ success: true, gameId: session.game.id, view });
+        const view = gameManager.getPlayerView(session.game.id, socket.id)!;
+        callback({ success: true, gameId: session.game.id, view, sessionToken: issueSessionToken(socket.data.identityId) });
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Join an existing game
-    socket.on('game:join', (data: { gameId: string; playerName: string }, callback) => {
+    onRequest(socket, 'game:join', (data, callback) => {
       try {
         const { session, playerId, event } = gameManager.joinGame(
           data.gameId,
           socket.id,
+          socket.data.identityId,
           data.playerName
         );
         socket.join(session.game.id);
@@ -57,25 +86,32 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
         // Track player count update
         const humanCount = session.game.players.filter(p => p.type === 'human').length;
         const aiCount = session.game.players.filter(p => p.type === 'ai').length;
-        updateGamePlayerCount(session.game.id, humanCount + aiCount, aiCount);
+        updateGamePlayerCount(repositories, session.game.id, humanCount + aiCount, aiCount);
 
         // Notify other players
         socket.to(session.game.id).emit('game:event', event);
 
         // Send full state to new player
-        const view = gameManager.getPlayerView(session.game.id, socket.id);
-        callback({ success: true, playerId, view });
+        const view = gameManager.getPlayerView(session.game.id, socket.id)!;
+        callback({ success: true, playerId, view, sessionToken: issueSessionToken(socket.data.identityId) });
 
         // Send updated view to all other players
-        broadcastViewUpdate(io, gameManager, session.game.id, socket.id);
+        broadcastViewUpdate(io, gameManager, session.game.id, socket.id, [event]);
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Reconnect to a game after socket disconnect
-    socket.on('game:reconnect', (data: { gameId: string; playerId: string }, callback) => {
+    onRequest(socket, 'game:reconnect', (data, callback) => {
       try {
+        const result = gameManager.reconnectPlayer(data.gameId, socket.id, socket.data.identityId, data.playerId);
+
+        if ('error' in result) {
+          callback(toErrorResponse(result.error));
+          return;
+        }
+
         // Cancel any pending grace-period disconnect for this player
         const pendingTimeout = pendingDisconnects.get(data.playerId);
         if (pendingTimeout) {
@@ -84,69 +120,108 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
           console.log(`Player ${data.playerId} reconnected within grace period — disconnect cancelled`);
         }
 
-        const result = gameManager.reconnectPlayer(data.gameId, socket.id, data.playerId);
-
-        if ('error' in result) {
-          callback({ success: false, error: result.error });
-          return;
-        }
-
         const { session, playerIndex } = result;
         socket.join(session.game.id);
 
-        // Notify other players that this player reconnected
-        const playerName = session.game.players[playerIndex]!.name;
-        const reconnectEvent = {
-          type: 'playerReconnected' as const,
-          playerIndex,
-          playerName
-        };
-        socket.to(session.game.id).emit('game:event', reconnectEvent);
+        // Notify other players that this player reconnected (queued players aren't seated yet)
+        if (playerIndex !== -1) {
+          const reconnectEvent = {
+            type: 'playerReconnected' as const,
+            playerIndex,
+            playerName: session.game.players[playerIndex]!.name
+          };
+          socket.to(session.game.id).emit('game:event', reconnectEvent);
+        }
 
-        // Send full state to reconnected player
-        const view = gameManager.getPlayerView(session.game.id, socket.id);
-        callback({ success: true, view });
+        // Send full state to reconnected player, with a fresh token so an active player's never ages out
+        const view = gameManager.getPlayerView(session.game.id, socket.id)!;
+        callback({ success: true, view, sessionToken: issueSessionToken(socket.data.identityId) });
 
         // Send updated view to all other players (to update isConnected status)
         broadcastViewUpdate(io, gameManager, session.game.id, socket.id);
 
-        console.log(`Player ${playerName} reconnected to game ${data.gameId}`);
+        console.log(`Player ${data.playerId} reconnected to game ${data.gameId}`);
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Add AI player
-    socket.on('game:addAI', (data: { gameId: string; difficulty: AIDifficulty }, callback) => {
+    onRequest(socket, 'game:addAI', (data, callback) => {
+      try {
+        const { session, event } = gameManager.addAI(data.gameId, socket.id, data.difficulty, data.personality);
+
+        // Track player count update
+        const humanCount = session.game.players.filter(p => p.type === 'human').length;
+        const aiCount = session.game.players.filter(p => p.type === 'ai').length;
+        updateGamePlayerCount(repositories, session.game.id, humanCount + aiCount, aiCount);
+
+        // Notify all players
+        io.to(session.game.id).emit('game:event', event);
+
+        // Send updated view to all players
+        broadcastViewUpdate(io, gameManager, session.game.id, undefined, [event]);
+
+        callback({ success: true });
+      } catch (error) {
+        callback(toErrorResponse(error));
+      }
+    });
+
+    // List the registered external bots that are connected right now
+    onRequest(socket, 'game:listBots', (_data, callback) => {
+      callback({ success: true, bots: bots?.getConnectedBots() ?? [] });
+    });
+
+    // Seat a connected external bot
+    onRequest(socket, 'game:addBot', (data, callback) => {
       try {
-        const { session, event } = gameManager.addAI(data.gameId, data.difficulty);
+        if (!bots?.isConnected(data.botName)) {
+          throw new GameError('BOT_NOT_CONNECTED', 'Bot is not connected');
+        }
+
+        const { session, event } = gameManager.addExternalBot(data.gameId, socket.id, data.botName);
 
         // Track player count update
         const humanCount = session.game.players.filter(p => p.type === 'human').length;
         const aiCount = session.game.players.filter(p => p.type === 'ai').length;
-        updateGamePlayerCount(session.game.id, humanCount + aiCount, aiCount);
+        updateGamePlayerCount(repositories, session.game.id, humanCount + aiCount, aiCount);
 
         // Notify all players
         io.to(session.game.id).emit('game:event', event);
 
         // Send updated view to all players
-        broadcastViewUpdate(io, gameManager, session.game.id);
+        broadcastViewUpdate(io, gameManager, session.game.id, undefined, [event]);
 
         callback({ success: true });
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
+      }
+    });
+
+    // Change game settings / house rules (host only, before start)
+    onRequest(socket, 'game:updateSettings', (data, callback) => {
+      try {
+        gameManager.updateSettings(data.gameId, socket.id, data.settings);
+
+        // Send updated view to all players
+        broadcastViewUpdate(io, gameManager, data.gameId);
+
+        callback({ success: true });
+      } catch (error) {
+        callback(toErrorResponse(error));
       }
     });
 
     // Start the game
-    socket.on('game:start', (data: { gameId: string }, callback) => {
+    onRequest(socket, 'game:start', (data, callback) => {
       try {
         const { session, events } = gameManager.startGame(data.gameId, socket.id);
 
         // Track game started with player counts
         const humanCount = session.game.players.filter(p => p.type === 'human').length;
         const aiCount = session.game.players.filter(p => p.type === 'ai').length;
-        recordGameStarted(session.game.id, humanCount + aiCount, aiCount);
+        recordGameStarted(repositories, session.game.id, humanCount + aiCount, aiCount);
 
         // Broadcast events
         for (const event of events) {
@@ -154,19 +229,60 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
         }
 
         // Send updated view to all players
-        broadcastViewUpdate(io, gameManager, session.game.id);
+        broadcastViewUpdate(io, gameManager, session.game.id, undefined, events);
 
         callback({ success: true });
 
         // Check if AI needs to act
         aiRunner.checkAndRunAI(data.gameId);
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
+      }
+    });
+
+    // Ask for a coaching hint on your turn
+    onRequest(socket, 'game:hint', (data, callback) => {
+      try {
+        const hint = gameManager.getHint(data.gameId, socket.id);
+        callback({ success: true, hint });
+      } catch (error) {
+        callback(toErrorResponse(error));
+      }
+    });
+
+    // Review your bids and cards after the game
+    onRequest(socket, 'game:review', async (data, callback) => {
+      try {
+        const review = await gameManager.getReview(data.gameId, socket.id);
+        callback({ success: true, review });
+      } catch (error) {
+        callback(toErrorResponse(error));
       }
     });
 
+    // Watch a game as a spectator
+    onRequest(socket, 'game:spectate', (data, callback) => {
+      try {
+        gameManager.spectateGame(data.gameId, socket.id);
+
+        // The joining view is sent now, so it can only show hands if they aren't delayed
+        const { spectatorRevealDelayMs } = gameManager.getSession(data.gameId)!.game.settings;
+        const view = gameManager.getSpectatorView(data.gameId, spectatorRevealDelayMs === 0)!;
+        callback({ success: true, view });
+
+        console.log(`Spectator ${socket.id} watching game ${data.gameId}`);
+      } catch (error) {
+        callback(toErrorResponse(error));
+      }
+    });
+
+    // Stop watching a game
+    socket.on('game:stopSpectating', () => {
+      gameManager.stopSpectating(socket.id);
+    });
+
     // Place a bid
-    socket.on('game:bid', (data: { gameId: string; bid: number }, callback) => {
+    onRequest(socket, 'game:bid', (data, callback) => {
       try {
         const { session, events } = gameManager.placeBid(data.gameId, socket.id, data.bid);
 
@@ -176,19 +292,19 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
         }
 
         // Send updated view to all players
-        broadcastViewUpdate(io, gameManager, session.game.id);
+        broadcastViewUpdate(io, gameManager, session.game.id, undefined, events);
 
         callback({ success: true });
 
         // Check if AI needs to act
         aiRunner.checkAndRunAI(data.gameId);
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Play a card
-    socket.on('game:play', (data: { gameId: string; card: Card; calledWhoopie: boolean }, callback) => {
+    onRequest(socket, 'game:play', (data, callback) => {
       try {
         const { session, events } = gameManager.playCard(
           data.gameId,
@@ -200,9 +316,9 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
         // Track Whoopie calls and misses from events
         for (const event of events) {
           if (event.type === 'cardPlayed' && event.wasWhoopie && data.calledWhoopie) {
-            recordWhoopieCall(data.gameId);
+            recordWhoopieCall(repositories, data.gameId);
           } else if (event.type === 'whoopieCallMissed') {
-            recordWhoopieMiss(data.gameId);
+            recordWhoopieMiss(repositories, data.gameId);
           }
         }
 
@@ -212,71 +328,34 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
         }
 
         // Send updated view to all players
-        broadcastViewUpdate(io, gameManager, session.game.id);
+        broadcastViewUpdate(io, gameManager, session.game.id, undefined, events);
 
         callback({ success: true });
 
-        // Track game completion with stanza count
-        if (session.game.phase === 'gameEnd') {
-          const stanzasPlayed = session.game.completedStanzas?.length || 0;
-          recordGameCompleted(session.game.id, stanzasPlayed);
-        }
-
-        // Handle phase transitions
-        if (session.game.phase === 'trickEnd') {
-          // Pause for: last card anim (800ms) + display (4s) + gather (1s) + collect (1.5s) + buffer
-          setTimeout(() => {
-            const { session: nextSession, events: nextEvents } = gameManager.continueGame(data.gameId);
-            for (const event of nextEvents) {
-              io.to(nextSession.game.id).emit('game:event', event);
-            }
-            broadcastViewUpdate(io, gameManager, data.gameId);
-            aiRunner.checkAndRunAI(data.gameId);
-          }, 8000);
-        } else if (session.game.phase === 'stanzaEnd') {
-          // Same animation timing for stanza end
-          setTimeout(() => {
-            const { session: nextSession, events: nextEvents } = gameManager.continueGame(data.gameId);
-            for (const event of nextEvents) {
-              io.to(nextSession.game.id).emit('game:event', event);
-            }
-            broadcastViewUpdate(io, gameManager, data.gameId);
-
-            // Check if game ended after stanza transition
-            const updatedSession = gameManager.getSession(data.gameId);
-            if (updatedSession?.game.phase === 'gameEnd') {
-              const stanzasPlayed = updatedSession.game.completedStanzas?.length || 0;
-              recordGameCompleted(data.gameId, stanzasPlayed);
-            }
-
-            aiRunner.checkAndRunAI(data.gameId);
-          }, 8000);
-        } else {
-          // Check if AI needs to act
-          aiRunner.checkAndRunAI(data.gameId);
-        }
+        // Check if AI needs to act (or the trick / stanza needs moving on)
+        aiRunner.checkAndRunAI(data.gameId);
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Get current game state
-    socket.on('game:getState', (data: { gameId: string }, callback) => {
+    onRequest(socket, 'game:getState', (data, callback) => {
       try {
         const view = gameManager.getPlayerView(data.gameId, socket.id);
         callback({ success: true, view });
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Leave game / disconnect
     socket.on('game:leave', () => {
-      handleLeave(socket, io, gameManager, aiRunner);
+      handleLeave(socket, io, gameManager, repositories, aiRunner);
     });
 
     // Kick a player (host only)
-    socket.on('game:kick', (data: { gameId: string; targetPlayerId: string }, callback) => {
+    onRequest(socket, 'game:kick', (data, callback) => {
       try {
         const { session, event, kickedPlayerName, targetSocketId } = gameManager.kickPlayer(
           data.gameId,
@@ -291,7 +370,7 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
 
         // Notify all remaining players
         io.to(session.game.id).emit('game:event', event);
-        broadcastViewUpdate(io, gameManager, session.game.id);
+        broadcastViewUpdate(io, gameManager, session.game.id, undefined, [event]);
 
         // If game is in progress, we need to notify host they can replace with AI
         if (session.game.phase !== 'waiting') {
@@ -307,12 +386,12 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
 
         callback({ success: true });
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Replace disconnected player with AI
-    socket.on('game:replaceWithAI', (data: { gameId: string; targetPlayerId: string }, callback) => {
+    onRequest(socket, 'game:replaceWithAI', (data, callback) => {
       try {
         const { session, event, newAIPlayer } = gameManager.replaceWithAI(
           data.gameId,
@@ -322,19 +401,19 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
 
         // Notify all players about the replacement
         io.to(session.game.id).emit('game:event', event);
-        broadcastViewUpdate(io, gameManager, session.game.id);
+        broadcastViewUpdate(io, gameManager, session.game.id, undefined, [event]);
 
         callback({ success: true, newPlayer: newAIPlayer });
 
         // Check if AI needs to act (the replaced player might be current player)
         aiRunner.checkAndRunAI(data.gameId);
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Continue without replacing a disconnected player - removes player and redeals
-    socket.on('game:continueWithout', (data: { gameId: string; targetPlayerId: string }, callback) => {
+    onRequest(socket, 'game:continueWithout', (data, callback) => {
       try {
         const { session, events } = gameManager.continueWithoutPlayer(data.gameId, socket.id, data.targetPlayerId);
 
@@ -344,75 +423,94 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
         }
 
         // Update views for all players
-        broadcastViewUpdate(io, gameManager, session.game.id);
+        broadcastViewUpdate(io, gameManager, session.game.id, undefined, events);
 
         // Check if AI needs to act (in case it's now an AI's turn after redeal)
         aiRunner.checkAndRunAI(data.gameId);
 
         callback({ success: true });
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
+      }
+    });
+
+    // Hand the host role to another player (host only)
+    onRequest(socket, 'game:transferHost', (data, callback) => {
+      try {
+        const { session, events } = gameManager.transferHost(data.gameId, socket.id, data.targetPlayerId);
+
+        for (const event of events) {
+          io.to(session.game.id).emit('game:event', event);
+        }
+        broadcastViewUpdate(io, gameManager, session.game.id, undefined, events);
+        if (session.game.phase !== 'waiting') {
+          sendHostDecisions(io, gameManager, session.game.id);
+        }
+
+        callback({ success: true });
+      } catch (error) {
+        callback(toErrorResponse(error));
       }
     });
 
     // Pause a game and save state
-    socket.on('game:pause', async (data: { gameId: string }, callback) => {
+    onRequest(socket, 'game:pause', async (data, callback) => {
       try {
-        const pauseResult = gameManager.pauseGame(data.gameId);
+        const pauseResult = gameManager.pauseGame(data.gameId, socket.id, socket.data.identityId);
         if (!pauseResult) {
-          callback({ success: false, error: 'Game not found' });
+          callback(toErrorResponse(new GameError('GAME_NOT_FOUND', 'Game not found')));
           return;
         }
 
         const { gameState, socketIds } = pauseResult;
 
         // Save to Supabase
-        const saveResult = await saveGameState(gameState);
+        const saveResult = await saveGameState(repositories, gameState);
         if (!saveResult.success) {
-          callback({ success: false, error: saveResult.error });
+          callback(saveResult);
           return;
         }
 
         // Notify all players with the resume code
-        const pauseEvent = { type: 'gamePaused' as const, resumeCode: saveResult.resumeCode! };
+        const pauseEvent = { type: 'gamePaused' as const, resumeCode: saveResult.resumeCode };
         for (const sid of socketIds) {
           io.to(sid).emit('game:event', pauseEvent);
         }
 
         callback({ success: true, resumeCode: saveResult.resumeCode });
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Check if a resume code is valid
-    socket.on('game:checkResumeCode', async (data: { resumeCode: string }, callback) => {
+    onRequest(socket, 'game:checkResumeCode', async (data, callback) => {
       try {
-        const result = await checkResumeCode(data.resumeCode);
-        callback({ success: result.valid, playerNames: result.playerNames, error: result.error });
+        callback(await checkResumeCode(repositories, data.resumeCode));
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Resume a paused game
-    socket.on('game:resume', async (data: { resumeCode: string; playerName: string }, callback) => {
+    onRequest(socket, 'game:resume', async (data, callback) => {
       try {
-        const loadResult = await loadGameState(data.resumeCode);
-        if (!loadResult.success || !loadResult.gameState) {
-          callback({ success: false, error: loadResult.error });
+        const loadResult = await loadGameState(repositories, data.resumeCode);
+        if (!loadResult.success) {
+          callback(loadResult);
           return;
         }
 
         const resumeResult = gameManager.resumeGame(
           loadResult.gameState,
-          loadResult.playerNames || [],
+          loadResult.playerNames,
           socket.id,
+          socket.data.identityId,
           data.playerName
         );
 
         if ('error' in resumeResult) {
-          callback({ success: false, error: resumeResult.error });
+          callback(toErrorResponse(resumeResult.error));
           return;
         }
 
@@ -422,27 +520,28 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
         // Get the player names that still need to rejoin
         const missingPlayers = gameManager.getMissingPlayers(session.game.id);
 
-        const view = gameManager.getPlayerView(session.game.id, socket.id);
+        const view = gameManager.getPlayerView(session.game.id, socket.id)!;
         callback({
           success: true,
           gameId: session.game.id,
           playerId,
           playerIndex,
           view,
-          missingPlayers
+          missingPlayers,
+          sessionToken: issueSessionToken(socket.data.identityId)
         });
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Rejoin a resumed game
-    socket.on('game:rejoin', (data: { gameId: string; playerName: string }, callback) => {
+    onRequest(socket, 'game:rejoin', (data, callback) => {
       try {
-        const result = gameManager.rejoinGame(data.gameId, socket.id, data.playerName);
+        const result = gameManager.rejoinGame(data.gameId, socket.id, socket.data.identityId, data.playerName);
 
         if ('error' in result) {
-          callback({ success: false, error: result.error });
+          callback(toErrorResponse(result.error));
           return;
         }
 
@@ -454,9 +553,9 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
         socket.to(session.game.id).emit('game:event', rejoinEvent);
 
         // Broadcast updated view to all
-        broadcastViewUpdate(io, gameManager, session.game.id);
+        broadcastViewUpdate(io, gameManager, session.game.id, undefined, [rejoinEvent]);
 
-        const view = gameManager.getPlayerView(session.game.id, socket.id);
+        const view = gameManager.getPlayerView(session.game.id, socket.id)!;
         const missingPlayers = gameManager.getMissingPlayers(session.game.id);
 
         callback({
@@ -465,37 +564,40 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
           playerIndex,
           view,
           missingPlayers,
-          allRejoined: gameManager.allPlayersRejoined(session.game.id)
+          allRejoined: gameManager.allPlayersRejoined(session.game.id),
+          sessionToken: issueSessionToken(socket.data.identityId)
         });
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     // Continue a resumed game (after all players rejoined or host decides to continue)
-    socket.on('game:continueResumed', (data: { gameId: string }, callback) => {
+    onRequest(socket, 'game:continueResumed', (data, callback) => {
       try {
         const game = gameManager.continueResumedGame(data.gameId);
         if (!game) {
-          callback({ success: false, error: 'Cannot continue game' });
+          callback(toErrorResponse(new GameError('NOT_RESUMING', 'Cannot continue game')));
           return;
         }
 
         // Notify all players that game is resuming
-        io.to(data.gameId).emit('game:event', { type: 'gameResumed' as const });
-        broadcastViewUpdate(io, gameManager, data.gameId);
+        const resumedEvent = { type: 'gameResumed' as const };
+        io.to(data.gameId).emit('game:event', resumedEvent);
+        broadcastViewUpdate(io, gameManager, data.gameId, undefined, [resumedEvent]);
 
         callback({ success: true });
 
         // Check if AI needs to act
         aiRunner.checkAndRunAI(data.gameId);
       } catch (error) {
-        callback({ success: false, error: (error as Error).message });
+        callback(toErrorResponse(error));
       }
     });
 
     socket.on('disconnect', () => {
       console.log(`Client disconnected: ${socket.id}`);
+      gameManager.stopSpectating(socket.id);
 
       // Check if this socket is in an active game
       const playerId = gameManager.getPlayerIdForSocket(socket.id);
@@ -503,30 +605,59 @@ export function setupSocketHandlers(io: Server, gameManager: GameManager): void
       const isInProgressGame = session && session.game.phase !== 'waiting' && session.game.phase !== 'gameEnd';
 
       if (isInProgressGame && playerId) {
-        const isHost = playerId === session.game.hostId;
-
-        if (isHost) {
-          // Host never auto-disconnects — they must explicitly leave
-          console.log(`Host ${playerId} socket dropped, waiting indefinitely for reconnect`);
-          pendingDisconnects.set(playerId, null as any);
-        } else {
-          // Grace period: delay disconnect to allow mobile reconnects
-          console.log(`Player ${playerId} disconnect grace period started (${DISCONNECT_GRACE_MS}ms)`);
-          const timeout = setTimeout(() => {
-            pendingDisconnects.delete(playerId);
-            console.log(`Player ${playerId} grace period expired, processing disconnect`);
-            handleLeave(socket, io, gameManager, aiRunner);
-          }, DISCONNECT_GRACE_MS);
-          pendingDisconnects.set(playerId, timeout);
-        }
+        // Grace period: delay disconnect to allow mobile reconnects
+        console.log(`Player ${playerId} disconnect grace period started (${DISCONNECT_GRACE_MS}ms)`);
+        const gameId = session.game.id;
+        const disconnectedAt = Date.now();
+        const expire = () => {
+          // A host with no one connected to take over keeps the table for a while, and we check again later
+          const isHost = playerId === gameManager.getSession(gameId)?.game.hostId;
+          if (isHost && !gameManager.getHostSuccessor(gameId) && Date.now() - disconnectedAt < HOST_ALONE_HOLD_MS) {
+            console.log(`Host ${playerId} grace period expired with no one to take over, waiting for reconnect`);
+            pendingDisconnects.set(playerId, setTimeout(expire, DISCONNECT_GRACE_MS));
+            return;
+          }
+
+          pendingDisconnects.delete(playerId);
+          console.log(`Player ${playerId} grace period expired, processing disconnect`);
+          handleLeave(socket, io, gameManager, repositories, aiRunner);
+        };
+        pendingDisconnects.set(playerId, setTimeout(expire, DISCONNECT_GRACE_MS));
       } else {
         // Not in an active game — disconnect immediately
-        handleLeave(socket, io, gameManager, aiRunner);
+        handleLeave(socket, io, gameManager, repositories, aiRunner);
       }
     });
   });
 }
 
+/**
+ * Handle a request only once its payload matches the protocol
+ * Malformed requests are answered with an INVALID_PAYLOAD error, and
+ * requests without a callback are ignored
+ */
+function onRequest<E extends RequestEvent>(
+  socket: GameSocket,
+  event: E,
+  handler: (data: RequestPayloads[E], callback: ResponseCallback<E>) => void
+): void {
+  const listener = (data: unknown, callback: unknown) => {
+    if (typeof callback !== 'function') {
+      return;
+    }
+
+    const error = validateRequest(event, data);
+    if (error) {
+      callback(error);
+      return;
+    }
+
+    handler(data as RequestPayloads[E], callback as ResponseCallback<E>);
+  };
+  // The listener checks its own arguments, so it can stand in for any request's
+  socket.on(event, listener as never);
+}
+
 function findHostSocketId(gameManager: GameManager, gameId: string): string | undefined {
   const session = gameManager.getSession(gameId);
   if (!session) return undefined;
@@ -539,20 +670,36 @@ function findHostSocketId(gameManager: GameManager, gameId: string): string | un
   return undefined;
 }
 
-function handleLeave(socket: Socket, io: Server, gameManager: GameManager, aiRunner?: AIRunner): void {
+// Ask the host what to do about every disconnected player (for a new host)
+function sendHostDecisions(io: GameServer, gameManager: GameManager, gameId: string): void {
+  const hostSocketId = findHostSocketId(gameManager, gameId);
+  if (!hostSocketId) return;
+
+  for (const player of gameManager.getDisconnectedPlayers(gameId)) {
+    io.to(hostSocketId).emit('game:playerDisconnected', { playerId: player.id, playerName: player.name });
+  }
+}
+
+function handleLeave(socket: GameSocket, io: GameServer, gameManager: GameManager, repositories: Repositories, aiRunner?: AIRunner): void {
   const result = gameManager.leaveGame(socket.id);
   if (result) {
-    io.to(result.gameId).emit('game:event', result.event);
-    broadcastViewUpdate(io, gameManager, result.gameId);
+    const events = result.hostChangedEvent ? [result.event, result.hostChangedEvent] : [result.event];
+    for (const event of events) {
+      io.to(result.gameId).emit('game:event', event);
+    }
+    broadcastViewUpdate(io, gameManager, result.gameId, undefined, events);
     socket.leave(result.gameId);
 
     // Track abandoned games
     if (result.gameAbandoned && result.gameWasInProgress) {
-      recordGameAbandoned(result.gameId);
+      recordGameAbandoned(repositories, result.gameId);
     }
 
     // If game is in progress and host needs to decide what to do with the player
-    if (result.needsHostDecision && result.leavingPlayerId && result.leavingPlayerName) {
+    // (a new host gets every decision still open, this one included)
+    if (result.hostChangedEvent && result.gameWasInProgress) {
+      sendHostDecisions(io, gameManager, result.gameId);
+    } else if (result.needsHostDecision && result.leavingPlayerId && result.leavingPlayerName) {
       const hostSocketId = findHostSocketId(gameManager, result.gameId);
       if (hostSocketId) {
         io.to(hostSocketId).emit('game:playerDisconnected', {
@@ -570,14 +717,18 @@ function handleLeave(socket: Socket, io: Server, gameManager: GameManager, aiRun
 }
 
 function broadcastViewUpdate(
-  io: Server,
+  io: GameServer,
   gameManager: GameManager,
   gameId: string,
-  excludeSocketId?: string
+  excludeSocketId?: string,
+  events: GameEvent[] = []
 ): void {
   const session = gameManager.getSession(gameId);
   if (!session) return;
 
+  // Spectators aren't in the game room, so they get the events with their view
+  broadcastToSpectators(io, gameManager, gameId, events);
+
   for (const [playerId, socketId] of session.playerSockets) {
     if (socketId !== excludeSocketId) {
       const view = gameManager.getPlayerView(gameId, socketId);
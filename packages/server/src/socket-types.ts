@@ -0,0 +1,11 @@
+import { DefaultEventsMap, Server, Socket } from 'socket.io';
+import { ClientToServerEvents, ServerToClientEvents } from '@whoopie/shared';
+
+// What the server knows about each socket (set by authenticateSocket in services/sessions.ts)
+export interface SocketData {
+  identityId: string;
+}
+
+// Socket.io typed against the shared protocol (see protocol.ts in @whoopie/shared)
+export type GameServer = Server<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>;
+export type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>;
@@ -0,0 +1,73 @@
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  BidSample,
+  collectBidSamples,
+  DEFAULT_BID_MODEL,
+  DEFAULT_BID_TRAINING_OPTIONS,
+  fitBidModel,
+  GameLog,
+  getBidModelError,
+  simulateGame,
+} from '@whoopie/shared';
+
+/**
+ * Learn bid weights from recorded games: pnpm --filter @whoopie/server train-bids -- [options]
+ *
+ *   --logs       Directory of recorded games, one GameLog JSON file each
+ *   --self-play  Also play and learn from this many self-play games (default 0)
+ *   --players    Strategy per seat in self-play (default intermediate,intermediate,intermediate)
+ *   --seed       First self-play game's seed (default 1)
+ *   --ridge      Pull toward the hand-tuned weights, in bids (default 20)
+ *   --out        Where to write the model (default bid-model.json)
+ *
+ * The server bids with the model when BID_MODEL_PATH points at it.
+ */
+const { values } = parseArgs({
+  options: {
+    logs: { type: 'string' },
+    'self-play': { type: 'string', default: '0' },
+    players: { type: 'string', default: 'intermediate,intermediate,intermediate' },
+    seed: { type: 'string', default: '1' },
+    ridge: { type: 'string', default: String(DEFAULT_BID_TRAINING_OPTIONS.ridge) },
+    out: { type: 'string', default: 'bid-model.json' },
+  },
+});
+
+const samples: BidSample[] = [];
+
+if (values.logs) {
+  const files = readdirSync(values.logs).filter((file) => file.endsWith('.json'));
+  for (const file of files) {
+    try {
+      const log = JSON.parse(readFileSync(join(values.logs, file), 'utf8')) as GameLog;
+      samples.push(...collectBidSamples(log));
+    } catch (error) {
+      console.error(`Skipping ${file}: ${(error as Error).message}`);
+    }
+  }
+  console.log(`Read ${files.length} game logs from ${values.logs}`);
+}
+
+const selfPlayGames = Number(values['self-play']);
+if (selfPlayGames > 0) {
+  const strategies = values.players!.split(',').map((name) => name.trim());
+  const seed = Number(values.seed);
+  for (let n = 0; n < selfPlayGames; n++) {
+    samples.push(...collectBidSamples(simulateGame(strategies, seed + n, {}, true).log!));
+  }
+  console.log(`Played ${selfPlayGames} self-play games (${strategies.join(', ')})`);
+}
+
+if (samples.length === 0) {
+  console.error('No bids to learn from: pass --logs and/or --self-play');
+  process.exit(1);
+}
+
+const model = fitBidModel(samples, { prior: DEFAULT_BID_MODEL, ridge: Number(values.ridge) });
+writeFileSync(values.out!, JSON.stringify(model, null, 2) + '\n');
+
+console.log(`\n${samples.length} bids (small tables ${model.samples.small}, medium ${model.samples.medium}, large ${model.samples.large})`);
+console.log(`Average miss on these bids: hand-tuned ${getBidModelError(DEFAULT_BID_MODEL, samples).toFixed(3)}, trained ${getBidModelError(model, samples).toFixed(3)} tricks`);
+console.log(`Model written to ${values.out}`);
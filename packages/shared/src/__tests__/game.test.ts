@@ -16,6 +16,8 @@ import {
   getValidCards,
   resolveTrickWinner,
   getNextCardsPerPlayer,
+  isValidPlay,
+  getInitialTrumpFromDefiningCard,
 } from '../rules';
 import {
   calculatePlayerStanzaScore,
@@ -30,9 +32,38 @@ import {
   placeBid,
   playCard,
   generatePlayerId,
+  getPlayerView,
+  getSpectatorView,
+  updateSettings,
+  continueToNextStanza,
+  removePlayer,
 } from '../game-state';
-import { getMaxCardsPerPlayer } from '../constants';
-import type { Card, PlayedCard, HumanPlayer } from '../types';
+import { GameError } from '../errors';
+import { createSeededRandom } from '../random';
+import { getStanzaSchedule, getNextStanza, hasReachedTargetScore } from '../schedule';
+import { applyGameAction, createGameLog, appendToGameLog, replayGameLog } from '../game-log';
+import { ADVANCE_JOB_KEY, createGameScheduler, createManualClock, getSeatJobKey } from '../scheduler';
+import { getMaxCardsPerPlayer, getDeckSize, HOUSE_RULESETS, TABLE_SPEEDS } from '../constants';
+import { createAIGameView } from '../ai/strategy';
+import { couldBeOvertaken, getAITableKnowledge } from '../ai/heuristics';
+import { getTableKnowledge } from '../table-knowledge';
+import { canForceTricks, getDoubleDummyDeal, getMaxTricks, solveDoubleDummy } from '../double-dummy';
+import type { DoubleDummyDeal } from '../double-dummy';
+import { BID_FEATURES, DEFAULT_BID_MODEL, chooseBid, estimateBidTricks, getBidModel, parseBidModel, predictBidTricks, setBidModel } from '../ai/bidding';
+import type { BidFeatures, BidModel } from '../ai/bidding';
+import { collectBidSamples, fitBidModel, getBidModelError } from '../ai/bid-training';
+import type { BidSample } from '../ai/bid-training';
+import { describeHintReason, getHint, getTrumpReason } from '../ai/hints';
+import { BLUNDER_THRESHOLD, reviewPlayer, reviewPlayerInSteps } from '../ai/review';
+import { checkInvariants, runTournament, simulateGame } from '../ai/simulator';
+import { getAIStrategy, getAIStrategyNames, registerAIStrategy } from '../ai/registry';
+import { AI_PERSONALITIES, getAIPlayerStrategy, withPersonality } from '../ai/personalities';
+import { intermediateStrategy } from '../ai/intermediate';
+import { beginnerStrategy } from '../ai/beginner';
+import { createMonteCarloStrategy, sampleHiddenHands, DEFAULT_MONTE_CARLO_OPTIONS } from '../ai/monte-carlo';
+import type { AIGameView } from '../ai/strategy';
+import { validateRequest } from '../protocol';
+import type { Card, PlayedCard, HumanPlayer, GameState, GameSettings, GameAction, GameLog, CompletedStanzaRecord, TableSpeed } from '../types';
 
 describe('Card utilities', () => {
   it('creates a 54-card deck', () => {
@@ -240,6 +271,25 @@ describe('Game flow', () => {
     expect(game.scores).toEqual([0, 0]);
   });
 
+  it('hands the host role to another player', () => {
+    let game = createGame('p1');
+    ({ game } = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }));
+    ({ game } = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }));
+    ({ game } = addPlayer(game, { type: 'ai', id: 'p3', name: 'Bot', difficulty: 'beginner' }));
+
+    const result = applyGameAction(game, { type: 'transferHost', playerId: 'p2' });
+    expect(result.game.hostId).toBe('p2');
+    expect(result.events).toEqual([{ type: 'hostChanged', playerId: 'p2', playerName: 'Bob' }]);
+
+    expect(() => applyGameAction(game, { type: 'transferHost', playerId: 'p4' }))
+      .toThrow(expect.objectContaining({ code: 'PLAYER_NOT_IN_GAME' }));
+    expect(() => applyGameAction(game, { type: 'transferHost', playerId: 'p1' }))
+      .toThrow(expect.objectContaining({ code: 'ALREADY_HOST' }));
+
+    // Logs saved before the server checked who takes over still replay
+    expect(applyGameAction(game, { type: 'transferHost', playerId: 'p3' }).game.hostId).toBe('p3');
+  });
+
   it('starts the game and deals cards', () => {
     let game = createGame('host123');
     const player1: HumanPlayer = { type: 'human', id: 'p1', name: 'Alice', isConnected: true };
@@ -263,7 +313,8 @@ describe('Game flow', () => {
   });
 
   it('handles bidding phase', () => {
-    let game = createGame('host123');
+    // Seed chosen so that player 0 loses the cut and deals
+    let game = createGame('host123', {}, 3);
     const players: HumanPlayer[] = [
       { type: 'human', id: 'p1', name: 'Alice', isConnected: true },
       { type: 'human', id: 'p2', name: 'Bob', isConnected: true },
@@ -294,4 +345,1343 @@ describe('Game flow', () => {
     ({ game } = placeBid(game, 0, 1)); // Must bid something other than 0
     expect(game.phase).toBe('playing');
   });
+
+  it('rejects the dealer hook bid with the bids that are allowed', () => {
+    let game = createGame('host123', {}, 3);
+    (['p1', 'p2', 'p3'] as const).forEach((id, i) => {
+      ({ game } = addPlayer(game, { type: 'human', id, name: `Player ${i}`, isConnected: true }));
+    });
+    ({ game } = startGame(game));
+    ({ game } = placeBid(game, 1, 0));
+    ({ game } = placeBid(game, 2, 1));
+
+    expect(() => placeBid(game, 0, 0)).toThrow(GameError);
+    expect(() => placeBid(game, 0, 0)).toThrow(expect.objectContaining({
+      code: 'DEALER_HOOK_BID',
+      details: { validBids: [1], forbiddenBid: 0 },
+    }));
+    expect(() => placeBid(game, 1, 1)).toThrow(expect.objectContaining({ code: 'NOT_YOUR_TURN' }));
+  });
+});
+
+describe('Seeded RNG', () => {
+  function createSeededGame(seed: number): GameState {
+    let game = createGame('host123', {}, seed);
+    const players: HumanPlayer[] = [
+      { type: 'human', id: 'p1', name: 'Alice', isConnected: true },
+      { type: 'human', id: 'p2', name: 'Bob', isConnected: true },
+      { type: 'human', id: 'p3', name: 'Carol', isConnected: true },
+    ];
+    players.forEach(p => {
+      ({ game } = addPlayer(game, p));
+    });
+    return game;
+  }
+
+  it('produces the same sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const seqA = Array.from({ length: 10 }, () => a.random());
+    const seqB = Array.from({ length: 10 }, () => b.random());
+    expect(seqA).toEqual(seqB);
+    expect(a.getState()).toBe(b.getState());
+    seqA.forEach(n => {
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    });
+  });
+
+  it('continues the sequence from a stored state', () => {
+    const rng = createSeededRandom(7);
+    rng.random();
+    const resumed = createSeededRandom(rng.getState());
+    expect(resumed.random()).toBe(rng.random());
+  });
+
+  it('shuffles reproducibly with a seeded source', () => {
+    const deck = createDeck();
+    const first = shuffleDeck(deck, createSeededRandom(99).random);
+    const second = shuffleDeck(deck, createSeededRandom(99).random);
+    expect(first).toEqual(second);
+  });
+
+  it('deals the same game for the same seed', () => {
+    const { game: a } = startGame(createSeededGame(1234));
+    const { game: b } = startGame(createSeededGame(1234));
+    expect(a.id).toBe(b.id);
+    expect(a.stanza!.dealerIndex).toBe(b.stanza!.dealerIndex);
+    expect(a.stanza!.hands).toEqual(b.stanza!.hands);
+    expect(a.stanza!.whoopieDefiningCard).toEqual(b.stanza!.whoopieDefiningCard);
+  });
+
+  it('replays to the same state given the same actions', () => {
+    const play = (seed: number): GameState => {
+      let { game } = startGame(createSeededGame(seed));
+      while (game.phase === 'bidding') {
+        const index = game.stanza!.currentPlayerIndex;
+        const bid = getValidBids(index, game.stanza!.dealerIndex, game.stanza!.cardsPerPlayer, game.stanza!.bids)[0]!;
+        ({ game } = placeBid(game, index, bid));
+      }
+      while (game.phase === 'playing') {
+        const index = game.stanza!.currentPlayerIndex;
+        const card = getValidCards(game.stanza!.hands[index]!, game.stanza!.currentTrick, game.stanza!.currentTrumpSuit, game.stanza!.whoopieRank, game.stanza!.jTrumpActive)[0]!;
+        ({ game } = playCard(game, index, card, true));
+      }
+      return game;
+    };
+
+    // createdAt is wall-clock time, everything else must match
+    expect({ ...play(555), createdAt: 0 }).toEqual({ ...play(555), createdAt: 0 });
+  });
+
+  it('hides the seed from player views', () => {
+    const { game } = startGame(createSeededGame(1));
+    const view = getPlayerView(game, 0);
+    expect(view).not.toHaveProperty('rngSeed');
+    expect(view).not.toHaveProperty('rngState');
+  });
+});
+
+describe('Game log', () => {
+  // Play one full stanza through the reducer, logging every action
+  function playLoggedStanza(seed: number): { log: GameLog; game: GameState } {
+    let game = createGame('p1', {}, seed);
+    let log = createGameLog(game);
+    const apply = (action: GameAction) => {
+      ({ game } = applyGameAction(game, action));
+      log = appendToGameLog(log, action);
+    };
+
+    apply({ type: 'addPlayer', player: { type: 'human', id: 'p1', name: 'Alice', isConnected: true } });
+    apply({ type: 'addPlayer', player: { type: 'human', id: 'p2', name: 'Bob', isConnected: true } });
+    apply({ type: 'addPlayer', player: { type: 'ai', id: 'p3', name: 'Bot', difficulty: 'beginner' } });
+    apply({ type: 'startGame' });
+
+    while (game.phase === 'bidding') {
+      const playerIndex = game.stanza!.currentPlayerIndex;
+      const bid = getValidBids(playerIndex, game.stanza!.dealerIndex, game.stanza!.cardsPerPlayer, game.stanza!.bids)[0]!;
+      apply({ type: 'placeBid', playerIndex, bid });
+    }
+    while (game.phase === 'playing') {
+      const playerIndex = game.stanza!.currentPlayerIndex;
+      const card = getValidCards(game.stanza!.hands[playerIndex]!, game.stanza!.currentTrick, game.stanza!.currentTrumpSuit, game.stanza!.whoopieRank, game.stanza!.jTrumpActive)[0]!;
+      apply({ type: 'playCard', playerIndex, card, calledWhoopie: true });
+    }
+    apply({ type: 'continueGame' });
+
+    return { log, game };
+  }
+
+  it('numbers entries in order', () => {
+    const { log } = playLoggedStanza(11);
+    log.entries.forEach((entry, i) => expect(entry.seq).toBe(i));
+  });
+
+  it('replays the log to the live state', () => {
+    const { log, game } = playLoggedStanza(11);
+    expect(replayGameLog(log).game).toEqual(game);
+  });
+
+  it('rebuilds intermediate states', () => {
+    const { log } = playLoggedStanza(11);
+    const { game: afterStart } = replayGameLog(log, 4);
+    expect(afterStart.phase).toBe('bidding');
+    expect(afterStart.players).toHaveLength(3);
+    expect(afterStart.stanza!.bids).toEqual([null, null, null]);
+  });
+
+  it('moves into the second stanza on continue', () => {
+    const { game } = playLoggedStanza(11);
+    expect(game.phase).toBe('bidding');
+    expect(game.completedStanzas).toHaveLength(1);
+    expect(game.stanza!.cardsPerPlayer).toBe(2);
+  });
+
+  it('rejects logs from another version', () => {
+    const { log } = playLoggedStanza(11);
+    expect(() => replayGameLog({ ...log, version: 999 })).toThrow();
+  });
+});
+
+describe('House rules', () => {
+  function startTwoPlayerGame(settings: Parameters<typeof createGame>[1]): GameState {
+    let game = createGame('p1', settings, 3);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+    game = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+    return startGame(game).game;
+  }
+
+  // Lead a Whoopie card (7 of spades) without calling it, then finish the 1-card stanza
+  function playUncalledWhoopie(game: GameState): GameState {
+    const leader = (game.stanza!.dealerIndex + 1) % 2;
+    const hands = [[], []] as Card[][];
+    hands[leader] = [createSuitCard('spades', '7')];
+    hands[1 - leader] = [createSuitCard('spades', '2')];
+    const bids = [0, 0];
+    bids[leader] = 1;
+
+    let state: GameState = {
+      ...game,
+      phase: 'playing',
+      stanza: {
+        ...game.stanza!,
+        whoopieRank: '7',
+        currentTrumpSuit: 'hearts',
+        jTrumpActive: false,
+        bids,
+        hands,
+        currentPlayerIndex: leader,
+      },
+    };
+    state = playCard(state, leader, createSuitCard('spades', '7'), false).game;
+    state = playCard(state, 1 - leader, createSuitCard('spades', '2'), false).game;
+    return state;
+  }
+
+  it('defaults to the standard ruleset', () => {
+    expect(createGame('host').settings.rules).toEqual(HOUSE_RULESETS.standard.rules);
+  });
+
+  it('lets the dealer bid anything without the hook', () => {
+    const dealerBids = getValidBids(3, 3, 5, [1, 2, 1, null], false);
+    expect(dealerBids).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('scores with the configured formulas', () => {
+    const { rules } = HOUSE_RULESETS.cutthroat;
+    expect(calculatePlayerStanzaScore(3, 3, rules)).toBe(8);  // 2 + 3*2
+    expect(calculatePlayerStanzaScore(2, 5, rules)).toBe(-3); // 3 tricks off
+    expect(calculateStanzaScores([1, 0], [1, 1], rules)).toEqual([4, -1]);
+  });
+
+  it('builds the deck from the joker count', () => {
+    expect(createDeck(0)).toHaveLength(52);
+    expect(createDeck(1).filter(isJoker)).toHaveLength(1);
+    expect(getMaxCardsPerPlayer(4, getDeckSize(0))).toBe(12);
+
+    const game = startTwoPlayerGame({ rules: HOUSE_RULESETS.noJokers.rules });
+    expect(game.stanza!.hands.flat().some(isJoker)).toBe(false);
+  });
+
+  it('penalizes a missed Whoopie call at stanza end', () => {
+    const game = playUncalledWhoopie(startTwoPlayerGame({}));
+    const leader = (game.stanza!.dealerIndex + 1) % 2;
+    expect(game.phase).toBe('stanzaEnd');
+    expect(game.stanza!.missedWhoopieCalls[leader]).toBe(1);
+    expect(game.completedStanzas[0]!.scoreChanges[leader]).toBe(2); // 2 + 1 - 1
+  });
+
+  it('skips the Whoopie penalty when turned off', () => {
+    const game = playUncalledWhoopie(startTwoPlayerGame({ rules: HOUSE_RULESETS.casual.rules }));
+    const leader = (game.stanza!.dealerIndex + 1) % 2;
+    expect(game.completedStanzas[0]!.scoreChanges[leader]).toBe(3);
+  });
+
+  it('only changes settings before the game starts', () => {
+    const game = createGame('host');
+    const updated = updateSettings(game, { rules: HOUSE_RULESETS.noHook.rules });
+    expect(updated.settings.rules.dealerHook).toBe(false);
+    expect(() => updateSettings(game, { maxPlayers: 11 })).toThrow();
+
+    const started = startTwoPlayerGame({});
+    expect(() => updateSettings(started, { rules: HOUSE_RULESETS.noHook.rules })).toThrow();
+  });
+});
+
+describe('Game length', () => {
+  const rules = HOUSE_RULESETS.standard.rules;
+  const cards = (settings: Parameters<typeof getStanzaSchedule>[1]) =>
+    getStanzaSchedule(4, settings)?.map((s) => s.cardsPerPlayer);
+
+  it('runs the full cycle by default', () => {
+    expect(cards({ rules, length: { mode: 'full', maxCards: 3 } })).toEqual([1, 2, 3, 2, 1]);
+    expect(getStanzaSchedule(4, { rules, length: { mode: 'full' } })).toHaveLength(25);
+  });
+
+  it('supports up-only and down-only games', () => {
+    expect(cards({ rules, length: { mode: 'upOnly', maxCards: 4 } })).toEqual([1, 2, 3, 4]);
+    expect(cards({ rules, length: { mode: 'downOnly', maxCards: 4 } })).toEqual([4, 3, 2, 1]);
+  });
+
+  it('caps max cards at what the deck allows', () => {
+    expect(cards({ rules, length: { mode: 'upOnly', maxCards: 50 } })).toHaveLength(13);
+  });
+
+  it('plays a fixed number of stanzas, bouncing between 1 and max', () => {
+    expect(cards({ rules, length: { mode: 'fixedStanzas', stanzas: 6, maxCards: 3 } }))
+      .toEqual([1, 2, 3, 2, 1, 2]);
+  });
+
+  it('leaves target score games open-ended', () => {
+    const length = { mode: 'targetScore', targetScore: 20 } as const;
+    expect(getStanzaSchedule(4, { rules, length })).toBeNull();
+    expect(getNextStanza({ cardsPerPlayer: 1, direction: 'down' }, 30, length, 5))
+      .toEqual({ cardsPerPlayer: 2, direction: 'up' });
+    expect(hasReachedTargetScore([5, 20], length)).toBe(true);
+    expect(hasReachedTargetScore([5, 19], length)).toBe(false);
+  });
+
+  it('ends the game when the schedule runs out', () => {
+    let game = createGame('p1', { length: { mode: 'fixedStanzas', stanzas: 1 } }, 3);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+    game = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+    game = startGame(game).game;
+    const record: CompletedStanzaRecord = {
+      stanzaNumber: 1,
+      cardsPerPlayer: 1,
+      dealerIndex: game.stanza!.dealerIndex,
+      whoopieDefiningCard: game.stanza!.whoopieDefiningCard!,
+      bids: [0, 0],
+      tricksTaken: [0, 1],
+      scoreChanges: [2, -1],
+      startingScores: [0, 0],
+      playerIds: ['p1', 'p2'],
+      tricks: [],
+    };
+    game = { ...game, phase: 'stanzaEnd', completedStanzas: [record] };
+    expect(continueToNextStanza(game).game.phase).toBe('gameEnd');
+  });
+
+  it('starts down-only games at max cards', () => {
+    let game = createGame('p1', { length: { mode: 'downOnly', maxCards: 5 } }, 3);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+    game = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+    game = startGame(game).game;
+    expect(game.stanza!.cardsPerPlayer).toBe(5);
+    expect(game.stanza!.direction).toBe('down');
+  });
+
+  it('ends a target score game once someone gets there', () => {
+    let game = createGame('p1', { length: { mode: 'targetScore', targetScore: 3 } }, 3);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+    game = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+    game = startGame(game).game;
+    expect(continueToNextStanza({ ...game, phase: 'stanzaEnd', scores: [1, 2] }).game.phase).toBe('bidding');
+    expect(continueToNextStanza({ ...game, phase: 'stanzaEnd', scores: [1, 3] }).game.phase).toBe('gameEnd');
+  });
+
+  it('validates length settings', () => {
+    const game = createGame('host');
+    expect(() => updateSettings(game, { length: { mode: 'fixedStanzas', stanzas: 0 } })).toThrow();
+    expect(() => updateSettings(game, { length: { mode: 'full', maxCards: 1 } })).toThrow();
+    expect(updateSettings(game, { length: { mode: 'upOnly', maxCards: 7 } }).settings.length.mode).toBe('upOnly');
+  });
+
+  it('checks settings given when the game is created', () => {
+    expect(() => createGame('host', { length: { mode: 'full', maxCards: 1 } }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_SETTING', details: { setting: 'maxCards', min: 2 } }));
+    expect(() => createGame('host', { maxPlayers: 1 })).toThrow('Max players must be between');
+    expect(createGame('host', { length: { mode: 'fixedStanzas', stanzas: 3 } }).settings.length.mode).toBe('fixedStanzas');
+  });
+});
+
+describe('Table speed', () => {
+  it('defaults to normal and only accepts known speeds', () => {
+    const game = createGame('host');
+    expect(game.settings.speed).toBe('normal');
+    expect(updateSettings(game, { speed: 'instant' }).settings.speed).toBe('instant');
+    expect(() => updateSettings(game, { speed: 'ludicrous' as TableSpeed })).toThrow('Unknown table speed');
+  });
+
+  it('leaves time for the trick animation at every speed', () => {
+    for (const { timing } of Object.values(TABLE_SPEEDS)) {
+      expect(timing.aiBidDelayMin).toBeLessThanOrEqual(timing.aiBidDelayMax);
+      expect(timing.aiPlayDelayMin).toBeLessThanOrEqual(timing.aiPlayDelayMax);
+      if (timing.trickDisplayTime > 0) {
+        // Last card in (600ms) + display + collection (1s)
+        expect(timing.trickEndPause).toBeGreaterThanOrEqual(1600 + timing.trickDisplayTime);
+      }
+    }
+    expect(Object.values(TABLE_SPEEDS.instant.timing).every((ms) => ms === 0)).toBe(true);
+  });
+});
+
+describe('Joining mid-game', () => {
+  const carol: HumanPlayer = { type: 'human', id: 'p3', name: 'Carol', isConnected: true };
+
+  function startedGame(): GameState {
+    let game = createGame('p1', {}, 3);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+    game = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+    return startGame(game).game;
+  }
+
+  it('queues players who join after the start', () => {
+    const { game, event } = addPlayer(startedGame(), carol);
+    expect(event.type).toBe('playerQueued');
+    expect(game.players).toHaveLength(2);
+    expect(game.pendingPlayers).toEqual([carol]);
+  });
+
+  it('counts queued players against max players', () => {
+    let game = createGame('p1', { maxPlayers: 3 }, 3);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+    game = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+    game = addPlayer(startGame(game).game, carol).game;
+    expect(() => addPlayer(game, { type: 'ai', id: 'p4', name: 'Bot', difficulty: 'beginner' })).toThrow('Game is full');
+  });
+
+  it('seats queued players at the next stanza with the truncated average', () => {
+    let game = addPlayer(startedGame(), carol).game;
+    game = { ...game, phase: 'stanzaEnd', scores: [3, 6] };
+    const { game: next, events } = continueToNextStanza(game);
+
+    expect(next.players.map((p) => p.id)).toEqual(['p1', 'p2', 'p3']);
+    expect(next.scores).toEqual([3, 6, 4]);
+    expect(next.pendingPlayers).toEqual([]);
+    expect(next.stanza!.hands).toHaveLength(3);
+    expect(next.stanza!.bids).toEqual([null, null, null]);
+    expect(next.stanza!.dealerIndex).toBe((game.stanza!.dealerIndex + 1) % 3);
+    expect(events[0]).toEqual({ type: 'playerSeated', player: carol, playerIndex: 2, startingScore: 4 });
+  });
+
+  it('recomputes the schedule for the new player count', () => {
+    let game = addPlayer(startedGame(), carol).game;
+    // 2 players allow 26 cards; 3 players only 17, so the game turns back down
+    game = { ...game, phase: 'stanzaEnd', stanza: { ...game.stanza!, cardsPerPlayer: 20, direction: 'up' } };
+    const { game: next } = continueToNextStanza(game);
+    expect(next.stanza!.cardsPerPlayer).toBe(16);
+    expect(next.stanza!.direction).toBe('down');
+  });
+
+  it('lets queued players leave before they are seated', () => {
+    const game = addPlayer(startedGame(), carol).game;
+    const { game: after, event } = removePlayer(game, 'p3');
+    expect(after.pendingPlayers).toEqual([]);
+    expect(event).toEqual({ type: 'playerLeft', playerId: 'p3' });
+  });
+
+  it('shows queued players the table without a hand', () => {
+    const game = addPlayer(startedGame(), carol).game;
+    const view = getPlayerView(game, -1);
+    expect(view.myIndex).toBe(-1);
+    expect(view.stanza!.myHand).toEqual([]);
+  });
+});
+
+describe('Spectator view', () => {
+  function startedGame(settings: Parameters<typeof createGame>[1] = {}): GameState {
+    let game = createGame('p1', settings, 3);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+    game = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+    return startGame(game).game;
+  }
+
+  it('hides every hand by default', () => {
+    const view = getSpectatorView(startedGame());
+    expect(view.isSpectator).toBe(true);
+    expect(view.myIndex).toBe(-1);
+    expect(view.stanza!.hands).toBeUndefined();
+    expect(view.stanza!.myHand).toEqual([]);
+    expect(view.stanza!.otherHandCounts).toEqual([1, 1]);
+    expect(view).not.toHaveProperty('rngSeed');
+  });
+
+  it('reveals every hand when the game shows them on a delay', () => {
+    const game = startedGame({ spectatorRevealDelayMs: 30_000 });
+    expect(getSpectatorView(game).stanza!.hands).toEqual(game.stanza!.hands);
+  });
+
+  it('hides delayed hands from a view that is sent straight away', () => {
+    const game = startedGame({ spectatorRevealDelayMs: 30_000 });
+    expect(getSpectatorView(game, false).stanza!.hands).toBeUndefined();
+  });
+
+  it('keeps the identities holding seats out of views and events', () => {
+    const carol: HumanPlayer = { type: 'human', id: 'p3', name: 'Carol', isConnected: true, identityId: 'carol-device' };
+    let game = createGame('p1', {}, 3);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true, identityId: 'alice-device' }).game;
+    const joined = addPlayer(game, { ...carol, id: 'p2' });
+    const queued = addPlayer(startGame(joined.game).game, carol);
+    const seated = continueToNextStanza({ ...queued.game, phase: 'stanzaEnd' });
+
+    const shown = [
+      getPlayerView(queued.game, 0),
+      getSpectatorView(queued.game),
+      joined.event,
+      queued.event,
+      ...seated.events,
+    ];
+    expect(JSON.stringify(shown)).not.toContain('-device');
+    expect(queued.game.pendingPlayers[0]!.type === 'human' && queued.game.pendingPlayers[0]!.identityId).toBe('carol-device');
+  });
+});
+
+// Spades K led with hearts trump; we hold A, Q and 5 of spades
+function followingView(bid: number): AIGameView {
+  const hand = [createSuitCard('spades', 'A'), createSuitCard('spades', 'Q'), createSuitCard('spades', '5')];
+  return {
+    playerIndex: 1,
+    numPlayers: 3,
+    rules: HOUSE_RULESETS.standard.rules,
+    scores: [0, 0, 0],
+    stanzaNumber: 3,
+    cardsPerPlayer: 3,
+    dealerIndex: 0,
+    whoopieDefiningCard: createSuitCard('hearts', '2'),
+    whoopieRank: '2',
+    currentTrumpSuit: 'hearts',
+    jTrumpActive: false,
+    hand,
+    bids: [1, bid, 1],
+    tricksTaken: [0, 0, 0],
+    currentTrick: [{
+      card: createSuitCard('spades', 'K'),
+      playerId: 'p1',
+      playerIndex: 0,
+      trumpSuitAtPlay: 'hearts',
+      jTrumpActiveAtPlay: false,
+      wasWhoopie: false,
+      wasScramble: false,
+    }],
+    completedTricks: [],
+    validBids: [0, 1, 2, 3],
+    validCards: hand,
+  };
+}
+
+describe('AI strategies', () => {
+  function startedGame(): GameState {
+    let game = createGame('p1', { length: { mode: 'fixedStanzas', stanzas: 4 } }, 11);
+    game = addPlayer(game, { type: 'ai', id: 'p1', name: 'Bot 1', difficulty: 'beginner' }).game;
+    game = addPlayer(game, { type: 'ai', id: 'p2', name: 'Bot 2', difficulty: 'intermediate' }).game;
+    game = addPlayer(game, { type: 'ai', id: 'p3', name: 'Bot 3', difficulty: 'expert' }).game;
+    return startGame(game).game;
+  }
+
+  it('registers a strategy for every difficulty', () => {
+    expect(getAIStrategyNames()).toEqual(expect.arrayContaining(['beginner', 'intermediate', 'expert']));
+    expect(() => getAIStrategy('nope')).toThrow('Unknown AI strategy: nope');
+  });
+
+  it('looks up custom strategies by name', () => {
+    registerAIStrategy({ ...intermediateStrategy, name: 'test-bot' });
+    expect(getAIStrategy('test-bot').description).toBe(intermediateStrategy.description);
+  });
+
+  it('only shows an AI its own hand, as a copy', () => {
+    const game = startedGame();
+    const view = createAIGameView(game, 1);
+    expect(view.hand).toEqual(game.stanza!.hands[1]);
+    expect(view).not.toHaveProperty('hands');
+    expect(view).not.toHaveProperty('rngState');
+
+    view.hand.pop();
+    expect(game.stanza!.hands[1]).toHaveLength(1);
+  });
+
+  it('ducks with the highest losing card once the bid is made', () => {
+    expect(intermediateStrategy.play(followingView(0), () => 0.5)).toEqual(createSuitCard('spades', 'Q'));
+  });
+
+  it('wins with the cheapest winning card when it needs tricks', () => {
+    expect(intermediateStrategy.play(followingView(1), () => 0.5)).toEqual(createSuitCard('spades', 'A'));
+  });
+
+  it('plays a full game with only legal bids and cards', () => {
+    const random = createSeededRandom(5).random;
+    const strategies = {
+      beginner: beginnerStrategy,
+      intermediate: intermediateStrategy,
+      expert: createMonteCarloStrategy({ ...DEFAULT_MONTE_CARLO_OPTIONS, name: 'fast-expert', description: '', maxSamples: 3 }),
+    };
+    let game = startedGame();
+
+    while (game.phase !== 'gameEnd') {
+      const stanza = game.stanza!;
+      const index = stanza.currentPlayerIndex;
+      const player = game.players[index]!;
+      const strategy = player.type === 'ai' ? strategies[player.difficulty] : beginnerStrategy;
+
+      if (game.phase === 'bidding') {
+        const view = createAIGameView(game, index);
+        const bid = strategy.bid(view, random);
+        expect(view.validBids).toContain(bid);
+        game = placeBid(game, index, bid).game;
+      } else if (game.phase === 'playing') {
+        const view = createAIGameView(game, index);
+        const card = strategy.play(view, random);
+        expect(isValidPlay(card, stanza.hands[index]!, stanza.currentTrick, stanza.currentTrumpSuit, stanza.whoopieRank, stanza.jTrumpActive)).toBe(true);
+        game = playCard(game, index, card, strategy.callWhoopie(view, card, random)).game;
+        expect(game.stanza?.missedWhoopieCalls[index] ?? 0).toBe(0);
+      } else {
+        game = applyGameAction(game, { type: 'continueGame' }).game;
+      }
+    }
+
+    expect(game.completedStanzas).toHaveLength(4);
+  });
+});
+
+describe('Monte Carlo AI', () => {
+  const options = { ...DEFAULT_MONTE_CARLO_OPTIONS, name: 'test-mc', description: '', maxSamples: 20 };
+
+  // Two players, 3 cards each: the opponent led the spade K and we play last
+  function lastToPlayView(bid: number): AIGameView {
+    const hand = [createSuitCard('spades', 'A'), createSuitCard('spades', '5'), createSuitCard('clubs', '9')];
+    const validCards = hand.slice(0, 2);
+    return {
+      playerIndex: 1,
+      numPlayers: 2,
+      rules: HOUSE_RULESETS.standard.rules,
+      scores: [0, 0],
+      stanzaNumber: 3,
+      cardsPerPlayer: 3,
+      dealerIndex: 0,
+      whoopieDefiningCard: createSuitCard('hearts', '2'),
+      whoopieRank: '2',
+      currentTrumpSuit: 'hearts',
+      jTrumpActive: false,
+      hand,
+      bids: [1, bid],
+      tricksTaken: [0, 0],
+      currentTrick: [{
+        card: createSuitCard('spades', 'K'),
+        playerId: 'p1',
+        playerIndex: 0,
+        trumpSuitAtPlay: 'hearts',
+        jTrumpActiveAtPlay: false,
+        wasWhoopie: false,
+        wasScramble: false,
+      }],
+      completedTricks: [],
+      validBids: [0, 1, 2, 3],
+      validCards,
+    };
+  }
+
+  it('deals only unseen cards to the other players', () => {
+    const view = lastToPlayView(0);
+    const hands = sampleHiddenHands(view, createSeededRandom(3).random);
+    const known = [...view.hand, createSuitCard('spades', 'K'), createSuitCard('hearts', '2')];
+
+    expect(hands[1]).toEqual(view.hand);
+    expect(hands[0]).toHaveLength(2);
+    for (const card of hands[0]!) {
+      expect(known.some((k) => cardToString(k) === cardToString(card))).toBe(false);
+    }
+  });
+
+  it('never deals a player a suit they have shown out of', () => {
+    const view = lastToPlayView(0);
+    const voidTrick = {
+      cards: [
+        { ...view.currentTrick[0]!, card: createSuitCard('clubs', '3'), playerIndex: 1 },
+        { ...view.currentTrick[0]!, card: createSuitCard('diamonds', '3'), playerIndex: 0 },
+      ],
+      winnerId: 'p2',
+      winnerIndex: 1,
+      leadSuit: 'clubs' as const,
+    };
+    const withVoid = { ...view, cardsPerPlayer: 4, completedTricks: [voidTrick] };
+    const random = createSeededRandom(8).random;
+
+    for (let i = 0; i < 20; i++) {
+      const hands = sampleHiddenHands(withVoid, random);
+      expect(hands[0]).toHaveLength(2);
+      expect(hands[0]!.some((card) => !isJoker(card) && card.suit === 'clubs')).toBe(false);
+    }
+  });
+
+  it('knows the last player to a trick cannot be overtaken', () => {
+    const view = lastToPlayView(1);
+    expect(couldBeOvertaken(view, getAITableKnowledge(view), createSuitCard('spades', 'A'))).toBe(false);
+  });
+
+  it('knows a player still to come may trump in', () => {
+    const view = { ...lastToPlayView(1), numPlayers: 3, bids: [1, 1, null], tricksTaken: [0, 0, 0] };
+    expect(couldBeOvertaken(view, getAITableKnowledge(view), createSuitCard('spades', 'A'))).toBe(true);
+  });
+
+  it('ducks when a trick would break its bid', () => {
+    const strategy = createMonteCarloStrategy(options);
+    expect(strategy.play(lastToPlayView(0), createSeededRandom(1).random)).toEqual(createSuitCard('spades', '5'));
+  });
+
+  it('takes the trick when it needs it', () => {
+    const strategy = createMonteCarloStrategy(options);
+    expect(strategy.play(lastToPlayView(1), createSeededRandom(1).random)).toEqual(createSuitCard('spades', 'A'));
+  });
+
+  it('stops sampling once the time budget is spent', () => {
+    let clock = 0;
+    let samples = 0;
+    const strategy = createMonteCarloStrategy({ ...options, timeBudgetMs: 100, now: () => (clock += 60) });
+    const random = createSeededRandom(2).random;
+    strategy.play(lastToPlayView(0), () => {
+      samples++;
+      return random();
+    });
+    // One deal shuffles the 49 unseen cards; the budget runs out before a third deal
+    expect(samples).toBe(2 * 48);
+  });
+
+  it('bids from the valid bids', () => {
+    const game = (() => {
+      let g = createGame('p1', {}, 21);
+      g = addPlayer(g, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+      g = addPlayer(g, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+      return startGame(g).game;
+    })();
+    const index = game.stanza!.currentPlayerIndex;
+    const view = createAIGameView(game, index);
+    expect(view.validBids).toContain(createMonteCarloStrategy(options).bid(view, createSeededRandom(4).random));
+  });
+});
+
+describe('Table knowledge', () => {
+  function played(card: Card, playerIndex: number): PlayedCard {
+    return {
+      card,
+      playerId: `p${playerIndex}`,
+      playerIndex,
+      trumpSuitAtPlay: 'clubs',
+      jTrumpActiveAtPlay: false,
+      wasWhoopie: false,
+      wasScramble: isJoker(card),
+    };
+  }
+
+  const firstTrick = [
+    played(createSuitCard('spades', '9'), 0),
+    played(createSuitCard('hearts', '4'), 1),
+    played(createJoker(1), 2),
+  ];
+
+  function knowledgeAfter(tricks: PlayedCard[][]) {
+    return getTableKnowledge({
+      numPlayers: 3,
+      jokerCount: 2,
+      hand: [createSuitCard('diamonds', 'A')],
+      whoopieDefiningCard: createSuitCard('clubs', '7'),
+      whoopieRank: '7',
+      completedTricks: tricks.map((cards) => ({
+        cards,
+        winnerId: 'p2',
+        winnerIndex: 2,
+        leadSuit: null,
+      })),
+      currentTrick: [],
+    });
+  }
+
+  it('tracks played cards, remaining Whoopie cards and jokers', () => {
+    const knowledge = knowledgeAfter([firstTrick]);
+    expect(knowledge.playedCards).toHaveLength(3);
+    expect(knowledge.unseenCards).toHaveLength(54 - 3 - 1 - 1);
+    expect(knowledge.remainingWhoopieCards.map(cardToString).sort()).toEqual(['7♠', '7♥', '7♦'].sort());
+    expect(knowledge.remainingJokers).toBe(1);
+  });
+
+  it('marks players who fail to follow as void in the led suit', () => {
+    expect(knowledgeAfter([firstTrick]).voids).toEqual([[], ['spades'], ['spades']]);
+  });
+
+  it('learns nothing about voids from a joker lead', () => {
+    const jokerLead = [played(createJoker(2), 1), played(createSuitCard('hearts', '5'), 2), played(createSuitCard('spades', '2'), 0)];
+    expect(knowledgeAfter([jokerLead]).voids).toEqual([[], [], []]);
+  });
+});
+
+describe('Self-play simulator', () => {
+  it('plays complete games and reports per-strategy results', () => {
+    const report = runTournament({
+      strategies: ['intermediate', 'beginner', 'beginner'],
+      games: 4,
+      seed: 100,
+      settings: { length: { mode: 'upOnly', maxCards: 5 } },
+    });
+
+    expect(report.failures).toEqual([]);
+    expect(report.completed).toBe(4);
+    expect(report.stanzas).toBe(20);
+    expect(report.strategies.map((s) => s.name)).toEqual(['intermediate', 'beginner']);
+    expect(report.strategies.find((s) => s.name === 'beginner')!.seats).toBe(8);
+  });
+
+  it('replays the same game from the same seed', () => {
+    const settings = { length: { mode: 'upOnly' as const, maxCards: 4 } };
+    expect(simulateGame(['intermediate', 'beginner'], 7, settings)).toEqual(simulateGame(['intermediate', 'beginner'], 7, settings));
+  });
+
+  it('reports failed games with their seed', () => {
+    const report = runTournament({ strategies: ['beginner'], games: 1, seed: 3 });
+    expect(report.failures).toEqual([{ seed: 3, strategies: ['beginner'], error: 'Need at least 2 players' }]);
+  });
+
+  it('flags a card that is in two places at once', () => {
+    let game = createGame('p1', {}, 5);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+    game = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+    game = startGame(game).game;
+    expect(checkInvariants(game)).toBeNull();
+
+    const stanza = game.stanza!;
+    const broken = { ...game, stanza: { ...stanza, hands: [stanza.hands[0]!, stanza.hands[0]!] } };
+    expect(checkInvariants(broken)).toBe(`${cardToString(stanza.hands[0]![0]!)} appears twice`);
+  });
+});
+
+describe('AI bidding', () => {
+  // Dealer in a 3-player, 4-card stanza with hearts trump
+  function biddingView(hand: Card[], bids: (number | null)[]): AIGameView {
+    return {
+      playerIndex: 2,
+      numPlayers: 3,
+      rules: HOUSE_RULESETS.standard.rules,
+      scores: [0, 0, 0],
+      stanzaNumber: 4,
+      cardsPerPlayer: 4,
+      dealerIndex: 2,
+      whoopieDefiningCard: createSuitCard('hearts', '3'),
+      whoopieRank: '3',
+      currentTrumpSuit: 'hearts',
+      jTrumpActive: false,
+      hand,
+      bids,
+      tricksTaken: [0, 0, 0],
+      currentTrick: [],
+      completedTricks: [],
+      validBids: getValidBids(2, 2, 4, bids),
+      validCards: hand,
+    };
+  }
+
+  const hand = [
+    createSuitCard('hearts', 'A'),
+    createSuitCard('spades', 'A'),
+    createSuitCard('clubs', '6'),
+    createSuitCard('diamonds', '4'),
+  ];
+
+  it('bids lower when the table has already claimed the tricks', () => {
+    const open = estimateBidTricks(biddingView(hand, [0, 0, null]));
+    const claimed = estimateBidTricks(biddingView(hand, [2, 2, null]));
+    expect(claimed).toBeLessThan(open);
+  });
+
+  it('values long trump', () => {
+    const long = [createSuitCard('hearts', '4'), createSuitCard('hearts', '5'), createSuitCard('hearts', '6'), createSuitCard('clubs', '2')];
+    const short = [createSuitCard('spades', '4'), createSuitCard('hearts', '5'), createSuitCard('diamonds', '6'), createSuitCard('clubs', '2')];
+    expect(estimateBidTricks(biddingView(long, [1, 1, null]))).toBeGreaterThan(estimateBidTricks(biddingView(short, [1, 1, null])));
+  });
+
+  it('goes the way the estimate leans when the dealer hook bars its bid', () => {
+    // Bids of 1 and 1 bar the dealer from bidding 2
+    const view = biddingView(hand, [1, 1, null]);
+    expect(view.validBids).not.toContain(2);
+    expect(chooseBid(view, 2.3)).toBe(3);
+    expect(chooseBid(view, 1.7)).toBe(1);
+    expect(chooseBid(view, 2)).toBe(1);
+  });
+
+  it('takes its estimate when the hook does not bite', () => {
+    expect(chooseBid(biddingView(hand, [1, 1, null]), 0.8)).toBe(1);
+  });
+});
+
+describe('Bid training', () => {
+  function randomSamples(model: BidModel, numPlayers: number, count: number, seed: number): BidSample[] {
+    const { random } = createSeededRandom(seed);
+    return Array.from({ length: count }, () => {
+      const features = Object.fromEntries(BID_FEATURES.map((f) => [f, Math.floor(random() * 4)])) as BidFeatures;
+      features.bias = 1;
+      return { numPlayers, features, tricks: predictBidTricks(model, numPlayers, features) };
+    });
+  }
+
+  it('pairs every bid in a recorded game with the tricks the bidder took', () => {
+    const result = simulateGame(['intermediate', 'beginner', 'beginner'], 11, { length: { mode: 'upOnly', maxCards: 5 } }, true);
+    const samples = collectBidSamples(result.log!);
+
+    expect(replayGameLog(result.log!).game.scores).toEqual(result.finalScores);
+    expect(samples).toHaveLength(result.stanzas * 3);
+    // Every trick of every stanza is someone's
+    const tricks = samples.reduce((sum, sample) => sum + sample.tricks, 0);
+    expect(tricks).toBe(samples.reduce((sum, sample) => sum + sample.features.cardsPerPlayer, 0) / 3);
+    expect(getBidModelError(DEFAULT_BID_MODEL, samples)).toBeGreaterThan(0);
+  });
+
+  it('recovers the weights the tricks came from', () => {
+    const truth: BidModel = {
+      ...DEFAULT_BID_MODEL,
+      tables: { ...DEFAULT_BID_MODEL.tables, small: { ...DEFAULT_BID_MODEL.tables.small, jokers: 1, offAces: 0.2, bias: 0.3 } },
+    };
+    const model = fitBidModel(randomSamples(truth, 3, 300, 4), { prior: DEFAULT_BID_MODEL, ridge: 1e-6 });
+
+    for (const feature of BID_FEATURES) {
+      expect(model.tables.small[feature]).toBeCloseTo(truth.tables.small[feature], 4);
+    }
+    expect(model.samples).toEqual({ small: 300, medium: 0, large: 0 });
+  });
+
+  it('keeps the prior weights for table sizes with no bids', () => {
+    const model = fitBidModel(randomSamples(DEFAULT_BID_MODEL, 6, 50, 2));
+    expect(model.tables.small).toEqual(DEFAULT_BID_MODEL.tables.small);
+    expect(model.tables.medium).toEqual(DEFAULT_BID_MODEL.tables.medium);
+    expect(model.source).toBe('trained on 50 bids');
+  });
+
+  it('loads a model from JSON and bids with it', () => {
+    const trained = fitBidModel(randomSamples({
+      ...DEFAULT_BID_MODEL,
+      tables: { ...DEFAULT_BID_MODEL.tables, small: { ...DEFAULT_BID_MODEL.tables.small, offAces: 0.9 } },
+    }, 3, 100, 9));
+    const model = parseBidModel(JSON.parse(JSON.stringify(trained)));
+    expect(model).toEqual(trained);
+
+    const { log } = simulateGame(['beginner', 'beginner', 'beginner'], 5, { length: { mode: 'upOnly', maxCards: 3 } }, true);
+    const bidding = replayGameLog(log!, 1).game; // Just dealt
+    const view = createAIGameView(bidding, bidding.stanza!.currentPlayerIndex);
+    setBidModel(model);
+    try {
+      expect(getBidModel()).toBe(model);
+      expect(estimateBidTricks(view)).toBe(estimateBidTricks(view, model));
+    } finally {
+      setBidModel(DEFAULT_BID_MODEL);
+    }
+
+    const { offAces: _, ...missing } = model.tables.small;
+    expect(() => parseBidModel({ ...model, tables: { ...model.tables, small: missing } })).toThrow("small table's offAces");
+    expect(() => parseBidModel({ ...model, version: 99 })).toThrow('Unsupported bid model version 99');
+  });
+});
+
+describe('Coaching hints', () => {
+  function startedGame(): GameState {
+    let game = createGame('p1', {}, 12);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+    game = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+    return startGame(game).game;
+  }
+
+  it('recommends a legal bid with the reasoning', () => {
+    const game = startedGame();
+    const index = game.stanza!.currentPlayerIndex;
+    const hint = getHint(game, index, intermediateStrategy, () => 0.5);
+
+    expect(hint.type).toBe('bid');
+    if (hint.type === 'bid') {
+      expect(getValidBids(index, game.stanza!.dealerIndex, 1, game.stanza!.bids)).toContain(hint.bid);
+      expect(hint.reasons[0]!.type).toBe('handEstimate');
+    }
+  });
+
+  it('explains a searching strategy\'s bid with its own play-outs', () => {
+    const game = startedGame();
+    const index = game.stanza!.currentPlayerIndex;
+    const expert = createMonteCarloStrategy({ ...DEFAULT_MONTE_CARLO_OPTIONS, name: 'fast-expert', description: '', maxSamples: 4 });
+    const hint = getHint(game, index, expert, createSeededRandom(5).random);
+    const ratings = expert.rateBids!(createAIGameView(game, index), createSeededRandom(5).random);
+
+    expect(hint.type === 'bid' && hint.bid).toBe(ratings[0]!.bid);
+    expect(hint.reasons[0]).toMatchObject({ type: 'playOuts', deals: 4 });
+    expect(hint.reasons.some((reason) => reason.type === 'handEstimate')).toBe(false);
+  });
+
+  it('only gives hints on your turn', () => {
+    const game = startedGame();
+    const notMyTurn = (game.stanza!.currentPlayerIndex + 1) % 2;
+    expect(() => getHint(game, notMyTurn, intermediateStrategy)).toThrow('Not your turn');
+  });
+
+  it('explains that the led suit is trump under J-Trump', () => {
+    const view = { ...followingView(0), jTrumpActive: true, currentTrumpSuit: 'spades' as const };
+    const card = createSuitCard('spades', 'Q');
+    expect(getTrumpReason(view, card)).toBe('jTrumpLedSuit');
+    expect(describeHintReason({ type: 'isTrump', because: 'jTrumpLedSuit', suit: 'spades', rank: 'Q' }))
+      .toBe('This card is trump because J-Trump is active and spades is the suit led');
+  });
+
+  it('does not call an off-suit card trump', () => {
+    expect(getTrumpReason(followingView(0), createSuitCard('clubs', '9'))).toBeNull();
+    expect(getTrumpReason(followingView(0), createSuitCard('hearts', '9'))).toBe('trumpSuit');
+    expect(getTrumpReason(followingView(0), createSuitCard('clubs', '2'))).toBe('whoopie');
+  });
+
+  it('records hint use in the game', () => {
+    const game = startedGame();
+    const once = applyGameAction(game, { type: 'recordHint', playerId: 'p2' }).game;
+    const twice = applyGameAction(once, { type: 'recordHint', playerId: 'p2' }).game;
+    expect(twice.hintsUsed).toEqual({ p2: 2 });
+  });
+});
+
+describe('Post-game review', () => {
+  function finishedGame(
+    length: GameSettings['length'] = { mode: 'fixedStanzas', stanzas: 3 },
+    names: string[] = ['Alice', 'Bob', 'Carol']
+  ): GameState {
+    const random = createSeededRandom(3).random;
+    let game = createGame('p1', { length }, 21);
+    names.forEach((name, i) => {
+      game = addPlayer(game, { type: 'human', id: `p${i + 1}`, name, isConnected: true }).game;
+    });
+    game = startGame(game).game;
+
+    while (game.phase !== 'gameEnd') {
+      const index = game.stanza!.currentPlayerIndex;
+      if (game.phase === 'bidding') {
+        game = placeBid(game, index, beginnerStrategy.bid(createAIGameView(game, index), random)).game;
+      } else if (game.phase === 'playing') {
+        game = playCard(game, index, beginnerStrategy.play(createAIGameView(game, index), random), true).game;
+      } else {
+        game = applyGameAction(game, { type: 'continueGame' }).game;
+      }
+    }
+    return game;
+  }
+
+  it('keeps every trick of each stanza', () => {
+    const game = finishedGame();
+    for (const record of game.completedStanzas) {
+      expect(record.tricks).toHaveLength(record.cardsPerPlayer);
+      expect(record.tricks.every((trick) => trick.cards.length === 3)).toBe(true);
+    }
+    expect(game.completedStanzas[1]!.startingScores).toEqual(
+      game.completedStanzas[0]!.scoreChanges
+    );
+  });
+
+  it('reviews each stanza the player was in', () => {
+    const game = finishedGame();
+    const review = reviewPlayer(game, 'p2', 4);
+
+    expect(review.stanzas).toHaveLength(3);
+    review.stanzas.forEach((stanza, i) => {
+      const record = game.completedStanzas[i]!;
+      expect(stanza.bid).toBe(record.bids[1]);
+      expect(stanza.scoreChange).toBe(record.scoreChanges[1]);
+    });
+
+    const decisions = review.stanzas.flatMap((stanza) => stanza.decisions);
+    for (const decision of decisions) {
+      expect(decision.expectedLoss).toBeGreaterThanOrEqual(0);
+      if (decision.expectedLoss === 0) {
+        expect(decision.type === 'bid' ? decision.bestBid : decision.bestCard)
+          .toEqual(decision.type === 'bid' ? decision.bid : decision.card);
+      }
+    }
+    expect(review.blunders).toBe(decisions.filter((d) => d.expectedLoss >= BLUNDER_THRESHOLD).length);
+  });
+
+  it('gives the same report for the same game', () => {
+    const game = finishedGame();
+    expect(reviewPlayer(game, 'p1', 4)).toEqual(reviewPlayer(game, 'p1', 4));
+  });
+
+  it('only reviews players in the game', () => {
+    expect(() => reviewPlayer(finishedGame(), 'nobody')).toThrow('Player not in game');
+  });
+
+  it('can be run a decision at a time', () => {
+    const game = finishedGame();
+    const steps = reviewPlayerInSteps(game, 'p1', 4);
+    let yields = 0;
+    let step = steps.next();
+    for (; !step.done; step = steps.next()) yields++;
+
+    expect(step.value).toEqual(reviewPlayer(game, 'p1', 4));
+    expect(yields).toBeGreaterThanOrEqual(step.value.stanzas.flatMap((stanza) => stanza.decisions).length);
+  });
+
+  // Two players is the longest game: 51 stanzas of up to 26 cards
+  it('reviews a full-length game within a time budget', () => {
+    const game = finishedGame({ mode: 'full' }, ['Alice', 'Bob']);
+    const started = Date.now();
+    const review = reviewPlayer(game, 'p1');
+
+    expect(review.stanzas).toHaveLength(game.completedStanzas.length);
+    expect(Date.now() - started).toBeLessThan(15_000);
+  }, 30_000);
+});
+
+describe('Double-dummy solver', () => {
+  // A game at the first card of the deal
+  function playingGame(deal: DoubleDummyDeal): GameState {
+    let game = createGame('p1', {}, 5);
+    deal.hands.forEach((_, i) => {
+      game = addPlayer(game, { type: 'human', id: `p${i + 1}`, name: `Player ${i + 1}`, isConnected: true }).game;
+    });
+    game = startGame(game).game;
+
+    const { trumpSuit, whoopieRank, jTrumpActive } = getInitialTrumpFromDefiningCard(deal.whoopieDefiningCard);
+    return {
+      ...game,
+      phase: 'playing',
+      stanza: {
+        ...game.stanza!,
+        cardsPerPlayer: deal.hands[0]!.length,
+        dealerIndex: deal.dealerIndex,
+        whoopieDefiningCard: deal.whoopieDefiningCard,
+        whoopieRank,
+        initialTrumpSuit: trumpSuit,
+        currentTrumpSuit: trumpSuit,
+        jTrumpActive,
+        bids: [...deal.bids],
+        hands: deal.hands.map((hand) => [...hand]),
+        currentPlayerIndex: (deal.dealerIndex + 1) % deal.hands.length,
+      },
+    };
+  }
+
+  // Every line of play through the engine itself
+  function canForceByPlay(game: GameState, target: number, test: (tricks: number) => boolean): boolean {
+    if (game.phase === 'trickEnd') {
+      return canForceByPlay(applyGameAction(game, { type: 'continueGame' }).game, target, test);
+    }
+    if (game.phase !== 'playing') {
+      return test(game.completedStanzas.at(-1)!.tricksTaken[target]!);
+    }
+
+    const stanza = game.stanza!;
+    const index = stanza.currentPlayerIndex;
+    const results = getValidCards(
+      stanza.hands[index]!, stanza.currentTrick, stanza.currentTrumpSuit, stanza.whoopieRank, stanza.jTrumpActive
+    ).map((card) => canForceByPlay(playCard(game, index, card, true).game, target, test));
+    return index === target ? results.some(Boolean) : results.every(Boolean);
+  }
+
+  function dealFromSeed(seed: number): DoubleDummyDeal {
+    const deck = shuffleDeck(createDeck(2), createSeededRandom(seed).random);
+    return {
+      hands: [deck.slice(0, 3), deck.slice(3, 6), deck.slice(6, 9)],
+      whoopieDefiningCard: deck[9]!,
+      dealerIndex: seed % 3,
+      bids: [1, 0, 2],
+    };
+  }
+
+  const jokerDefined: DoubleDummyDeal = {
+    hands: [
+      [createJoker(1), createSuitCard('hearts', '9'), createSuitCard('spades', '4')],
+      [createSuitCard('hearts', 'K'), createSuitCard('clubs', '9'), createSuitCard('spades', 'A')],
+      [createJoker(2), createSuitCard('spades', '9'), createSuitCard('hearts', '2')],
+    ],
+    whoopieDefiningCard: createSuitCard('diamonds', 'Q'),
+    dealerIndex: 2,
+    bids: [2, 1, 0],
+  };
+
+  it('matches every line of play through the engine', () => {
+    const deals = [1, 2, 3, 4, 5, 6].map(dealFromSeed);
+    deals.push(jokerDefined, { ...jokerDefined, whoopieDefiningCard: createJoker(1), hands: [
+      [createSuitCard('diamonds', '9'), createSuitCard('hearts', '9'), createSuitCard('spades', '4')],
+      jokerDefined.hands[1]!,
+      jokerDefined.hands[2]!,
+    ] });
+
+    for (const deal of deals) {
+      const game = playingGame(deal);
+      const result = solveDoubleDummy(deal);
+
+      deal.hands.forEach((_, i) => {
+        const max = result.maxTricks[i]!;
+        expect(canForceByPlay(game, i, (tricks) => tricks >= max)).toBe(true);
+        if (max < 3) {
+          expect(canForceByPlay(game, i, (tricks) => tricks > max)).toBe(false);
+        }
+        expect(result.canMakeBid[i]).toBe(canForceByPlay(game, i, (tricks) => tricks === deal.bids[i]));
+      });
+    }
+  });
+
+  it('answers single queries', () => {
+    const deal = dealFromSeed(7);
+    const { maxTricks } = solveDoubleDummy(deal);
+
+    expect(getMaxTricks(deal, 0)).toBe(maxTricks[0]);
+    expect(canForceTricks(deal, 0, maxTricks[0]!, false)).toBe(true);
+    expect(canForceTricks(deal, 0, maxTricks[0]! + 1, false)).toBe(false);
+    expect(canForceTricks(deal, 0, 0, true)).toBe(
+      canForceByPlay(playingGame(deal), 0, (tricks) => tricks === 0)
+    );
+  });
+
+  it('rebuilds the deal of a completed stanza', () => {
+    const deal = dealFromSeed(8);
+    let game = playingGame(deal);
+    while (game.phase === 'playing' || game.phase === 'trickEnd') {
+      if (game.phase === 'trickEnd') {
+        game = applyGameAction(game, { type: 'continueGame' }).game;
+        continue;
+      }
+      const stanza = game.stanza!;
+      const index = stanza.currentPlayerIndex;
+      const [card] = getValidCards(
+        stanza.hands[index]!, stanza.currentTrick, stanza.currentTrumpSuit, stanza.whoopieRank, stanza.jTrumpActive
+      );
+      game = playCard(game, index, card!, true).game;
+    }
+
+    const rebuilt = getDoubleDummyDeal(game.completedStanzas.at(-1)!);
+    expect(rebuilt.hands.map(sortHand)).toEqual(deal.hands.map(sortHand));
+    expect(rebuilt.whoopieDefiningCard).toEqual(deal.whoopieDefiningCard);
+    expect(rebuilt.dealerIndex).toBe(deal.dealerIndex);
+    expect(rebuilt.bids).toEqual(deal.bids);
+  });
+
+  it('solves 13-card hands within a time budget', () => {
+    const deck = shuffleDeck(createDeck(2), createSeededRandom(2).random);
+    const deal: DoubleDummyDeal = {
+      hands: [deck.slice(0, 13), deck.slice(13, 26)],
+      whoopieDefiningCard: deck[26]!,
+      dealerIndex: 0,
+      bids: [6, 6],
+    };
+    const started = Date.now();
+    const { maxTricks } = solveDoubleDummy(deal);
+
+    // Heads up, every trick one player doesn't take the other does
+    expect(maxTricks[0]! + maxTricks[1]!).toBe(13);
+    expect(Date.now() - started).toBeLessThan(10_000);
+  }, 20_000);
+
+  it('rejects bad deals', () => {
+    const deal = dealFromSeed(1);
+    expect(() => getMaxTricks(deal, 3)).toThrow('Invalid player index');
+    expect(() => getMaxTricks({ ...deal, hands: [deal.hands[0]!, deal.hands[1]!.slice(1), deal.hands[2]!] }, 0))
+      .toThrow('Hands must be the same size');
+  });
+});
+
+describe('Game scheduler', () => {
+  it('runs jobs when the clock reaches them', () => {
+    const clock = createManualClock();
+    const scheduler = createGameScheduler(clock);
+    const ran: string[] = [];
+
+    scheduler.schedule('g1', ADVANCE_JOB_KEY, 6000, () => ran.push('advance'));
+    scheduler.schedule('g1', getSeatJobKey(1), 1000, () => ran.push('seat 1'));
+
+    clock.advance(999);
+    expect(ran).toEqual([]);
+    clock.advance(5001);
+    expect(ran).toEqual(['seat 1', 'advance']);
+    expect(clock.now()).toBe(6000);
+    expect(scheduler.getPendingKeys('g1')).toEqual([]);
+  });
+
+  it('never schedules the same seat twice', () => {
+    const clock = createManualClock();
+    const scheduler = createGameScheduler(clock);
+    let runs = 0;
+
+    expect(scheduler.schedule('g1', getSeatJobKey(0), 1000, () => runs++)).toBe(true);
+    expect(scheduler.schedule('g1', getSeatJobKey(0), 500, () => runs++)).toBe(false);
+    expect(scheduler.schedule('g2', getSeatJobKey(0), 500, () => runs++)).toBe(true);
+
+    clock.advance(1000);
+    expect(runs).toBe(2);
+  });
+
+  it('lets a job schedule the next one under its own key', () => {
+    const clock = createManualClock();
+    const scheduler = createGameScheduler(clock);
+    const ran: number[] = [];
+
+    const turn = () => {
+      ran.push(clock.now());
+      if (ran.length < 3) scheduler.schedule('g1', getSeatJobKey(0), 1000, turn);
+    };
+    scheduler.schedule('g1', getSeatJobKey(0), 1000, turn);
+
+    clock.advance(10_000);
+    expect(ran).toEqual([1000, 2000, 3000]);
+  });
+
+  it('cancels every pending job of a game', () => {
+    const clock = createManualClock();
+    const scheduler = createGameScheduler(clock);
+    const ran: string[] = [];
+
+    scheduler.schedule('g1', getSeatJobKey(2), 1000, () => ran.push('g1 seat'));
+    scheduler.schedule('g1', ADVANCE_JOB_KEY, 6000, () => ran.push('g1 advance'));
+    scheduler.schedule('g2', ADVANCE_JOB_KEY, 6000, () => ran.push('g2 advance'));
+
+    expect(scheduler.cancelGame('g1')).toBe(2);
+    expect(scheduler.isPending('g1', ADVANCE_JOB_KEY)).toBe(false);
+    expect(scheduler.cancel('g2', getSeatJobKey(0))).toBe(false);
+
+    clock.advance(6000);
+    expect(ran).toEqual(['g2 advance']);
+  });
+});
+
+describe('AI personalities', () => {
+  function biddingView(): AIGameView {
+    let game = createGame('p1', {}, 8);
+    game = addPlayer(game, { type: 'human', id: 'p1', name: 'Alice', isConnected: true }).game;
+    game = addPlayer(game, { type: 'human', id: 'p2', name: 'Bob', isConnected: true }).game;
+    game = startGame(game).game;
+    return createAIGameView(game, game.stanza!.currentPlayerIndex);
+  }
+
+  const alwaysCalls = { ...intermediateStrategy, callWhoopie: () => true };
+
+  it('shifts bids the way the personality leans', () => {
+    const view = { ...biddingView(), validBids: [0, 1, 2, 3] };
+    const fixed = { ...intermediateStrategy, bid: () => 1 };
+
+    expect(withPersonality(fixed, { ...AI_PERSONALITIES.gambler, bidBias: 1 }).bid(view, () => 0.5)).toBe(2);
+    expect(withPersonality(fixed, { ...AI_PERSONALITIES.cautious, bidBias: -1 }).bid(view, () => 0.5)).toBe(0);
+    expect(withPersonality(fixed, AI_PERSONALITIES.shark).bid(view, () => 0.5)).toBe(1);
+  });
+
+  it('sometimes forgets to call Whoopie', () => {
+    const view = biddingView();
+    const card = view.hand[0]!;
+    const forgetful = withPersonality(alwaysCalls, AI_PERSONALITIES.forgetful);
+
+    expect(forgetful.callWhoopie(view, card, () => 0)).toBe(false);
+    expect(forgetful.callWhoopie(view, card, () => 0.99)).toBe(true);
+    expect(withPersonality(alwaysCalls, AI_PERSONALITIES.shark).callWhoopie(view, card, () => 0)).toBe(true);
+  });
+
+  it('dumps its highest card', () => {
+    const view = { ...biddingView(), validCards: [createSuitCard('clubs', '3'), createSuitCard('clubs', 'K')] };
+    const lowest = { ...intermediateStrategy, play: () => view.validCards[0]! };
+
+    expect(withPersonality(lowest, AI_PERSONALITIES.showoff).play(view, () => 0)).toEqual(createSuitCard('clubs', 'K'));
+    expect(withPersonality(lowest, AI_PERSONALITIES.showoff).play(view, () => 0.99)).toEqual(createSuitCard('clubs', '3'));
+  });
+
+  it('plays a bot without a personality straight', () => {
+    const bot = { type: 'ai' as const, id: 'b1', name: 'Bot', difficulty: 'intermediate' as const };
+    expect(getAIPlayerStrategy(bot)).toBe(intermediateStrategy);
+    expect(getAIPlayerStrategy({ ...bot, personality: 'forgetful' }).name).toBe('intermediate');
+  });
+});
+
+describe('Socket protocol', () => {
+  it('accepts well-formed requests', () => {
+    expect(validateRequest('game:play', { gameId: 'ABCD', card: createSuitCard('hearts', '10'), calledWhoopie: false })).toBeNull();
+    expect(validateRequest('game:play', { gameId: 'ABCD', card: createJoker(2), calledWhoopie: true })).toBeNull();
+    expect(validateRequest('game:addAI', { gameId: 'ABCD', difficulty: 'expert' })).toBeNull();
+    expect(validateRequest('game:updateSettings', {
+      gameId: 'ABCD',
+      settings: { length: { mode: 'fixedStanzas', stanzas: 5 }, spectatorRevealDelayMs: null, rules: HOUSE_RULESETS.cutthroat.rules },
+    })).toBeNull();
+  });
+
+  it('rejects malformed requests with every issue', () => {
+    const error = validateRequest('game:bid', { bid: 1.5, extra: true });
+    expect(error?.code).toBe('INVALID_PAYLOAD');
+    expect(error?.details?.issues).toEqual(['extra is not allowed', 'gameId must be a string', 'bid must be an integer']);
+    expect(error?.error).toBe('Invalid request: extra is not allowed');
+
+    expect(validateRequest('game:start', undefined)?.details?.issues).toEqual(['payload must be an object']);
+    expect(validateRequest('game:join', { gameId: 'ABCD', playerName: 'x'.repeat(21) })?.details?.issues).toEqual([
+      'playerName must be at most 20 characters',
+    ]);
+  });
+
+  it('checks nested cards and settings', () => {
+    expect(validateRequest('game:play', { gameId: 'ABCD', card: { type: 'suit', suit: 'hearts', rank: '1' }, calledWhoopie: false })?.details?.issues)
+      .toEqual(['card.rank must be one of A, K, Q, J, 10, 9, 8, 7, 6, 5, 4, 3, 2']);
+    expect(validateRequest('game:play', { gameId: 'ABCD', card: { type: 'wild' }, calledWhoopie: false })?.details?.issues)
+      .toEqual(['card.type must be one of suit, joker']);
+    expect(validateRequest('game:updateSettings', { gameId: 'ABCD', settings: { speed: 'warp', length: { mode: 'targetScore' } } })?.details?.issues)
+      .toEqual(['settings.length.targetScore must be an integer', 'settings.speed must be one of relaxed, normal, fast, instant']);
+  });
 });
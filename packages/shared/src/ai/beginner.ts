@@ -0,0 +1,33 @@
+import { AIStrategy } from './strategy.js';
+import {
+  estimateTricks,
+  getClosestValidBid,
+  getHighestCard,
+  getLowestCard,
+  getTricksNeeded,
+  isWhoopiePlay,
+} from './heuristics.js';
+
+/**
+ * Beginner: a noisy bid, then plays its highest card while it still needs
+ * tricks and its lowest once it doesn't
+ */
+export const beginnerStrategy: AIStrategy = {
+  name: 'beginner',
+  description: 'Bids loosely and plays high or low with no card sense',
+
+  bid(view, random) {
+    const estimate = estimateTricks(view) + (random() - 0.5) * 2;
+    return getClosestValidBid(estimate, view.validBids);
+  },
+
+  play(view) {
+    return getTricksNeeded(view) > 0
+      ? getHighestCard(view.validCards, view.whoopieRank)
+      : getLowestCard(view.validCards, view.whoopieRank);
+  },
+
+  callWhoopie(view, card) {
+    return isWhoopiePlay(view, card);
+  },
+};
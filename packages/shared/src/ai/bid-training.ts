@@ -0,0 +1,175 @@
+import { GameLog } from '../types.js';
+import { GAME_LOG_VERSION } from '../constants.js';
+import { applyGameAction } from '../game-log.js';
+import { createAIGameView } from './strategy.js';
+import {
+  BID_FEATURES,
+  BID_MODEL_VERSION,
+  BidFeatures,
+  BidModel,
+  BidTableSize,
+  BidWeights,
+  DEFAULT_BID_MODEL,
+  getBidFeatures,
+  getBidTableSize,
+  predictBidTricks,
+} from './bidding.js';
+
+// ============================================================================
+// Bid Training (learning bid weights from recorded games)
+// ============================================================================
+
+// A bid from a recorded game: the bidder's hand and table, and the tricks it took
+export interface BidSample {
+  numPlayers: number;
+  features: BidFeatures;
+  tricks: number;
+}
+
+export interface BidTrainingOptions {
+  prior: BidModel;               // Weights a table falls back to with little data
+  ridge: number;                 // How many bids' worth of pull toward the prior
+}
+
+export const DEFAULT_BID_TRAINING_OPTIONS: BidTrainingOptions = {
+  prior: DEFAULT_BID_MODEL,
+  ridge: 20,
+};
+
+/**
+ * Replay a game log and pair each bid with the tricks the bidder took
+ *
+ * Stanzas that never finished (thrown in when a player left, or cut short
+ * by the game ending) give no samples.
+ */
+export function collectBidSamples(log: GameLog): BidSample[] {
+  if (log.version !== GAME_LOG_VERSION) {
+    throw new Error(`Unsupported game log version ${log.version}`);
+  }
+
+  const samples: BidSample[] = [];
+  let pending: { playerIndex: number; numPlayers: number; features: BidFeatures }[] = [];
+  let game = log.initialState;
+
+  for (const { action } of log.entries) {
+    if (action.type === 'placeBid' && game.phase === 'bidding') {
+      const view = createAIGameView(game, action.playerIndex);
+      pending.push({ playerIndex: action.playerIndex, numPlayers: view.numPlayers, features: getBidFeatures(view) });
+    }
+
+    const stanzasBefore = game.completedStanzas.length;
+    game = applyGameAction(game, action).game;
+
+    if (game.completedStanzas.length > stanzasBefore) {
+      const record = game.completedStanzas[game.completedStanzas.length - 1]!;
+      for (const bid of pending) {
+        samples.push({ numPlayers: bid.numPlayers, features: bid.features, tricks: record.tricksTaken[bid.playerIndex]! });
+      }
+      pending = [];
+    } else if (action.type === 'removePlayerAndRedeal') {
+      pending = [];
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Fit each table size's weights to the samples by least squares, pulled
+ * toward the prior's weights so thinly-covered features stay sensible
+ */
+export function fitBidModel(
+  samples: BidSample[],
+  options: BidTrainingOptions = DEFAULT_BID_TRAINING_OPTIONS
+): BidModel {
+  const sizes = Object.keys(options.prior.tables) as BidTableSize[];
+  const tables = {} as Record<BidTableSize, BidWeights>;
+  const counts = {} as Record<BidTableSize, number>;
+
+  for (const size of sizes) {
+    const tableSamples = samples.filter((sample) => getBidTableSize(sample.numPlayers) === size);
+    tables[size] = fitWeights(tableSamples, options.prior.tables[size], options.ridge);
+    counts[size] = tableSamples.length;
+  }
+
+  return {
+    version: BID_MODEL_VERSION,
+    source: `trained on ${samples.length} bids`,
+    samples: counts,
+    tables,
+  };
+}
+
+/**
+ * Collect the bids from game logs and fit a model to them
+ */
+export function trainBidModel(
+  logs: GameLog[],
+  options: BidTrainingOptions = DEFAULT_BID_TRAINING_OPTIONS
+): BidModel {
+  return fitBidModel(logs.flatMap(collectBidSamples), options);
+}
+
+/**
+ * Average distance between a model's estimates and the tricks actually taken
+ */
+export function getBidModelError(model: BidModel, samples: BidSample[]): number {
+  if (samples.length === 0) return 0;
+  const total = samples.reduce((sum, sample) => {
+    const estimate = predictBidTricks(model, sample.numPlayers, sample.features);
+    return sum + Math.abs(Math.max(0, Math.min(estimate, sample.features.cardsPerPlayer)) - sample.tricks);
+  }, 0);
+  return total / samples.length;
+}
+
+// Ridge regression toward the prior: solve (XᵀX + λI) w = Xᵀy + λ prior
+function fitWeights(samples: BidSample[], prior: BidWeights, ridge: number): BidWeights {
+  const n = BID_FEATURES.length;
+  const matrix = BID_FEATURES.map((_, i) => BID_FEATURES.map((_, j) => (i === j ? ridge : 0)));
+  const target = BID_FEATURES.map((feature) => ridge * prior[feature]);
+
+  for (const { features, tricks } of samples) {
+    for (let i = 0; i < n; i++) {
+      const x = features[BID_FEATURES[i]!];
+      if (x === 0) continue;
+      target[i]! += x * tricks;
+      for (let j = 0; j < n; j++) {
+        matrix[i]![j]! += x * features[BID_FEATURES[j]!];
+      }
+    }
+  }
+
+  const solution = solveLinearSystem(matrix, target);
+  return Object.fromEntries(BID_FEATURES.map((feature, i) => [feature, solution[i]!])) as BidWeights;
+}
+
+// Gaussian elimination with partial pivoting (the ridge keeps the system well-posed)
+function solveLinearSystem(matrix: number[][], target: number[]): number[] {
+  const n = target.length;
+  const a = matrix.map((row, i) => [...row, target[i]!]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row]![col]!) > Math.abs(a[pivot]![col]!)) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot]!, a[col]!];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row]![col]! / a[col]![col]!;
+      for (let k = col; k <= n; k++) {
+        a[row]![k]! -= factor * a[col]![k]!;
+      }
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row]![n]!;
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row]![k]! * solution[k]!;
+    }
+    solution[row] = sum / a[row]![row]!;
+  }
+  return solution;
+}
@@ -0,0 +1,206 @@
+import { RANK_VALUES } from '../types.js';
+import { getDeckSize } from '../constants.js';
+import { createDeck, isJoker, isTrump, isWhoopieCard } from '../cards.js';
+import { AIGameView } from './strategy.js';
+
+// ============================================================================
+// AI Bidding
+// ============================================================================
+
+// How far the estimate leans toward the tricks the table has left
+const TABLE_WEIGHT = 0.2;
+
+// Version of the bid model JSON format
+export const BID_MODEL_VERSION = 1;
+
+// What a bid estimate is built from, counted from the bidder's hand and the table
+export const BID_FEATURES = [
+  'bias',           // Always 1
+  'jokers',
+  'whoopieCards',
+  'topTrumps',      // K, A of trump
+  'queenTrumps',
+  'middleTrumps',   // 10, J of trump
+  'lowTrumps',
+  'offAces',
+  'offKings',
+  'extraTrumps',    // Trumps beyond this hand's share of the trumps in the deck
+  'fairShare',      // Even split of the tricks earlier bids leave for this player and everyone still to bid
+  'bidPosition',    // Bids made before this one
+  'cardsPerPlayer',
+] as const;
+
+export type BidFeature = typeof BID_FEATURES[number];
+export type BidFeatures = Record<BidFeature, number>;
+export type BidWeights = Record<BidFeature, number>; // Tricks per unit of each feature
+
+// Off-suit honours hold up less often as the table grows, so each size has its own weights
+export type BidTableSize = 'small' | 'medium' | 'large';
+
+export interface BidModel {
+  version: number;               // BID_MODEL_VERSION
+  source: string;                // Where the weights came from
+  samples: Record<BidTableSize, number>; // Bids each table's weights were fitted to (0 = hand-tuned)
+  tables: Record<BidTableSize, BidWeights>;
+}
+
+export function getBidTableSize(numPlayers: number): BidTableSize {
+  return numPlayers <= 3 ? 'small' : numPlayers <= 5 ? 'medium' : 'large';
+}
+
+/**
+ * Count the bid features of a player's hand at their turn to bid
+ */
+export function getBidFeatures(view: AIGameView): BidFeatures {
+  const { hand, cardsPerPlayer, currentTrumpSuit, whoopieRank, jTrumpActive } = view;
+  const features: BidFeatures = Object.fromEntries(BID_FEATURES.map((f) => [f, 0])) as BidFeatures;
+  features.bias = 1;
+  features.cardsPerPlayer = cardsPerPlayer;
+
+  let trumpCount = 0;
+  for (const card of hand) {
+    if (isJoker(card)) {
+      features.jokers++;
+      trumpCount++;
+    } else if (isWhoopieCard(card, whoopieRank)) {
+      features.whoopieCards++;
+      trumpCount++;
+    } else if (isTrump(card, currentTrumpSuit, whoopieRank, jTrumpActive)) {
+      const value = RANK_VALUES[card.rank];
+      features[value >= 13 ? 'topTrumps' : value >= 12 ? 'queenTrumps' : value >= 10 ? 'middleTrumps' : 'lowTrumps']++;
+      trumpCount++;
+    } else if (RANK_VALUES[card.rank] === 14) {
+      features.offAces++;
+    } else if (RANK_VALUES[card.rank] === 13) {
+      features.offKings++;
+    }
+  }
+
+  const trumpsInDeck = createDeck(view.rules.jokerCount)
+    .filter((card) => isTrump(card, currentTrumpSuit, whoopieRank, jTrumpActive)).length;
+  const trumpShare = (cardsPerPlayer * trumpsInDeck) / getDeckSize(view.rules.jokerCount);
+  features.extraTrumps = Math.max(0, trumpCount - trumpShare);
+
+  const bidsSoFar = view.bids.reduce<number>((sum, bid) => sum + (bid ?? 0), 0);
+  const biddersLeft = view.bids.filter((bid, i) => bid === null && i !== view.playerIndex).length;
+  features.fairShare = Math.max(0, cardsPerPlayer - bidsSoFar) / (biddersLeft + 1);
+  features.bidPosition = view.bids.filter((bid) => bid !== null).length;
+
+  return features;
+}
+
+// The hand-tuned weights: card values, leaning TABLE_WEIGHT of the way to the fair share
+function handTunedWeights(crowdFactor: number): BidWeights {
+  const hand = 1 - TABLE_WEIGHT;
+  return {
+    bias: 0,
+    jokers: 0.95 * hand,
+    whoopieCards: 0.75 * hand,
+    topTrumps: 0.85 * hand,
+    queenTrumps: 0.7 * hand,
+    middleTrumps: 0.5 * hand,
+    lowTrumps: 0.25 * hand,
+    offAces: 0.6 * crowdFactor * hand,
+    offKings: 0.25 * crowdFactor * hand,
+    extraTrumps: 0.3 * hand, // Long trump wins tricks once the other players run out
+    fairShare: TABLE_WEIGHT,
+    bidPosition: 0,
+    cardsPerPlayer: 0,
+  };
+}
+
+export const DEFAULT_BID_MODEL: BidModel = {
+  version: BID_MODEL_VERSION,
+  source: 'hand-tuned',
+  samples: { small: 0, medium: 0, large: 0 },
+  tables: {
+    small: handTunedWeights(1),
+    medium: handTunedWeights(0.75),
+    large: handTunedWeights(0.5),
+  },
+};
+
+// The model estimateBidTricks uses unless it's given one
+let activeBidModel: BidModel = DEFAULT_BID_MODEL;
+
+/**
+ * Bid with a trained model from now on (e.g. loaded at server startup)
+ */
+export function setBidModel(model: BidModel): void {
+  activeBidModel = model;
+}
+
+export function getBidModel(): BidModel {
+  return activeBidModel;
+}
+
+/**
+ * Check that parsed JSON is a bid model this version can use
+ */
+export function parseBidModel(json: unknown): BidModel {
+  const model = json as Partial<BidModel> | null;
+  if (!model || typeof model !== 'object') {
+    throw new Error('Bid model must be an object');
+  }
+  if (model.version !== BID_MODEL_VERSION) {
+    throw new Error(`Unsupported bid model version ${model.version}`);
+  }
+
+  for (const size of Object.keys(DEFAULT_BID_MODEL.tables) as BidTableSize[]) {
+    const weights = model.tables?.[size];
+    for (const feature of BID_FEATURES) {
+      if (typeof weights?.[feature] !== 'number' || !Number.isFinite(weights[feature])) {
+        throw new Error(`Bid model is missing the ${size} table's ${feature} weight`);
+      }
+    }
+  }
+
+  return {
+    version: model.version,
+    source: typeof model.source === 'string' ? model.source : 'unknown',
+    samples: { ...DEFAULT_BID_MODEL.samples, ...model.samples },
+    tables: model.tables!,
+  };
+}
+
+/**
+ * A model's trick estimate for some bid features (not clamped to the hand size)
+ */
+export function predictBidTricks(model: BidModel, numPlayers: number, features: BidFeatures): number {
+  const weights = model.tables[getBidTableSize(numPlayers)];
+  return BID_FEATURES.reduce((sum, feature) => sum + weights[feature] * features[feature], 0);
+}
+
+/**
+ * Estimate the tricks this hand will take, from:
+ * - its high cards, worth less at a bigger table
+ * - trump length beyond this hand's share of the trumps in the deck
+ * - the bids already made: tricks claimed by earlier bidders are harder to get
+ *
+ * The weights come from the bid model: hand-tuned unless a trained one is set.
+ */
+export function estimateBidTricks(view: AIGameView, model: BidModel = activeBidModel): number {
+  const estimate = predictBidTricks(model, view.numPlayers, getBidFeatures(view));
+  return Math.max(0, Math.min(estimate, view.cardsPerPlayer));
+}
+
+/**
+ * Turn a trick estimate into a legal bid
+ *
+ * When the dealer hook bars the nearest bid, go the way the estimate leans.
+ * With no lean, bid under: it's easier to duck an extra trick than to win
+ * one more than the hand is worth.
+ */
+export function chooseBid(view: AIGameView, estimate: number): number {
+  const preferred = Math.max(0, Math.min(Math.round(estimate), view.cardsPerPlayer));
+  if (view.validBids.includes(preferred)) {
+    return preferred;
+  }
+
+  const below = view.validBids.includes(preferred - 1) ? preferred - 1 : null;
+  const above = view.validBids.includes(preferred + 1) ? preferred + 1 : null;
+
+  if (below === null) return above ?? view.validBids[0]!;
+  if (above === null) return below;
+  return estimate > preferred ? above : below;
+}
@@ -0,0 +1,13 @@
+import { AIStrategy } from './strategy.js';
+import { createMonteCarloStrategy, DEFAULT_MONTE_CARLO_OPTIONS } from './monte-carlo.js';
+
+/**
+ * Expert: Monte Carlo search - samples the hands it can't see and plays each
+ * option out with the real rules engine, so Whoopie trump changes and J-Trump
+ * are accounted for
+ */
+export const expertStrategy: AIStrategy = createMonteCarloStrategy({
+  name: 'expert',
+  description: 'Simulates the rest of the stanza and picks what scores best',
+  ...DEFAULT_MONTE_CARLO_OPTIONS,
+});
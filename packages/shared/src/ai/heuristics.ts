@@ -0,0 +1,131 @@
+import { Card, PlayedCard, Rank, RANK_VALUES, Suit } from '../types.js';
+import { isJoker, isSuitCard, isWhoopieCard } from '../cards.js';
+import { TrickState, addCardToTrick, resolveTrickWinner } from '../rules.js';
+import { TableKnowledge, couldHoldCard, getTableKnowledge } from '../table-knowledge.js';
+import { AIGameView } from './strategy.js';
+
+// ============================================================================
+// AI Heuristics (shared by the built-in strategies)
+// ============================================================================
+
+/**
+ * Rough card power for ordering: jokers, then Whoopie cards, then by rank
+ */
+export function getCardStrength(card: Card, whoopieRank: Rank | null): number {
+  if (isJoker(card)) return 100;
+  if (isWhoopieCard(card, whoopieRank)) return 50 + RANK_VALUES[card.rank];
+  return RANK_VALUES[card.rank];
+}
+
+export function getHighestCard(cards: Card[], whoopieRank: Rank | null): Card {
+  return cards.reduce((highest, card) =>
+    getCardStrength(card, whoopieRank) > getCardStrength(highest, whoopieRank) ? card : highest
+  );
+}
+
+export function getLowestCard(cards: Card[], whoopieRank: Rank | null): Card {
+  return cards.reduce((lowest, card) =>
+    getCardStrength(card, whoopieRank) < getCardStrength(lowest, whoopieRank) ? card : lowest
+  );
+}
+
+/**
+ * Estimate how many tricks a hand will take from its high cards and trumps
+ */
+export function estimateTricks(view: AIGameView): number {
+  let estimatedTricks = 0;
+
+  for (const card of view.hand) {
+    if (isJoker(card)) {
+      estimatedTricks += 0.9; // Jokers are very powerful
+    } else if (isWhoopieCard(card, view.whoopieRank)) {
+      estimatedTricks += 0.7;
+    } else if (card.suit === view.currentTrumpSuit) {
+      const value = RANK_VALUES[card.rank];
+      if (value >= 12) estimatedTricks += 0.8; // Q, K, A of trump
+      else if (value >= 10) estimatedTricks += 0.5;
+      else estimatedTricks += 0.2;
+    } else if (RANK_VALUES[card.rank] === 14) {
+      estimatedTricks += 0.4; // Aces
+    }
+  }
+
+  return estimatedTricks;
+}
+
+/**
+ * Round an estimate to the nearest bid the player is allowed to make
+ */
+export function getClosestValidBid(estimate: number, validBids: number[]): number {
+  const target = Math.round(estimate);
+  return validBids.reduce((closest, valid) =>
+    Math.abs(valid - target) < Math.abs(closest - target) ? valid : closest
+  );
+}
+
+/**
+ * Tricks this player still needs to make their bid (negative once over)
+ */
+export function getTricksNeeded(view: AIGameView): number {
+  return (view.bids[view.playerIndex] ?? 0) - (view.tricksTaken[view.playerIndex] ?? 0);
+}
+
+function isWinningLastCard(state: TrickState): boolean {
+  return resolveTrickWinner(state.trick, state.whoopieRank) === state.trick.length - 1;
+}
+
+function getTrickState(view: AIGameView): TrickState {
+  return {
+    trick: view.currentTrick,
+    trumpSuit: view.currentTrumpSuit,
+    whoopieRank: view.whoopieRank,
+    jTrumpActive: view.jTrumpActive,
+  };
+}
+
+/**
+ * Would this card be winning the current trick if played now?
+ * (Later players may still beat it.) A lead is always winning.
+ */
+export function wouldWinTrick(view: AIGameView, card: Card): boolean {
+  return isWinningLastCard(addCardToTrick(getTrickState(view), card, view.playerIndex));
+}
+
+/**
+ * Could a player still to play this trick beat this card with a card they
+ * might hold? Players are never given cards of a suit they've shown out of.
+ */
+export function couldBeOvertaken(view: AIGameView, knowledge: TableKnowledge, card: Card): boolean {
+  const afterCard = addCardToTrick(getTrickState(view), card, view.playerIndex);
+  const playersToCome = view.numPlayers - afterCard.trick.length;
+
+  for (let seat = 1; seat <= playersToCome; seat++) {
+    const playerIndex = (view.playerIndex + seat) % view.numPlayers;
+    const beaten = knowledge.unseenCards.some((unseen) =>
+      couldHoldCard(knowledge, playerIndex, unseen) &&
+      isWinningLastCard(addCardToTrick(afterCard, unseen, playerIndex))
+    );
+    if (beaten) return true;
+  }
+
+  return false;
+}
+
+/**
+ * What this seat knows from the tricks played so far
+ */
+export function getAITableKnowledge(view: AIGameView): TableKnowledge {
+  return getTableKnowledge({ ...view, jokerCount: view.rules.jokerCount });
+}
+
+/**
+ * Whether playing this card requires a Whoopie call
+ *
+ * A non-joker lead while the Whoopie rank is still undefined sets the rank,
+ * so it is itself a Whoopie card.
+ */
+export function isWhoopiePlay(view: AIGameView, card: Card): boolean {
+  if (!isSuitCard(card)) return false;
+  const definesRank = view.currentTrick.length === 0 && view.whoopieRank === null;
+  return definesRank || isWhoopieCard(card, view.whoopieRank);
+}
@@ -0,0 +1,204 @@
+import { Card, GameState, Rank, Suit } from '../types.js';
+import { RandomFn } from '../random.js';
+import { isJoker, isWhoopieCard } from '../cards.js';
+import { getLeadSuit } from '../rules.js';
+import { isPlayersTurn } from '../game-state.js';
+import { GameError } from '../errors.js';
+import { AIGameView, AIStrategy, BidRating, createAIGameView } from './strategy.js';
+import { estimateBidTricks } from './bidding.js';
+import {
+  couldBeOvertaken,
+  getAITableKnowledge,
+  getTricksNeeded,
+  wouldWinTrick,
+} from './heuristics.js';
+
+// ============================================================================
+// Coaching Hints
+// ============================================================================
+
+// Why a card counts as trump if it's played now
+export type TrumpReason =
+  | 'joker'                      // Jokers are always trump
+  | 'whoopie'                    // Whoopie cards are always trump
+  | 'definesWhoopie'             // Leading it sets the Whoopie rank and trump suit
+  | 'jokerLed'                   // A joker was led, so every card is trump this trick
+  | 'jTrumpLedSuit'              // J-Trump is active, so the suit led is trump
+  | 'trumpSuit';                 // It's in the trump suit
+
+export type HintReason =
+  | { type: 'handEstimate'; estimate: number }
+  | { type: 'playOuts'; deals: number; averageScore: number; nextBest: BidRating | null } // From the strategy's search
+  | { type: 'tableBids'; bidsSoFar: number; cardsPerPlayer: number }
+  | { type: 'dealerHook'; barredBid: number; cardsPerPlayer: number }
+  | { type: 'needTricks'; needed: number }
+  | { type: 'bidMade' }
+  | { type: 'mustFollow'; suit: Suit }
+  | { type: 'isTrump'; because: TrumpReason; suit: Suit | null; rank: Rank | null } // The card's suit and rank (null for jokers)
+  | { type: 'wins'; safe: boolean } // safe = nobody left to play can beat it
+  | { type: 'loses' };
+
+export type Hint =
+  | { type: 'bid'; bid: number; reasons: HintReason[] }
+  | { type: 'play'; card: Card; reasons: HintReason[] };
+
+/**
+ * Recommend a bid or card for a player, using the given strategy, with the
+ * reasons a new player would want to know
+ */
+export function getHint(
+  game: GameState,
+  playerIndex: number,
+  strategy: AIStrategy,
+  random: RandomFn = Math.random
+): Hint {
+  if (!isPlayersTurn(game, playerIndex)) {
+    throw new GameError('NOT_YOUR_TURN', 'Not your turn');
+  }
+
+  const view = createAIGameView(game, playerIndex);
+
+  if (game.phase === 'bidding') {
+    // A searching strategy's bid is explained by its own results, not the hand estimate
+    if (strategy.rateBids) {
+      const [best, nextBest] = strategy.rateBids(view, random);
+      const searched: HintReason = {
+        type: 'playOuts',
+        deals: best!.deals,
+        averageScore: roundToTenth(best!.averageScore),
+        nextBest: nextBest ? { ...nextBest, averageScore: roundToTenth(nextBest.averageScore) } : null,
+      };
+      return { type: 'bid', bid: best!.bid, reasons: [searched, ...explainTableBids(view)] };
+    }
+
+    const bid = strategy.bid(view, random);
+    return { type: 'bid', bid, reasons: [handEstimate(view), ...explainTableBids(view)] };
+  }
+
+  const card = strategy.play(view, random);
+  return { type: 'play', card, reasons: explainPlay(view, card) };
+}
+
+function handEstimate(view: AIGameView): HintReason {
+  return { type: 'handEstimate', estimate: roundToTenth(estimateBidTricks(view)) };
+}
+
+function explainTableBids(view: AIGameView): HintReason[] {
+  const reasons: HintReason[] = [];
+
+  const bidsSoFar = view.bids.reduce<number>((sum, bid) => sum + (bid ?? 0), 0);
+  if (view.bids.some((bid) => bid !== null)) {
+    reasons.push({ type: 'tableBids', bidsSoFar, cardsPerPlayer: view.cardsPerPlayer });
+  }
+
+  const barredBid = view.cardsPerPlayer - bidsSoFar;
+  if (barredBid >= 0 && !view.validBids.includes(barredBid)) {
+    reasons.push({ type: 'dealerHook', barredBid, cardsPerPlayer: view.cardsPerPlayer });
+  }
+
+  return reasons;
+}
+
+function explainPlay(view: AIGameView, card: Card): HintReason[] {
+  const reasons: HintReason[] = [];
+
+  const needed = getTricksNeeded(view);
+  reasons.push(needed > 0 ? { type: 'needTricks', needed } : { type: 'bidMade' });
+
+  const leadSuit = getLeadSuit(view.currentTrick);
+  if (leadSuit && view.validCards.length < view.hand.length) {
+    reasons.push({ type: 'mustFollow', suit: leadSuit });
+  }
+
+  const because = getTrumpReason(view, card);
+  if (because) {
+    reasons.push({
+      type: 'isTrump',
+      because,
+      suit: isJoker(card) ? null : card.suit,
+      rank: isJoker(card) ? null : card.rank,
+    });
+  }
+
+  reasons.push(
+    wouldWinTrick(view, card)
+      ? { type: 'wins', safe: !couldBeOvertaken(view, getAITableKnowledge(view), card) }
+      : { type: 'loses' }
+  );
+
+  return reasons;
+}
+
+function roundToTenth(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Why a card would be trump if played now, or null if it wouldn't be
+ */
+export function getTrumpReason(view: AIGameView, card: Card): TrumpReason | null {
+  const isLead = view.currentTrick.length === 0;
+
+  if (isJoker(card)) return 'joker';
+  if (isLead && view.whoopieRank === null) return 'definesWhoopie';
+  if (isWhoopieCard(card, view.whoopieRank)) return 'whoopie';
+
+  if (view.jTrumpActive) {
+    // Under J-Trump the suit led is trump for the trick
+    if (isLead) return 'jTrumpLedSuit';
+    const leadSuit = getLeadSuit(view.currentTrick);
+    if (leadSuit === null) return 'jokerLed';
+    return card.suit === leadSuit ? 'jTrumpLedSuit' : null;
+  }
+
+  return card.suit === view.currentTrumpSuit ? 'trumpSuit' : null;
+}
+
+/**
+ * One-line explanation of a hint reason for display
+ */
+export function describeHintReason(reason: HintReason): string {
+  switch (reason.type) {
+    case 'handEstimate':
+      return `Your hand looks good for about ${reason.estimate} tricks`;
+    case 'playOuts':
+      return reason.nextBest
+        ? `Played out on ${reason.deals} possible deals, this bid scored ${reason.averageScore} on average (next best: ${reason.nextBest.bid}, scoring ${reason.nextBest.averageScore})`
+        : `Played out on ${reason.deals} possible deals, this bid scored ${reason.averageScore} on average`;
+    case 'tableBids':
+      return `Earlier bids claim ${reason.bidsSoFar} of the ${reason.cardsPerPlayer} tricks`;
+    case 'dealerHook':
+      return `As dealer you can't bid ${reason.barredBid} - the bids can't add up to ${reason.cardsPerPlayer}`;
+    case 'needTricks':
+      return `You need ${reason.needed} more ${reason.needed === 1 ? 'trick' : 'tricks'} to make your bid`;
+    case 'bidMade':
+      return "You've made your bid - avoid taking more tricks";
+    case 'mustFollow':
+      return `You must follow ${reason.suit}`;
+    case 'isTrump':
+      return describeTrumpReason(reason);
+    case 'wins':
+      return reason.safe
+        ? 'This card wins the trick - nobody left can beat it'
+        : 'This card takes the lead, but a later player could still beat it';
+    case 'loses':
+      return "This card won't win the trick";
+  }
+}
+
+function describeTrumpReason(reason: Extract<HintReason, { type: 'isTrump' }>): string {
+  switch (reason.because) {
+    case 'joker':
+      return 'This card is trump because jokers are always trump';
+    case 'whoopie':
+      return `This card is trump because ${reason.rank}s are Whoopie cards`;
+    case 'definesWhoopie':
+      return `Leading this card makes ${reason.rank}s Whoopie and ${reason.suit} trump`;
+    case 'jokerLed':
+      return 'This card is trump because a joker was led - every card is trump this trick';
+    case 'jTrumpLedSuit':
+      return `This card is trump because J-Trump is active and ${reason.suit} is the suit led`;
+    case 'trumpSuit':
+      return `This card is trump because ${reason.suit} are trump`;
+  }
+}
@@ -0,0 +1,13 @@
+export * from './strategy.js';
+export * from './heuristics.js';
+export * from './registry.js';
+export { beginnerStrategy } from './beginner.js';
+export { intermediateStrategy, chooseFollowingCard } from './intermediate.js';
+export { expertStrategy } from './expert.js';
+export * from './monte-carlo.js';
+export * from './simulator.js';
+export * from './bidding.js';
+export * from './bid-training.js';
+export * from './hints.js';
+export * from './review.js';
+export * from './personalities.js';
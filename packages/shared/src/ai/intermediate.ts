@@ -0,0 +1,78 @@
+import { Card } from '../types.js';
+import { AIStrategy, AIGameView } from './strategy.js';
+import { chooseBid, estimateBidTricks } from './bidding.js';
+import {
+  couldBeOvertaken,
+  getAITableKnowledge,
+  getHighestCard,
+  getLowestCard,
+  getTricksNeeded,
+  isWhoopiePlay,
+  wouldWinTrick,
+} from './heuristics.js';
+
+/**
+ * Intermediate: bids from its hand, the table's bids and the dealer hook, with
+ * a little noise. Follows the trick. Wins with the cheapest card nobody left to
+ * play can beat (by the cards still out and the suits players have shown out
+ * of), otherwise the cheapest card that takes the lead. Ducks with the
+ * highest card that still loses.
+ */
+export const intermediateStrategy: AIStrategy = {
+  name: 'intermediate',
+  description: 'Takes tricks cheaply and ducks when it has what it bid',
+
+  bid(view, random) {
+    return chooseBid(view, estimateBidTricks(view) + (random() - 0.5));
+  },
+
+  play(view) {
+    const wantTrick = getTricksNeeded(view) > 0;
+
+    if (wantTrick) {
+      const knowledge = getAITableKnowledge(view);
+      const safeWinners = view.validCards.filter((card) =>
+        wouldWinTrick(view, card) && !couldBeOvertaken(view, knowledge, card)
+      );
+      if (safeWinners.length > 0) {
+        return getLowestCard(safeWinners, view.whoopieRank);
+      }
+    }
+
+    return chooseFollowingCard(view, wantTrick);
+  },
+
+  callWhoopie(view, card) {
+    return isWhoopiePlay(view, card);
+  },
+};
+
+/**
+ * Pick a card for the trick so far: the cheapest winner when trying to win,
+ * the highest loser when trying to lose
+ *
+ * Looks only at the current trick, so it's cheap enough for play-outs.
+ */
+export function chooseFollowingCard(view: AIGameView, wantTrick: boolean): Card {
+  const { validCards, whoopieRank } = view;
+
+  if (view.currentTrick.length === 0) {
+    return wantTrick
+      ? getHighestCard(validCards, whoopieRank)
+      : getLowestCard(validCards, whoopieRank);
+  }
+
+  const winners = validCards.filter((card) => wouldWinTrick(view, card));
+  const losers = validCards.filter((card) => !wouldWinTrick(view, card));
+
+  if (wantTrick) {
+    return winners.length > 0
+      ? getLowestCard(winners, whoopieRank)
+      : getLowestCard(validCards, whoopieRank);
+  }
+
+  // Forced to win anyway - spend the biggest card while it's harmless
+  return losers.length > 0
+    ? getHighestCard(losers, whoopieRank)
+    : getHighestCard(validCards, whoopieRank);
+}
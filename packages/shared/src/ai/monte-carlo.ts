@@ -0,0 +1,261 @@
+import { Card, GameState } from '../types.js';
+import { DEFAULT_GAME_SETTINGS } from '../constants.js';
+import { RandomFn } from '../random.js';
+import { shuffleDeck } from '../cards.js';
+import { continueGame, placeBid, playCard } from '../game-state.js';
+import { TableKnowledge, couldHoldCard } from '../table-knowledge.js';
+import { AIGameView, AIStrategy, readAIGameView } from './strategy.js';
+import {
+  getAITableKnowledge,
+  getTricksNeeded,
+  isWhoopiePlay,
+} from './heuristics.js';
+import { chooseFollowingCard } from './intermediate.js';
+import { chooseBid, estimateBidTricks } from './bidding.js';
+
+// ============================================================================
+// Monte Carlo Search (determinized play-outs)
+// ============================================================================
+
+export interface MonteCarloOptions {
+  name: string;
+  description: string;
+  timeBudgetMs: number;          // Stop sampling once a move has taken this long
+  maxSamples: number;            // Most hidden-hand deals to try per move
+  bidSpread: number;             // Bids more than this far from estimateBidTricks aren't tried
+  now?: () => number;            // Clock in ms (Date.now by default)
+}
+
+export const DEFAULT_MONTE_CARLO_OPTIONS = {
+  timeBudgetMs: 150,
+  maxSamples: 200,
+  bidSpread: 2,
+} as const;
+
+// Reshuffles tried before a deal gives up on honouring every void
+const VOID_DEAL_ATTEMPTS = 20;
+
+/**
+ * Deal the cards this player can't see to the other players at random
+ *
+ * Only unseen cards are dealt, matching how many cards each player still
+ * holds, and nobody is dealt a suit they've shown out of. Returns every
+ * hand, with this player's own hand in its seat.
+ */
+export function sampleHiddenHands(
+  view: AIGameView,
+  random: RandomFn,
+  knowledge: TableKnowledge = getAITableKnowledge(view)
+): Card[][] {
+  const handSizes = Array.from({ length: view.numPlayers }, (_, i) => {
+    if (i === view.playerIndex) return 0;
+    const playedThisTrick = view.currentTrick.some((played) => played.playerIndex === i) ? 1 : 0;
+    return view.cardsPerPlayer - view.completedTricks.length - playedThisTrick;
+  });
+  // Deal to the most constrained players first
+  const dealOrder = handSizes
+    .map((_, i) => i)
+    .sort((a, b) => (knowledge.voids[b]?.length ?? 0) - (knowledge.voids[a]?.length ?? 0));
+
+  for (let attempt = 0; attempt <= VOID_DEAL_ATTEMPTS; attempt++) {
+    const honourVoids = attempt < VOID_DEAL_ATTEMPTS;
+    let pool = shuffleDeck(knowledge.unseenCards, random);
+    const hands: Card[][] = handSizes.map(() => []);
+
+    for (const i of dealOrder) {
+      const allowed = honourVoids ? pool.filter((card) => couldHoldCard(knowledge, i, card)) : pool;
+      const hand = allowed.slice(0, handSizes[i]);
+      hands[i] = hand;
+      pool = pool.filter((card) => !hand.includes(card));
+    }
+
+    if (hands.every((hand, i) => hand.length === handSizes[i])) {
+      hands[view.playerIndex] = [...view.hand];
+      return hands;
+    }
+  }
+
+  throw new Error('Not enough unseen cards to deal');
+}
+
+/**
+ * Rebuild a playable game from a view and a guess at the hidden hands
+ */
+function createDeterminizedGame(view: AIGameView, hands: Card[][]): GameState {
+  return {
+    id: 'simulation',
+    createdAt: 0,
+    hostId: 'sim-0',
+    settings: { ...DEFAULT_GAME_SETTINGS, rules: view.rules },
+    phase: view.bids[view.playerIndex] === null ? 'bidding' : 'playing',
+    players: Array.from({ length: view.numPlayers }, (_, i) => ({
+      type: 'ai' as const,
+      id: `sim-${i}`,
+      name: `Sim ${i}`,
+      difficulty: 'intermediate' as const,
+    })),
+    scorekeeperIndex: null,
+    pendingPlayers: [],
+    scores: [...view.scores],
+    stanza: {
+      stanzaNumber: view.stanzaNumber,
+      cardsPerPlayer: view.cardsPerPlayer,
+      direction: 'up',
+      dealerIndex: view.dealerIndex,
+      whoopieDefiningCard: view.whoopieDefiningCard,
+      whoopieRank: view.whoopieRank,
+      initialTrumpSuit: view.currentTrumpSuit,
+      currentTrumpSuit: view.currentTrumpSuit,
+      jTrumpActive: view.jTrumpActive,
+      bids: [...view.bids],
+      currentTrickNumber: view.completedTricks.length + 1,
+      currentTrick: [...view.currentTrick],
+      completedTricks: [...view.completedTricks],
+      tricksTaken: [...view.tricksTaken],
+      missedWhoopieCalls: new Array(view.numPlayers).fill(0),
+      hands,
+      currentPlayerIndex: view.playerIndex,
+    },
+    completedStanzas: [],
+    truncatedAverage: 0,
+    hintsUsed: {},
+    rngSeed: 0,
+    rngState: 0,
+  };
+}
+
+/**
+ * Finish the stanza with every player on the intermediate heuristics and
+ * return what it scored for one player
+ */
+function playOut(game: GameState, playerIndex: number): number {
+  let current = game;
+
+  while (current.phase !== 'stanzaEnd') {
+    if (current.phase === 'trickEnd') {
+      current = continueGame(current).game;
+      continue;
+    }
+
+    const index = current.stanza!.currentPlayerIndex;
+    const view = readAIGameView(current, index);
+
+    if (current.phase === 'bidding') {
+      current = placeBid(current, index, chooseBid(view, estimateBidTricks(view))).game;
+    } else {
+      const card = chooseFollowingCard(view, getTricksNeeded(view) > 0);
+      current = playCard(current, index, card, isWhoopiePlay(view, card)).game;
+    }
+  }
+
+  return current.completedStanzas[current.completedStanzas.length - 1]!.scoreChanges[playerIndex]!;
+}
+
+/**
+ * Average stanza score of each candidate move for the view's player, and how
+ * many deals the averages are over
+ *
+ * Every candidate is played out on the same deals of the hidden cards.
+ * keepSampling is checked between deals, so there is always at least one.
+ */
+export function averagePlayOutScores<T>(
+  view: AIGameView,
+  random: RandomFn,
+  candidates: T[],
+  apply: (game: GameState, candidate: T) => GameState,
+  maxSamples: number,
+  keepSampling: () => boolean = () => true
+): { averages: number[]; samples: number } {
+  const totals = candidates.map(() => 0);
+  const knowledge = getAITableKnowledge(view);
+  let samples = 0;
+
+  while (samples < maxSamples && (samples === 0 || keepSampling())) {
+    const game = createDeterminizedGame(view, sampleHiddenHands(view, random, knowledge));
+    candidates.forEach((candidate, i) => {
+      totals[i]! += playOut(apply(game, candidate), view.playerIndex);
+    });
+    samples++;
+  }
+
+  return { averages: totals.map((total) => total / samples), samples };
+}
+
+/**
+ * Bids worth searching: valid bids within bidSpread of the estimate
+ */
+export function getCandidateBids(view: AIGameView, bidSpread: number): number[] {
+  const estimate = estimateBidTricks(view);
+  const nearby = view.validBids.filter((bid) => Math.abs(bid - estimate) <= bidSpread);
+  return nearby.length > 0 ? nearby : view.validBids;
+}
+
+/**
+ * Create a strategy that picks the bid or card with the best average stanza
+ * score over sampled deals of the hidden cards
+ *
+ * The time budget is checked between deals, so each move is averaged over
+ * at least one deal.
+ */
+export function createMonteCarloStrategy(options: MonteCarloOptions): AIStrategy {
+  const { timeBudgetMs, maxSamples, bidSpread, now = Date.now } = options;
+
+  function search<T>(
+    view: AIGameView,
+    random: RandomFn,
+    candidates: T[],
+    apply: (game: GameState, candidate: T) => GameState
+  ): { averages: number[]; samples: number } {
+    const deadline = now() + timeBudgetMs;
+    return averagePlayOutScores(view, random, candidates, apply, maxSamples, () =>
+      now() < deadline
+    );
+  }
+
+  function pickBest<T>(
+    view: AIGameView,
+    random: RandomFn,
+    candidates: T[],
+    apply: (game: GameState, candidate: T) => GameState
+  ): T {
+    if (candidates.length === 1) {
+      return candidates[0]!;
+    }
+
+    const { averages } = search(view, random, candidates, apply);
+    const best = averages.indexOf(Math.max(...averages));
+    return candidates[best]!;
+  }
+
+  const applyBid = (view: AIGameView) => (game: GameState, bid: number) =>
+    placeBid(game, view.playerIndex, bid).game;
+
+  return {
+    name: options.name,
+    description: options.description,
+
+    bid(view, random) {
+      return pickBest(view, random, getCandidateBids(view, bidSpread), applyBid(view));
+    },
+
+    rateBids(view, random) {
+      const candidates = getCandidateBids(view, bidSpread);
+      const { averages, samples } = search(view, random, candidates, applyBid(view));
+
+      // Stable sort, so ties keep the order bid() would break them in
+      return candidates
+        .map((bid, i) => ({ bid, averageScore: averages[i]!, deals: samples }))
+        .sort((a, b) => b.averageScore - a.averageScore);
+    },
+
+    play(view, random) {
+      return pickBest(view, random, view.validCards, (game, card) =>
+        playCard(game, view.playerIndex, card, isWhoopiePlay(view, card)).game
+      );
+    },
+
+    callWhoopie(view, card) {
+      return isWhoopiePlay(view, card);
+    },
+  };
+}
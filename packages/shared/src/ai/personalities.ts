@@ -0,0 +1,101 @@
+import { AIPersonalityName, AIPlayer } from '../types.js';
+import { AIStrategy } from './strategy.js';
+import { getAIStrategy } from './registry.js';
+import { getClosestValidBid, getHighestCard } from './heuristics.js';
+
+// ============================================================================
+// AI Personalities (kitchen-table habits on top of a strategy)
+// ============================================================================
+
+export interface AIPersonality {
+  name: string;                  // The bot's name at the table
+  avatar: string;                // Emoji shown next to the name
+  description: string;
+  bidBias: number;               // Chance of bidding one more (positive) or one fewer (negative) than the strategy
+  forgetWhoopieChance: number;   // Chance of forgetting to call Whoopie (takes the real penalty)
+  dumpHighCardChance: number;    // Chance of throwing its highest legal card instead of the strategy's pick
+}
+
+export const AI_PERSONALITIES: Record<AIPersonalityName, AIPersonality> = {
+  shark: {
+    name: 'Sharp Sam',
+    avatar: '🦈',
+    description: 'Plays it straight and never forgets a Whoopie',
+    bidBias: 0,
+    forgetWhoopieChance: 0,
+    dumpHighCardChance: 0,
+  },
+  gambler: {
+    name: 'Lucky Lou',
+    avatar: '🎲',
+    description: 'Bids high and hopes the cards come',
+    bidBias: 0.6,
+    forgetWhoopieChance: 0.05,
+    dumpHighCardChance: 0.1,
+  },
+  cautious: {
+    name: 'Prudent Pat',
+    avatar: '🐢',
+    description: 'Bids low and takes no chances',
+    bidBias: -0.6,
+    forgetWhoopieChance: 0.02,
+    dumpHighCardChance: 0,
+  },
+  forgetful: {
+    name: 'Grandpa Joe',
+    avatar: '👴',
+    description: 'Knows the game, but often forgets to call Whoopie',
+    bidBias: 0,
+    forgetWhoopieChance: 0.35,
+    dumpHighCardChance: 0.1,
+  },
+  showoff: {
+    name: 'Flashy Fran',
+    avatar: '💃',
+    description: 'Loves slapping down big cards, needed or not',
+    bidBias: 0.2,
+    forgetWhoopieChance: 0.05,
+    dumpHighCardChance: 0.4,
+  },
+};
+
+/**
+ * Layer a personality's habits on a strategy
+ *
+ * The strategy still decides; the personality sometimes shifts its bid by
+ * one, throws a high card instead, or forgets to call Whoopie.
+ */
+export function withPersonality(strategy: AIStrategy, personality: AIPersonality): AIStrategy {
+  return {
+    name: strategy.name,
+    description: strategy.description,
+
+    bid(view, random) {
+      const bid = strategy.bid(view, random);
+      if (personality.bidBias === 0 || random() >= Math.abs(personality.bidBias)) {
+        return bid;
+      }
+      return getClosestValidBid(bid + Math.sign(personality.bidBias), view.validBids);
+    },
+
+    play(view, random) {
+      if (random() < personality.dumpHighCardChance) {
+        return getHighestCard(view.validCards, view.whoopieRank);
+      }
+      return strategy.play(view, random);
+    },
+
+    callWhoopie(view, card, random) {
+      return strategy.callWhoopie(view, card, random) && random() >= personality.forgetWhoopieChance;
+    },
+  };
+}
+
+/**
+ * The strategy an AI player decides with: its registered strategy (or the
+ * one for its difficulty), with its personality's habits if it has one
+ */
+export function getAIPlayerStrategy(player: AIPlayer): AIStrategy {
+  const strategy = getAIStrategy(player.strategy ?? player.difficulty);
+  return player.personality ? withPersonality(strategy, AI_PERSONALITIES[player.personality]) : strategy;
+}
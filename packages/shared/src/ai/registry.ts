@@ -0,0 +1,38 @@
+import { AIStrategy } from './strategy.js';
+import { beginnerStrategy } from './beginner.js';
+import { intermediateStrategy } from './intermediate.js';
+import { expertStrategy } from './expert.js';
+
+// ============================================================================
+// Strategy Registry
+// ============================================================================
+
+// Built-in strategies are registered under the AIDifficulty they implement
+const strategies = new Map<string, AIStrategy>(
+  [beginnerStrategy, intermediateStrategy, expertStrategy].map((s) => [s.name, s])
+);
+
+/**
+ * Register a strategy by name, replacing any strategy already using that name
+ */
+export function registerAIStrategy(strategy: AIStrategy): void {
+  strategies.set(strategy.name, strategy);
+}
+
+/**
+ * Look up a registered strategy
+ */
+export function getAIStrategy(name: string): AIStrategy {
+  const strategy = strategies.get(name);
+  if (!strategy) {
+    throw new Error(`Unknown AI strategy: ${name}`);
+  }
+  return strategy;
+}
+
+/**
+ * Names of every registered strategy
+ */
+export function getAIStrategyNames(): string[] {
+  return [...strategies.keys()];
+}
@@ -0,0 +1,264 @@
+import { Card, CompletedStanzaRecord, GameState, Player } from '../types.js';
+import { RandomFn, createSeededRandom } from '../random.js';
+import { cardsEqual } from '../cards.js';
+import { getFirstBidderIndex, getInitialTrumpFromDefiningCard } from '../rules.js';
+import { continueGame, placeBid, playCard } from '../game-state.js';
+import { getDealtHands } from '../double-dummy.js';
+import { GameError } from '../errors.js';
+import { AIGameView, readAIGameView } from './strategy.js';
+import { isWhoopiePlay } from './heuristics.js';
+import {
+  DEFAULT_MONTE_CARLO_OPTIONS,
+  averagePlayOutScores,
+  getCandidateBids,
+} from './monte-carlo.js';
+
+// ============================================================================
+// Post-Game Review ("blunder report")
+// ============================================================================
+
+// Deals sampled for each reviewed decision
+export const DEFAULT_REVIEW_SAMPLES = 20;
+
+// Most play-outs (deals x options) for one decision - a long game's early
+// leads have a dozen options, so they're sampled on fewer deals
+export const MAX_REVIEW_PLAY_OUTS = 24;
+
+// Expected points lost at which a decision counts as a blunder
+export const BLUNDER_THRESHOLD = 1;
+
+export type ReviewedDecision =
+  | { type: 'bid'; bid: number; bestBid: number; expectedLoss: number }
+  | { type: 'play'; trickNumber: number; card: Card; bestCard: Card; expectedLoss: number };
+
+export interface StanzaReview {
+  stanzaNumber: number;
+  cardsPerPlayer: number;
+  bid: number;
+  tricksTaken: number;
+  scoreChange: number;
+  decisions: ReviewedDecision[]; // Only decisions with more than one option
+  expectedLoss: number;
+}
+
+export interface PlayerReview {
+  playerId: string;
+  stanzas: StanzaReview[];
+  expectedLoss: number;
+  blunders: number;
+}
+
+/**
+ * Review every bid and card a player chose in the completed stanzas
+ *
+ * Each decision is replayed from the stanza's trick history and compared
+ * with the Monte Carlo search, which sees only what the player saw. The
+ * expected loss is how many points the choice scored below the best option,
+ * averaged over the same sampled deals. Seeded from the game, so reviewing
+ * a game twice gives the same report.
+ */
+export function reviewPlayer(
+  game: GameState,
+  playerId: string,
+  samples: number = DEFAULT_REVIEW_SAMPLES,
+  random: RandomFn = createSeededRandom(game.rngSeed).random
+): PlayerReview {
+  const steps = reviewPlayerInSteps(game, playerId, samples, random);
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+  }
+}
+
+/**
+ * reviewPlayer one decision at a time: the generator yields after each
+ * reviewed decision and returns the review, so a server can give other work
+ * a turn between decisions (a long game's review takes seconds)
+ */
+export function* reviewPlayerInSteps(
+  game: GameState,
+  playerId: string,
+  samples: number = DEFAULT_REVIEW_SAMPLES,
+  random: RandomFn = createSeededRandom(game.rngSeed).random
+): Generator<void, PlayerReview, void> {
+  if (!game.players.some((p) => p.id === playerId)) {
+    throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in game');
+  }
+
+  const stanzas: StanzaReview[] = [];
+  for (const record of game.completedStanzas) {
+    const seat = record.playerIds.indexOf(playerId);
+    if (seat !== -1) {
+      stanzas.push(yield* reviewStanza(game, record, seat, samples, random));
+    }
+  }
+
+  const decisions = stanzas.flatMap((stanza) => stanza.decisions);
+
+  return {
+    playerId,
+    stanzas,
+    expectedLoss: roundLoss(decisions.reduce((sum, decision) => sum + decision.expectedLoss, 0)),
+    blunders: decisions.filter((decision) => decision.expectedLoss >= BLUNDER_THRESHOLD).length,
+  };
+}
+
+function* reviewStanza(
+  game: GameState,
+  record: CompletedStanzaRecord,
+  seat: number,
+  samples: number,
+  random: RandomFn
+): Generator<void, StanzaReview, void> {
+  let current = createStanzaReplay(game, record);
+  const decisions: ReviewedDecision[] = [];
+
+  while (current.phase !== 'stanzaEnd') {
+    if (current.phase === 'trickEnd') {
+      current = continueGame(current).game;
+      continue;
+    }
+
+    const stanza = current.stanza!;
+    const index = stanza.currentPlayerIndex;
+
+    if (current.phase === 'bidding') {
+      const bid = record.bids[index]!;
+      if (index === seat) {
+        const decision = reviewBid(readAIGameView(current, index), bid, samples, random);
+        if (decision) decisions.push(decision);
+        yield;
+      }
+      current = placeBid(current, index, bid).game;
+    } else {
+      const trick = record.tricks[stanza.completedTricks.length]!;
+      const { card } = trick.cards.find((played) => played.playerIndex === index)!;
+      if (index === seat) {
+        const decision = reviewPlay(readAIGameView(current, index), card, samples, random);
+        if (decision) decisions.push(decision);
+        yield;
+      }
+      // Whoopie calls aren't reviewed, so every replayed card is called
+      current = playCard(current, index, card, true).game;
+    }
+  }
+
+  return {
+    stanzaNumber: record.stanzaNumber,
+    cardsPerPlayer: record.cardsPerPlayer,
+    bid: record.bids[seat]!,
+    tricksTaken: record.tricksTaken[seat]!,
+    scoreChange: record.scoreChanges[seat]!,
+    decisions,
+    expectedLoss: roundLoss(decisions.reduce((sum, decision) => sum + decision.expectedLoss, 0)),
+  };
+}
+
+function reviewBid(
+  view: AIGameView,
+  bid: number,
+  samples: number,
+  random: RandomFn
+): ReviewedDecision | null {
+  if (view.validBids.length <= 1) {
+    return null;
+  }
+
+  const candidates = getCandidateBids(view, DEFAULT_MONTE_CARLO_OPTIONS.bidSpread);
+  if (!candidates.includes(bid)) {
+    candidates.push(bid);
+  }
+
+  const chosenIndex = candidates.indexOf(bid);
+  const { best, expectedLoss } = compareChoice(view, random, candidates, chosenIndex, samples,
+    (game, candidate) => placeBid(game, view.playerIndex, candidate).game
+  );
+  return { type: 'bid', bid, bestBid: best, expectedLoss };
+}
+
+function reviewPlay(
+  view: AIGameView,
+  card: Card,
+  samples: number,
+  random: RandomFn
+): ReviewedDecision | null {
+  if (view.validCards.length <= 1) {
+    return null;
+  }
+
+  const chosenIndex = view.validCards.findIndex((candidate) => cardsEqual(candidate, card));
+  const { best, expectedLoss } = compareChoice(view, random, view.validCards, chosenIndex, samples,
+    (game, candidate) => playCard(game, view.playerIndex, candidate, isWhoopiePlay(view, candidate)).game
+  );
+  return { type: 'play', trickNumber: view.completedTricks.length + 1, card, bestCard: best, expectedLoss };
+}
+
+/**
+ * Score the chosen candidate against the best one on the same deals
+ * (ties go to the choice that was made)
+ */
+function compareChoice<T>(
+  view: AIGameView,
+  random: RandomFn,
+  candidates: T[],
+  chosenIndex: number,
+  samples: number,
+  apply: (game: GameState, candidate: T) => GameState
+): { best: T; expectedLoss: number } {
+  const cappedSamples = Math.max(1, Math.min(samples, Math.floor(MAX_REVIEW_PLAY_OUTS / candidates.length)));
+  const { averages } = averagePlayOutScores(view, random, candidates, apply, cappedSamples);
+  const bestScore = Math.max(...averages);
+  const chosenScore = averages[chosenIndex]!;
+
+  if (chosenScore >= bestScore) {
+    return { best: candidates[chosenIndex]!, expectedLoss: 0 };
+  }
+
+  return {
+    best: candidates[averages.indexOf(bestScore)]!,
+    expectedLoss: roundLoss(bestScore - chosenScore),
+  };
+}
+
+/**
+ * Rebuild a completed stanza at its first bid
+ */
+function createStanzaReplay(game: GameState, record: CompletedStanzaRecord): GameState {
+  const numPlayers = record.playerIds.length;
+  const players = record.playerIds.map((id): Player =>
+    game.players.find((p) => p.id === id) ?? { type: 'ai', id, name: 'Former player', difficulty: 'intermediate' }
+  );
+  const { trumpSuit, whoopieRank, jTrumpActive } = getInitialTrumpFromDefiningCard(record.whoopieDefiningCard);
+
+  return {
+    ...game,
+    phase: 'bidding',
+    players,
+    pendingPlayers: [],
+    scores: [...record.startingScores],
+    stanza: {
+      stanzaNumber: record.stanzaNumber,
+      cardsPerPlayer: record.cardsPerPlayer,
+      direction: 'up',
+      dealerIndex: record.dealerIndex,
+      whoopieDefiningCard: record.whoopieDefiningCard,
+      whoopieRank,
+      initialTrumpSuit: trumpSuit,
+      currentTrumpSuit: trumpSuit,
+      jTrumpActive,
+      bids: new Array(numPlayers).fill(null),
+      currentTrickNumber: 1,
+      currentTrick: [],
+      completedTricks: [],
+      tricksTaken: new Array(numPlayers).fill(0),
+      missedWhoopieCalls: new Array(numPlayers).fill(0),
+      hands: getDealtHands(record),
+      currentPlayerIndex: getFirstBidderIndex(record.dealerIndex, numPlayers),
+    },
+    completedStanzas: game.completedStanzas.slice(0, record.stanzaNumber - 1),
+  };
+}
+
+function roundLoss(loss: number): number {
+  return Math.round(loss * 10) / 10;
+}
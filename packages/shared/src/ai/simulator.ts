@@ -0,0 +1,289 @@
+import { AIPlayer, Card, GameAction, GameEvent, GameLog, GameSettings, GameState } from '../types.js';
+import { createSeededRandom } from '../random.js';
+import { cardToString } from '../cards.js';
+import { calculateBidSuccessRate, calculateRankings } from '../scoring.js';
+import { addPlayer, createGame } from '../game-state.js';
+import { applyGameAction, createGameLog } from '../game-log.js';
+import { createAIGameView } from './strategy.js';
+import { getAIStrategy } from './registry.js';
+
+// ============================================================================
+// Self-Play Simulator
+// ============================================================================
+
+// A game that takes more steps than this is assumed to be stuck
+const MAX_STEPS_PER_GAME = 100_000;
+
+export interface SimulatedGame {
+  seed: number;
+  strategies: string[];          // Strategy name per seat
+  finalScores: number[];
+  rankings: number[];            // 1 = first, ties share a rank
+  stanzas: number;
+  bidsMade: number[];            // Stanzas each seat made its bid exactly
+  jTrumpStanzas: number;         // Stanzas where J-Trump was active at some point
+  whoopiePlays: number;          // Whoopie cards played (each one switches trump)
+  log?: GameLog;                 // Every action from the start, when asked for
+}
+
+export interface SimulationFailure {
+  seed: number;
+  strategies: string[];
+  error: string;
+}
+
+/**
+ * Play one complete game between registered strategies, with no delays
+ *
+ * The seed fixes the deal and every AI decision (Monte Carlo strategies
+ * are only reproducible when they aren't cut short by a time budget).
+ * Throws if a strategy or the rules engine breaks an invariant.
+ * With recordLog, the game comes back with its log (e.g. for bid training).
+ */
+export function simulateGame(
+  strategies: string[],
+  seed: number,
+  settings: Partial<GameSettings> = {},
+  recordLog: boolean = false
+): SimulatedGame {
+  const random = createSeededRandom(seed).random;
+  const seats = strategies.map((name) => getAIStrategy(name));
+
+  let game = createGame('sim-0', { maxPlayers: Math.max(strategies.length, 2), ...settings }, seed);
+  strategies.forEach((name, i) => {
+    // The strategy name decides how this seat plays; difficulty is just a label here
+    const player: AIPlayer = { type: 'ai', id: `sim-${i}`, name: `${name} ${i + 1}`, difficulty: 'expert', strategy: name };
+    game = addPlayer(game, player).game;
+  });
+
+  const initialState = game;
+  const actions: GameAction[] = [];
+  const apply = (action: GameAction) => {
+    if (recordLog) actions.push(action);
+    return applyGameAction(game, action);
+  };
+
+  let result = apply({ type: 'startGame' });
+  const stats = { bidsMade: strategies.map(() => 0), jTrumpStanzas: 0, whoopiePlays: 0 };
+  let jTrumpThisStanza = false;
+
+  for (let step = 0; step < MAX_STEPS_PER_GAME; step++) {
+    game = result.game;
+
+    for (const event of result.events) {
+      if (event.type === 'stanzaStarted') {
+        jTrumpThisStanza = event.stanza.jTrumpActive;
+      } else if (event.type === 'cardPlayed') {
+        if (event.wasWhoopie) stats.whoopiePlays++;
+        if (event.wasScramble) jTrumpThisStanza = true;
+      } else if (event.type === 'stanzaCompleted') {
+        if (jTrumpThisStanza) stats.jTrumpStanzas++;
+      }
+    }
+
+    const violation = checkInvariants(game, result.events);
+    if (violation) {
+      throw new Error(`Invariant violated: ${violation}`);
+    }
+
+    if (game.phase === 'gameEnd') {
+      for (const record of game.completedStanzas) {
+        record.bids.forEach((bid, i) => {
+          if (bid === record.tricksTaken[i]) stats.bidsMade[i]!++;
+        });
+      }
+      return {
+        seed,
+        strategies,
+        finalScores: game.scores,
+        rankings: calculateRankings(game.scores),
+        stanzas: game.completedStanzas.length,
+        ...stats,
+        // Self-play has no wall clock, so entries are timestamped 0
+        log: recordLog
+          ? { ...createGameLog(initialState), entries: actions.map((action, seq) => ({ seq, timestamp: 0, action })) }
+          : undefined,
+      };
+    }
+
+    const playerIndex = game.stanza?.currentPlayerIndex ?? -1;
+    const strategy = seats[playerIndex];
+
+    switch (game.phase) {
+      case 'bidding':
+        result = apply({ type: 'placeBid', playerIndex, bid: strategy!.bid(createAIGameView(game, playerIndex), random) });
+        break;
+      case 'playing': {
+        const view = createAIGameView(game, playerIndex);
+        const card = strategy!.play(view, random);
+        result = apply({ type: 'playCard', playerIndex, card, calledWhoopie: strategy!.callWhoopie(view, card, random) });
+        break;
+      }
+      case 'trickEnd':
+      case 'stanzaEnd':
+        result = apply({ type: 'continueGame' });
+        break;
+      default:
+        throw new Error(`Unexpected phase: ${game.phase}`);
+    }
+  }
+
+  throw new Error(`Game did not finish within ${MAX_STEPS_PER_GAME} steps`);
+}
+
+/**
+ * Check a game for states the rules should never allow
+ * Returns a description of the first problem found, or null
+ */
+export function checkInvariants(game: GameState, events: GameEvent[] = []): string | null {
+  const numPlayers = game.players.length;
+  if (game.scores.length !== numPlayers) {
+    return `${game.scores.length} scores for ${numPlayers} players`;
+  }
+
+  const stanza = game.stanza;
+  if (!stanza) return null;
+
+  if (stanza.currentPlayerIndex < 0 || stanza.currentPlayerIndex >= numPlayers) {
+    return `current player ${stanza.currentPlayerIndex} is not at the table`;
+  }
+
+  // Every dealt card is in exactly one place: a hand or a played trick
+  const inTrick = game.phase === 'playing' ? stanza.currentTrick : [];
+  const cards: Card[] = [
+    ...stanza.hands.flat(),
+    ...stanza.completedTricks.flatMap((trick) => trick.cards.map((played) => played.card)),
+    ...inTrick.map((played) => played.card),
+  ];
+  if (cards.length !== stanza.cardsPerPlayer * numPlayers) {
+    return `${cards.length} cards in play, expected ${stanza.cardsPerPlayer * numPlayers}`;
+  }
+  const names = [...cards, ...(stanza.whoopieDefiningCard ? [stanza.whoopieDefiningCard] : [])].map(cardToString);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    return `${duplicate} appears twice`;
+  }
+
+  const tricksWon = stanza.tricksTaken.reduce((sum, n) => sum + n, 0);
+  if (tricksWon !== stanza.completedTricks.length) {
+    return `${tricksWon} tricks taken but ${stanza.completedTricks.length} completed`;
+  }
+
+  const bids = stanza.bids;
+  if (
+    game.settings.rules.dealerHook &&
+    bids.every((bid) => bid !== null) &&
+    bids.reduce<number>((sum, bid) => sum + bid!, 0) === stanza.cardsPerPlayer
+  ) {
+    return `dealer hook broken: bids total ${stanza.cardsPerPlayer}`;
+  }
+
+  const completed = events.find((event) => event.type === 'stanzaCompleted');
+  if (completed?.type === 'stanzaCompleted') {
+    if (tricksWon !== stanza.cardsPerPlayer) {
+      return `stanza ended after ${tricksWon} of ${stanza.cardsPerPlayer} tricks`;
+    }
+    if (completed.newScores.some((score, i) => score !== game.scores[i])) {
+      return 'scores do not match the stanza result';
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Tournaments
+// ============================================================================
+
+export interface TournamentOptions {
+  strategies: string[];          // Strategy name per seat (names may repeat)
+  games: number;
+  seed: number;                  // Game n is played with seed + n
+  settings?: Partial<GameSettings>;
+}
+
+export interface StrategyReport {
+  name: string;
+  seats: number;                 // Seats played across all finished games
+  wins: number;                  // Finished first (ties count for everyone tied)
+  winRate: number;
+  averageScore: number;
+  bidSuccessRate: number;        // Stanzas where the bid was made exactly
+}
+
+export interface TournamentReport {
+  games: number;
+  completed: number;
+  stanzas: number;
+  strategies: StrategyReport[];
+  jTrumpStanzaRate: number;      // Share of stanzas where J-Trump came into play
+  whoopiePlaysPerStanza: number;
+  failures: SimulationFailure[];
+}
+
+/**
+ * Play many games between strategies and summarize how each did
+ *
+ * Seats rotate every game so no strategy keeps the same position. A game
+ * that throws is recorded as a failure with its seed and seating, and the
+ * tournament carries on.
+ */
+export function runTournament(options: TournamentOptions): TournamentReport {
+  const { strategies, games, seed, settings = {} } = options;
+  const totals = new Map<string, { seats: number; wins: number; score: number; stanzas: number; made: number }>();
+  for (const name of strategies) {
+    getAIStrategy(name); // Fail fast on unknown names
+    totals.set(name, { seats: 0, wins: 0, score: 0, stanzas: 0, made: 0 });
+  }
+
+  const failures: SimulationFailure[] = [];
+  let completed = 0;
+  let stanzas = 0;
+  let jTrumpStanzas = 0;
+  let whoopiePlays = 0;
+
+  for (let n = 0; n < games; n++) {
+    const gameSeed = (seed + n) >>> 0;
+    const shift = n % strategies.length;
+    const seating = [...strategies.slice(shift), ...strategies.slice(0, shift)];
+
+    let result: SimulatedGame;
+    try {
+      result = simulateGame(seating, gameSeed, settings);
+    } catch (error) {
+      failures.push({ seed: gameSeed, strategies: seating, error: (error as Error).message });
+      continue;
+    }
+
+    completed++;
+    stanzas += result.stanzas;
+    jTrumpStanzas += result.jTrumpStanzas;
+    whoopiePlays += result.whoopiePlays;
+
+    seating.forEach((name, i) => {
+      const total = totals.get(name)!;
+      total.seats++;
+      total.score += result.finalScores[i]!;
+      total.stanzas += result.stanzas;
+      total.made += result.bidsMade[i]!;
+      if (result.rankings[i] === 1) total.wins++;
+    });
+  }
+
+  return {
+    games,
+    completed,
+    stanzas,
+    strategies: [...totals].map(([name, total]) => ({
+      name,
+      seats: total.seats,
+      wins: total.wins,
+      winRate: total.seats === 0 ? 0 : total.wins / total.seats,
+      averageScore: total.seats === 0 ? 0 : total.score / total.seats,
+      bidSuccessRate: calculateBidSuccessRate(total.made, total.stanzas),
+    })),
+    jTrumpStanzaRate: stanzas === 0 ? 0 : jTrumpStanzas / stanzas,
+    whoopiePlaysPerStanza: stanzas === 0 ? 0 : whoopiePlays / stanzas,
+    failures,
+  };
+}
@@ -0,0 +1,127 @@
+import {
+  Card,
+  CompletedTrick,
+  GameState,
+  HouseRules,
+  PlayedCard,
+  Rank,
+  Suit,
+} from '../types.js';
+import { RandomFn } from '../random.js';
+import { getValidBids, getValidCards } from '../rules.js';
+
+// ============================================================================
+// AI Strategy
+// ============================================================================
+
+/**
+ * Everything an AI is allowed to know when it makes a decision: its own hand
+ * and the public table. Other hands and the RNG state are never included.
+ */
+export interface AIGameView {
+  readonly playerIndex: number;
+  readonly numPlayers: number;
+  readonly rules: HouseRules;
+  readonly scores: number[];
+
+  readonly stanzaNumber: number;
+  readonly cardsPerPlayer: number;
+  readonly dealerIndex: number;
+  readonly whoopieDefiningCard: Card | null;
+  readonly whoopieRank: Rank | null;
+  readonly currentTrumpSuit: Suit | null;
+  readonly jTrumpActive: boolean;
+
+  readonly hand: Card[];
+  readonly bids: (number | null)[];
+  readonly tricksTaken: number[];
+  readonly currentTrick: PlayedCard[];
+  readonly completedTricks: CompletedTrick[];
+
+  readonly validBids: number[];
+  readonly validCards: Card[];
+}
+
+/**
+ * A bot. Strategies are pure decision makers - scheduling, timing and applying
+ * the decision to the game are the caller's job.
+ */
+export interface AIStrategy {
+  readonly name: string;
+  readonly description: string;
+  bid(view: AIGameView, random: RandomFn): number;
+  play(view: AIGameView, random: RandomFn): Card;
+  callWhoopie(view: AIGameView, card: Card, random: RandomFn): boolean;
+  /** For strategies that search: every bid tried, best first, so a hint can say why (see ai/hints.ts) */
+  rateBids?(view: AIGameView, random: RandomFn): BidRating[];
+}
+
+/**
+ * How a bid did in a strategy's search
+ */
+export interface BidRating {
+  bid: number;
+  averageScore: number;
+  deals: number;         // Hidden-hand deals it was played out on
+}
+
+/**
+ * Build the view an AI in this seat decides from
+ *
+ * The view is a copy, so a strategy can't change the game by mutating it.
+ */
+export function createAIGameView(game: GameState, playerIndex: number): AIGameView {
+  return structuredClone(readAIGameView(game, playerIndex));
+}
+
+/**
+ * Like createAIGameView, but the view shares arrays with the game
+ * Only for simulations that own the game they read from.
+ */
+export function readAIGameView(game: GameState, playerIndex: number): AIGameView {
+  const stanza = game.stanza;
+  if (!stanza) {
+    throw new Error('No active stanza');
+  }
+
+  const hand = stanza.hands[playerIndex];
+  if (!hand) {
+    throw new Error('Invalid player index');
+  }
+
+  return {
+    playerIndex,
+    numPlayers: game.players.length,
+    rules: game.settings.rules,
+    scores: game.scores,
+
+    stanzaNumber: stanza.stanzaNumber,
+    cardsPerPlayer: stanza.cardsPerPlayer,
+    dealerIndex: stanza.dealerIndex,
+    whoopieDefiningCard: stanza.whoopieDefiningCard,
+    whoopieRank: stanza.whoopieRank,
+    currentTrumpSuit: stanza.currentTrumpSuit,
+    jTrumpActive: stanza.jTrumpActive,
+
+    hand,
+    bids: stanza.bids,
+    tricksTaken: stanza.tricksTaken,
+    currentTrick: stanza.currentTrick,
+    completedTricks: stanza.completedTricks,
+
+    validBids: getValidBids(
+      playerIndex,
+      stanza.dealerIndex,
+      stanza.cardsPerPlayer,
+      stanza.bids,
+      game.settings.rules.dealerHook
+    ),
+    validCards: getValidCards(
+      hand,
+      stanza.currentTrick,
+      stanza.currentTrumpSuit,
+      stanza.whoopieRank,
+      stanza.jTrumpActive
+    ),
+  };
+}
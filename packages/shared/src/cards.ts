@@ -8,6 +8,7 @@ import {
   RANKS,
   RANK_VALUES,
 } from './types.js';
+import { RandomFn } from './random.js';
 
 // ============================================================================
 // Card Creation & Utilities
@@ -117,9 +118,9 @@ export function parseCardString(str: string): Card | null {
 // ============================================================================
 
 /**
- * Create a fresh 54-card deck (52 cards + 2 jokers)
+ * Create a fresh deck (52 cards + jokers; 54 cards with the standard 2 jokers)
  */
-export function createDeck(): Card[] {
+export function createDeck(jokerCount: number = 2): Card[] {
   const deck: Card[] = [];
 
   // Add all 52 suit cards
@@ -129,9 +130,9 @@ export function createDeck(): Card[] {
     }
   }
 
-  // Add 2 jokers
-  deck.push(createJoker(1));
-  deck.push(createJoker(2));
+  // Add jokers (2 in the standard deck, fewer under house rules)
+  if (jokerCount >= 1) deck.push(createJoker(1));
+  if (jokerCount >= 2) deck.push(createJoker(2));
 
   return deck;
 }
@@ -139,11 +140,12 @@ export function createDeck(): Card[] {
 /**
  * Fisher-Yates shuffle algorithm
  * Returns a new shuffled array (does not mutate original)
+ * Pass a seeded random source to get a reproducible shuffle
  */
-export function shuffleDeck(deck: Card[]): Card[] {
+export function shuffleDeck(deck: Card[], random: RandomFn = Math.random): Card[] {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
   }
   return shuffled;
@@ -186,8 +188,11 @@ export function dealCards(
  * Cut the deck - used for determining dealer/scorekeeper
  * Returns a random card from the deck (simulating a cut)
  */
-export function cutDeck(deck: Card[]): { card: Card; index: number } {
-  const index = Math.floor(Math.random() * deck.length);
+export function cutDeck(
+  deck: Card[],
+  random: RandomFn = Math.random
+): { card: Card; index: number } {
+  const index = Math.floor(random() * deck.length);
   return { card: deck[index]!, index };
 }
 
@@ -1,21 +1,31 @@
+import type { GameLengthMode, HouseRules, RulesetName, TableSpeed, TableTiming } from './types.js';
+
 // Game constants
 
 export const MIN_PLAYERS = 2;
 export const MAX_PLAYERS = 10;
 
+// Longest player name the lobby accepts
+export const MAX_PLAYER_NAME_LENGTH = 20;
+
 // Deck has 54 cards: 52 standard + 2 jokers
 export const DECK_SIZE = 54;
 
+// Deck size for a house-rules joker count
+export function getDeckSize(jokerCount: number): number {
+  return 52 + jokerCount;
+}
+
 // Calculate max cards per player: need at least 1 card left for Whoopie defining card
 // maxCards = floor((54 - 1) / numPlayers)
-export function getMaxCardsPerPlayer(numPlayers: number): number {
-  return Math.floor((DECK_SIZE - 1) / numPlayers);
+export function getMaxCardsPerPlayer(numPlayers: number, deckSize: number = DECK_SIZE): number {
+  return Math.floor((deckSize - 1) / numPlayers);
 }
 
 // Calculate total stanzas in a full game cycle (1 -> max -> 1)
 // This is (max * 2) - 1 stanzas
-export function getTotalStanzasInCycle(numPlayers: number): number {
-  const max = getMaxCardsPerPlayer(numPlayers);
+export function getTotalStanzasInCycle(numPlayers: number, deckSize: number = DECK_SIZE): number {
+  const max = getMaxCardsPerPlayer(numPlayers, deckSize);
   return (max * 2) - 1;
 }
 
@@ -30,26 +40,167 @@ export function getTotalStanzasInCycle(numPlayers: number): number {
 // 9 players: max = 5,  cycle = 1,2,3...5,4...1   (9 stanzas)
 // 10 players: max = 5, cycle = 1,2,3,4,5,4...1   (9 stanzas)
 
-// AI timing constants (milliseconds)
-export const AI_BID_DELAY_MIN = 1000;
-export const AI_BID_DELAY_MAX = 2500;
-export const AI_PLAY_DELAY_MIN = 800;
-export const AI_PLAY_DELAY_MAX = 2000;
-
 // Animation timing (milliseconds)
 export const DEAL_CARD_DELAY = 150;
-export const TRICK_DISPLAY_TIME = 1500;
-export const STANZA_END_DISPLAY_TIME = 3000;
+
+// Table speeds the host can pick from in the lobby
+// (trick and stanza pauses leave time for the client's trick animation)
+export const TABLE_SPEEDS: Record<TableSpeed, { label: string; description: string; timing: TableTiming }> = {
+  relaxed: {
+    label: 'Relaxed',
+    description: 'Bots take their time and tricks stay up longer.',
+    timing: {
+      aiBidDelayMin: 1500,
+      aiBidDelayMax: 3500,
+      aiPlayDelayMin: 1200,
+      aiPlayDelayMax: 3000,
+      trickDisplayTime: 2500,
+      trickEndPause: 8000,
+      stanzaEndPause: 9000,
+    },
+  },
+  normal: {
+    label: 'Normal',
+    description: 'Bots think for a second or two.',
+    timing: {
+      aiBidDelayMin: 1000,
+      aiBidDelayMax: 2500,
+      aiPlayDelayMin: 800,
+      aiPlayDelayMax: 2000,
+      trickDisplayTime: 1500,
+      trickEndPause: 6000,
+      stanzaEndPause: 6000,
+    },
+  },
+  fast: {
+    label: 'Fast',
+    description: 'Quick bots and short pauses, for practice games.',
+    timing: {
+      aiBidDelayMin: 300,
+      aiBidDelayMax: 800,
+      aiPlayDelayMin: 250,
+      aiPlayDelayMax: 600,
+      trickDisplayTime: 500,
+      trickEndPause: 2500,
+      stanzaEndPause: 3500,
+    },
+  },
+  instant: {
+    label: 'Instant',
+    description: 'No delays or trick animation at all.',
+    timing: {
+      aiBidDelayMin: 0,
+      aiBidDelayMax: 0,
+      aiPlayDelayMin: 0,
+      aiPlayDelayMax: 0,
+      trickDisplayTime: 0,
+      trickEndPause: 0,
+      stanzaEndPause: 0,
+    },
+  },
+};
 
 // Scoring
 export const SCORE_MAKE_BID_BASE = 2;  // Base points for making your bid
 export const SCORE_MISS_BID = -1;       // Points for missing your bid
 export const SCORE_MISSED_WHOOPIE_CALL = -1; // Penalty for not calling Whoopie
 
+// Game log format version - bump when GameAction shapes change incompatibly
+export const GAME_LOG_VERSION = 1;
+
+// House rules presets the host can pick from in the lobby
+export const HOUSE_RULESETS: Record<RulesetName, { label: string; description: string; rules: HouseRules }> = {
+  standard: {
+    label: 'Standard',
+    description: 'Official rules: make your bid for 2 + bid, miss for -1, dealer is hooked.',
+    rules: {
+      name: 'standard',
+      dealerHook: true,
+      makeBidFormula: 'basePlusBid',
+      makeBidBase: SCORE_MAKE_BID_BASE,
+      missBidFormula: 'flat',
+      missBidPenalty: SCORE_MISS_BID,
+      whoopieMissPenalty: true,
+      jokerCount: 2,
+    },
+  },
+  noHook: {
+    label: 'No Hook',
+    description: 'Standard scoring, but the dealer may bid anything.',
+    rules: {
+      name: 'noHook',
+      dealerHook: false,
+      makeBidFormula: 'basePlusBid',
+      makeBidBase: SCORE_MAKE_BID_BASE,
+      missBidFormula: 'flat',
+      missBidPenalty: SCORE_MISS_BID,
+      whoopieMissPenalty: true,
+      jokerCount: 2,
+    },
+  },
+  cutthroat: {
+    label: 'Cutthroat',
+    description: 'Made bids score 2 + double the bid; missed bids lose 1 per trick off.',
+    rules: {
+      name: 'cutthroat',
+      dealerHook: true,
+      makeBidFormula: 'basePlusDoubleBid',
+      makeBidBase: SCORE_MAKE_BID_BASE,
+      missBidFormula: 'perTrick',
+      missBidPenalty: SCORE_MISS_BID,
+      whoopieMissPenalty: true,
+      jokerCount: 2,
+    },
+  },
+  casual: {
+    label: 'Casual',
+    description: 'Standard scoring with no penalty for forgetting to call Whoopie.',
+    rules: {
+      name: 'casual',
+      dealerHook: true,
+      makeBidFormula: 'basePlusBid',
+      makeBidBase: SCORE_MAKE_BID_BASE,
+      missBidFormula: 'flat',
+      missBidPenalty: SCORE_MISS_BID,
+      whoopieMissPenalty: false,
+      jokerCount: 2,
+    },
+  },
+  noJokers: {
+    label: 'No Jokers',
+    description: 'Standard rules played with a 52-card deck - no Scrambles or J-Trump from jokers.',
+    rules: {
+      name: 'noJokers',
+      dealerHook: true,
+      makeBidFormula: 'basePlusBid',
+      makeBidBase: SCORE_MAKE_BID_BASE,
+      missBidFormula: 'flat',
+      missBidPenalty: SCORE_MISS_BID,
+      whoopieMissPenalty: true,
+      jokerCount: 0,
+    },
+  },
+};
+
+export const DEFAULT_HOUSE_RULES: HouseRules = HOUSE_RULESETS.standard.rules;
+
+// Game length modes shown in the lobby
+export const GAME_LENGTH_MODES: Record<GameLengthMode, { label: string; description: string }> = {
+  full: { label: 'Full Game', description: 'Up from 1 card to the max and back down to 1.' },
+  upOnly: { label: 'Up Only', description: 'From 1 card up to the max.' },
+  downOnly: { label: 'Down Only', description: 'From the max down to 1 card.' },
+  fixedStanzas: { label: 'Fixed Stanzas', description: 'A set number of stanzas.' },
+  targetScore: { label: 'First to N', description: 'Play until someone reaches the target score.' },
+};
+
 // Default game settings
 export const DEFAULT_GAME_SETTINGS = {
   maxPlayers: 10,
   minPlayersToStart: 2,
   isPublic: true,
   allowSpectators: true,
+  spectatorRevealDelayMs: null,
+  rules: DEFAULT_HOUSE_RULES,
+  length: { mode: 'full' },
+  speed: 'normal',
 } as const;
@@ -0,0 +1,456 @@
+import { Card, CompletedStanzaRecord, Rank, RANK_VALUES, SUITS } from './types.js';
+import { cardsEqual, isJoker, isSuitCard } from './cards.js';
+import {
+  TrickState,
+  addCardToTrick,
+  getFirstLeaderIndex,
+  getInitialTrumpFromDefiningCard,
+  getValidCards,
+  resolveTrickWinner,
+} from './rules.js';
+
+// ============================================================================
+// Double-Dummy Solver (perfect-information analysis)
+// ============================================================================
+
+export interface DoubleDummyDeal {
+  hands: Card[][];               // Every hand as dealt, by seat
+  whoopieDefiningCard: Card;
+  dealerIndex: number;
+  bids: number[];
+}
+
+export interface DoubleDummyResult {
+  maxTricks: number[];           // Most tricks each player can force with everyone else against them
+  canMakeBid: boolean[];         // Whether each player can force taking exactly their bid
+}
+
+// One player's search: everyone else plays against them
+interface Solver {
+  target: number;
+  numPlayers: number;
+  hands: Card[][];               // Cards still held, in suit then rank order (changed in place while searching)
+  bounds: Map<string, { low: number; high: number }>; // Tricks still to come the target can / can't force, by trick-start position
+  ranges: Map<string, boolean>;  // Results of bounded queries (e.g. "exactly n more")
+  leads: Map<string, Card>;      // The lead that last settled each trick-start position (tried first next time)
+}
+
+/**
+ * Every hand as dealt in a completed stanza (all cards are played by the
+ * end, so each hand is the cards that seat played)
+ */
+export function getDealtHands(record: CompletedStanzaRecord): Card[][] {
+  return record.playerIds.map((_, i) =>
+    record.tricks.flatMap((trick) =>
+      trick.cards.filter((played) => played.playerIndex === i).map((played) => played.card)
+    )
+  );
+}
+
+/**
+ * The deal of a completed stanza, ready to solve
+ */
+export function getDoubleDummyDeal(record: CompletedStanzaRecord): DoubleDummyDeal {
+  return {
+    hands: getDealtHands(record),
+    whoopieDefiningCard: record.whoopieDefiningCard,
+    dealerIndex: record.dealerIndex,
+    bids: record.bids,
+  };
+}
+
+/**
+ * Solve a deal with every hand visible
+ *
+ * Each player is solved separately, with all the other players working
+ * together against them. Play follows playCard exactly: Whoopie trump
+ * switches, jokers, J-Trump and a joker defining card are all handled by
+ * the shared rules functions.
+ */
+export function solveDoubleDummy(deal: DoubleDummyDeal): DoubleDummyResult {
+  const solvers = deal.hands.map((_, i) => createSolver(deal, i));
+
+  return {
+    maxTricks: solvers.map((solver) => findMaxTricks(solver, deal)),
+    canMakeBid: solvers.map((solver, i) => canForceFromStart(solver, deal, deal.bids[i]!, deal.bids[i]!)),
+  };
+}
+
+/**
+ * Most tricks a player can force against everyone else
+ */
+export function getMaxTricks(deal: DoubleDummyDeal, playerIndex: number): number {
+  return findMaxTricks(createSolver(deal, playerIndex), deal);
+}
+
+/**
+ * Can a player force taking at least (or exactly) this many tricks against
+ * everyone else?
+ */
+export function canForceTricks(
+  deal: DoubleDummyDeal,
+  playerIndex: number,
+  tricks: number,
+  exactly: boolean
+): boolean {
+  return canForceFromStart(createSolver(deal, playerIndex), deal, tricks, exactly ? tricks : Infinity);
+}
+
+function createSolver(deal: DoubleDummyDeal, playerIndex: number): Solver {
+  const numPlayers = deal.hands.length;
+  if (playerIndex < 0 || playerIndex >= numPlayers) {
+    throw new Error('Invalid player index');
+  }
+  if (deal.hands.some((hand) => hand.length !== deal.hands[0]!.length)) {
+    throw new Error('Hands must be the same size');
+  }
+
+  return {
+    target: playerIndex,
+    numPlayers,
+    hands: deal.hands.map((hand) => [...hand].sort(compareCards)),
+    bounds: new Map(),
+    ranges: new Map(),
+    leads: new Map(),
+  };
+}
+
+function findMaxTricks(solver: Solver, deal: DoubleDummyDeal): number {
+  // Binary search on "can force at least n tricks" (the solver keeps what
+  // each query proved, so later queries are cheaper)
+  let low = 0;
+  let high = deal.hands[solver.target]!.length;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (canForceFromStart(solver, deal, mid, Infinity)) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low;
+}
+
+function canForceFromStart(solver: Solver, deal: DoubleDummyDeal, low: number, high: number): boolean {
+  const { trumpSuit, whoopieRank, jTrumpActive } = getInitialTrumpFromDefiningCard(deal.whoopieDefiningCard);
+
+  return solveTrick(
+    solver,
+    { trick: [], trumpSuit, whoopieRank, jTrumpActive },
+    getFirstLeaderIndex(deal.dealerIndex, solver.numPlayers),
+    low,
+    high
+  );
+}
+
+/**
+ * Can the target take between low and high of the remaining tricks,
+ * starting a trick with this leader?
+ */
+function solveTrick(solver: Solver, state: TrickState, leader: number, low: number, high: number): boolean {
+  const remaining = solver.hands[leader]!.length;
+  if (low > remaining || high < 0) return false;
+  if (low <= 0 && high >= remaining) return true;
+
+  // Everyone has one card left, so the last trick plays itself
+  if (remaining === 1) {
+    let last = state;
+    for (let i = 0; i < solver.numPlayers; i++) {
+      const seat = (leader + i) % solver.numPlayers;
+      last = addCardToTrick(last, solver.hands[seat]![0]!, seat);
+    }
+    const won = getTrickWinner(last) === solver.target ? 1 : 0;
+    return won >= low && won <= high;
+  }
+
+  // Known bounds on what the target can force from this position: from
+  // earlier searches, or to begin with from the quick tricks of whoever is on lead
+  const key = getPositionKey(solver, state, leader);
+  let known = solver.bounds.get(key);
+  if (!known) {
+    const quick = countQuickTricks(solver, state, leader);
+    known = leader === solver.target ? { low: quick, high: remaining } : { low: 0, high: remaining - quick };
+    solver.bounds.set(key, known);
+  }
+  if (known.high < low) return false;
+
+  if (high >= remaining) {
+    if (known.low >= low) return true;
+
+    const result = solvePlay(solver, state, leader, low, high, key);
+    if (result) {
+      known.low = low;
+    } else {
+      known.high = low - 1;
+    }
+    return result;
+  }
+
+  const rangeKey = `${key}/${low}/${high}`;
+  let result = solver.ranges.get(rangeKey);
+  if (result === undefined) {
+    result = solvePlay(solver, state, leader, low, high, key);
+    solver.ranges.set(rangeKey, result);
+  }
+  return result;
+}
+
+/**
+ * Solve with the given seat to play the next card of the trick (key is
+ * the position key when this is the lead)
+ */
+function solvePlay(
+  solver: Solver,
+  state: TrickState,
+  seat: number,
+  low: number,
+  high: number,
+  key?: string
+): boolean {
+  if (state.trick.length === solver.numPlayers) {
+    const winner = getTrickWinner(state);
+    const won = winner === solver.target ? 1 : 0;
+    return solveTrick(
+      solver,
+      { trick: [], trumpSuit: state.trumpSuit, whoopieRank: state.whoopieRank, jTrumpActive: state.jTrumpActive },
+      winner,
+      low - won,
+      high - won
+    );
+  }
+
+  const hand = solver.hands[seat]!;
+  const isTarget = seat === solver.target;
+  const nextSeat = (seat + 1) % solver.numPlayers;
+
+  const candidates = getCandidatePlays(solver, state, seat);
+  const lead = key !== undefined ? solver.leads.get(key) : undefined;
+  const leadIndex = lead ? candidates.findIndex((candidate) => cardsEqual(candidate.card, lead)) : -1;
+  if (leadIndex > 0) candidates.unshift(...candidates.splice(leadIndex, 1));
+
+  for (const { card, after } of candidates) {
+    const index = hand.indexOf(card);
+    hand.splice(index, 1);
+    const result = solvePlay(solver, after, nextSeat, low, high);
+    hand.splice(index, 0, card);
+
+    // The target needs one card that works; everyone else needs one card
+    // that stops them
+    if (result === isTarget) {
+      if (key !== undefined) solver.leads.set(key, card);
+      return result;
+    }
+  }
+
+  return !isTarget;
+}
+
+/**
+ * Tricks the leader can take straight off with leads nobody can beat
+ *
+ * In one suit, that's the leader's top cards while every other player
+ * either has to follow with lower cards or is out of the suit with nothing
+ * that could trump it. Only as many as the shortest holding of a player
+ * who could trump once out of the suit are counted. Then Whoopie cards and
+ * jokers, which are always trump, if nothing out ranks above the Whoopie
+ * rank (the first of equal ranks wins). Leading the suit first keeps
+ * trump the same for it.
+ */
+function countQuickTricks(solver: Solver, state: TrickState, leader: number): number {
+  const { whoopieRank, trumpSuit, jTrumpActive } = state;
+  if (!whoopieRank) return 0;
+
+  const whoopieValue = RANK_VALUES[whoopieRank];
+  const isSwitcher = (card: Card) => isJoker(card) || card.rank === whoopieRank;
+  const hand = solver.hands[leader]!;
+  const others = solver.hands.filter((_, seat) => seat !== leader);
+
+  let bestSuit = 0;
+  for (const suit of SUITS) {
+    const leads = hand.filter((card) => isSuitCard(card) && card.suit === suit && card.rank !== whoopieRank);
+    if (leads.length === 0) continue;
+
+    // The suit led is trump under J-Trump
+    const isTrump = jTrumpActive || suit === trumpSuit;
+    let mustBeat = 0;       // Leads are sure above this value
+    let most = leads.length;
+    for (const other of others) {
+      const following = other.filter((card) => isSuitCard(card) && card.suit === suit);
+      const canTrump = other.some((card) => isSwitcher(card) || (!isTrump && isSuitCard(card) && card.suit === trumpSuit));
+
+      if (following.length > 0) {
+        for (const card of following) {
+          // A Whoopie card of the suit is trump whatever it follows
+          if (isSwitcher(card) && !isTrump) mustBeat = Infinity;
+          mustBeat = Math.max(mustBeat, getValue(card, whoopieRank));
+        }
+        if (canTrump) most = Math.min(most, following.length);
+      } else if (canTrump) {
+        if (!isTrump) mustBeat = Infinity;
+        // A Whoopie card could make another suit trump mid-trick, so only a lead
+        // above everything out is sure, and only once
+        for (const card of others.flat()) mustBeat = Math.max(mustBeat, getValue(card, whoopieRank));
+        most = Math.min(most, 1);
+      }
+    }
+
+    const sure = leads.filter((card) => getValue(card, whoopieRank) > mustBeat).length;
+    bestSuit = Math.max(bestSuit, Math.min(sure, most));
+  }
+
+  const switchersSure = others.every((other) => other.every((card) => getValue(card, whoopieRank) <= whoopieValue));
+  return bestSuit + (switchersSure ? hand.filter(isSwitcher).length : 0);
+}
+
+function getTrickWinner(state: TrickState): number {
+  return state.trick[resolveTrickWinner(state.trick, state.whoopieRank)]!.playerIndex;
+}
+
+/**
+ * Legal cards worth trying, with the trick after each: of two cards in one
+ * suit with nothing that could tell them apart left in other hands or the
+ * trick, only one is tried. Likely best cards are tried first.
+ */
+function getCandidatePlays(
+  solver: Solver,
+  state: TrickState,
+  seat: number
+): { card: Card; after: TrickState }[] {
+  const hand = solver.hands[seat]!;
+  const { whoopieRank } = state;
+  // In hand order, so already sorted
+  const sorted = getValidCards(hand, state.trick, state.trumpSuit, whoopieRank, state.jTrumpActive);
+
+  let others: Card[][] | null = null;
+  const winning: { card: Card; after: TrickState }[] = [];
+  const losing: { card: Card; after: TrickState }[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const card = sorted[i]!;
+    const lower = sorted[i - 1];
+    if (lower && whoopieRank && mightBeEquivalent(lower, card, whoopieRank)) {
+      others ??= [
+        ...solver.hands.filter((_, j) => j !== seat),
+        state.trick.map((played) => played.card),
+      ];
+      if (areEquivalent(lower, card, whoopieRank, others)) continue;
+    }
+
+    const after = addCardToTrick(state, card, seat);
+    const wins = resolveTrickWinner(after.trick, after.whoopieRank) === after.trick.length - 1;
+    (wins ? winning : losing).push({ card, after });
+  }
+
+  // Winners first when this seat wants the trick (the highest on the lead,
+  // else the cheapest), low cards when a player against the target already
+  // has it
+  const leader = state.trick.length > 0 ? getTrickWinner(state) : null;
+  const wantsTrick = seat === solver.target || leader === null || leader === solver.target;
+  if (leader === null) winning.reverse();
+  return wantsTrick ? [...winning, ...losing] : [...losing, ...winning];
+}
+
+// Two cards of one suit, neither a Whoopie card (the Whoopie rank must be
+// set: until then, a lead of either card would set it)
+function mightBeEquivalent(lower: Card, higher: Card, whoopieRank: Rank): boolean {
+  return isSuitCard(lower) && isSuitCard(higher) &&
+    lower.suit === higher.suit && lower.rank !== whoopieRank && higher.rank !== whoopieRank;
+}
+
+// Nothing left out ranks between (or level with) the two cards, so no trick
+// can turn on which one was played
+//
+// Cards of different suits are only compared by rank above the Whoopie rank:
+// below it, a card meeting another suit's trump has already lost to a joker,
+// a Whoopie card or a higher card.
+function areEquivalent(lower: Card, higher: Card, whoopieRank: Rank, others: Card[][]): boolean {
+  const low = getValue(lower, whoopieRank);
+  const high = getValue(higher, whoopieRank);
+  const whoopieValue = RANK_VALUES[whoopieRank];
+
+  for (const cards of others) {
+    for (const card of cards) {
+      const value = getValue(card, whoopieRank);
+      if (value < low || value > high) continue;
+      if (value >= whoopieValue || (isSuitCard(card) && isSuitCard(lower) && card.suit === lower.suit)) return false;
+    }
+  }
+  return true;
+}
+
+const SUIT_ORDER = new Map(SUITS.map((suit, i) => [suit, i]));
+
+// Groups cards by suit, jokers last
+function getSuitOrder(card: Card): number {
+  return isJoker(card) ? SUITS.length : SUIT_ORDER.get(card.suit)!;
+}
+
+// Suit order, then rank within each suit (the order hands are kept in)
+function compareCards(a: Card, b: Card): number {
+  return getSuitOrder(a) - getSuitOrder(b) || getValue(a, null) - getValue(b, null);
+}
+
+// Rank value used to compare cards (jokers rank as the Whoopie rank)
+function getValue(card: Card, whoopieRank: Rank | null): number {
+  if (isJoker(card)) {
+    return whoopieRank ? RANK_VALUES[whoopieRank] : 16;
+  }
+  return RANK_VALUES[card.rank];
+}
+
+/**
+ * Cache key for the start of a trick
+ *
+ * Only the order of the ranks still out matters, so ranks are numbered by
+ * position among the remaining cards: positions that differ only in cards
+ * already played share a key. Below the Whoopie rank only the order within
+ * a suit matters (see areEquivalent). Jokers are interchangeable.
+ */
+function getPositionKey(solver: Solver, state: TrickState, leader: number): string {
+  const { whoopieRank } = state;
+  const whoopieValue = whoopieRank ? RANK_VALUES[whoopieRank] : 0;
+
+  // Bit v of below[s] is set while a card of suit s and value v is out below
+  // the Whoopie rank; bit v of above while one of any suit is out above it.
+  // Counting the lower bits then gives each value's position among them.
+  const below = [0, 0, 0, 0];
+  let above = 0;
+  for (const hand of solver.hands) {
+    for (const card of hand) {
+      if (isJoker(card)) continue;
+      const value = RANK_VALUES[card.rank];
+      if (value > whoopieValue) above |= 1 << value;
+      else if (value < whoopieValue) below[SUIT_ORDER.get(card.suit)!]! |= 1 << value;
+    }
+  }
+
+  // Hands are in suit then rank order, so each hand's codes come out sorted
+  const codes: number[] = [];
+  for (const hand of solver.hands) {
+    for (const card of hand) {
+      if (isJoker(card)) {
+        codes.push(199);
+        continue;
+      }
+      const suit = SUIT_ORDER.get(card.suit)!;
+      const value = RANK_VALUES[card.rank];
+      const lower = (1 << value) - 1;
+      if (value > whoopieValue) codes.push(suit * 40 + 15 + countBits(above & lower));
+      else if (value === whoopieValue) codes.push(suit * 40 + 14);
+      else codes.push(suit * 40 + countBits(below[suit]! & lower));
+    }
+    codes.push(200);
+  }
+  codes.push(leader, 201, whoopieRank ? 1 : 0);
+  codes.push(state.trumpSuit ? SUIT_ORDER.get(state.trumpSuit)! : 4, state.jTrumpActive ? 1 : 0);
+
+  return String.fromCharCode(...codes);
+}
+
+function countBits(bits: number): number {
+  let count = 0;
+  for (let rest = bits; rest !== 0; rest &= rest - 1) count++;
+  return count;
+}
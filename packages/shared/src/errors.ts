@@ -0,0 +1,68 @@
+import { Card, GamePhase, Suit } from './types.js';
+
+// ============================================================================
+// Game Errors
+// ============================================================================
+
+// Stable codes for everything a player can get wrong; the client words them
+export type GameErrorCode =
+  | 'INVALID_PAYLOAD'            // The request didn't match the protocol
+  | 'GAME_NOT_FOUND'
+  | 'GAME_FULL'
+  | 'GAME_ENDED'
+  | 'GAME_ALREADY_STARTED'
+  | 'GAME_NOT_FINISHED'
+  | 'NOT_ENOUGH_PLAYERS'
+  | 'INVALID_SETTING'
+  | 'ALREADY_IN_GAME'
+  | 'PLAYER_NOT_IN_GAME'
+  | 'PLAYER_NOT_FOUND'
+  | 'NOT_HOST'
+  | 'ALREADY_HOST'
+  | 'HOST_MUST_BE_HUMAN'
+  | 'HOST_NOT_CONNECTED'
+  | 'CANNOT_KICK_SELF'
+  | 'CANNOT_RECONNECT_AI'
+  | 'NOT_YOUR_SEAT'              // The seat belongs to another identity
+  | 'WRONG_PHASE'
+  | 'NOT_YOUR_TURN'
+  | 'INVALID_BID'
+  | 'DEALER_HOOK_BID'            // The one bid the dealer may not make
+  | 'CARD_NOT_IN_HAND'
+  | 'MUST_FOLLOW_SUIT'
+  | 'SPECTATORS_NOT_ALLOWED'
+  | 'BOT_NOT_CONNECTED'
+  | 'UNKNOWN_PERSONALITY'
+  | 'RESUME_CODE_NOT_FOUND'
+  | 'NOT_RESUMING'
+  | 'NAME_NOT_IN_GAME'
+  | 'NAME_ALREADY_REJOINED';
+
+// What went wrong, in more detail (which fields are set depends on the code)
+export interface GameErrorDetails {
+  issues?: string[];             // INVALID_PAYLOAD: each problem with the request
+  phase?: GamePhase;             // WRONG_PHASE: the phase the game is in
+  minPlayers?: number;           // NOT_ENOUGH_PLAYERS
+  setting?: 'maxPlayers' | 'minPlayersToStart' | 'spectatorRevealDelayMs' | 'speed' | 'maxCards' | 'stanzas' | 'targetScore';
+  min?: number;                  // INVALID_SETTING: the allowed range
+  max?: number;
+  validBids?: number[];          // INVALID_BID, DEALER_HOOK_BID
+  forbiddenBid?: number;         // DEALER_HOOK_BID
+  leadSuit?: Suit;               // MUST_FOLLOW_SUIT
+  validCards?: Card[];           // MUST_FOLLOW_SUIT
+}
+
+/**
+ * An error a player caused (as opposed to a bug), with a stable code
+ * The message is a plain English fallback for logs and old clients.
+ */
+export class GameError extends Error {
+  constructor(
+    public readonly code: GameErrorCode,
+    message: string,
+    public readonly details: GameErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'GameError';
+  }
+}
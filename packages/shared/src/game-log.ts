@@ -0,0 +1,138 @@
+import {
+  GameState,
+  GameEvent,
+  GameAction,
+  GameLog,
+} from './types.js';
+import { GAME_LOG_VERSION } from './constants.js';
+import {
+  addPlayer,
+  removePlayer,
+  removePlayerAndRedeal,
+  transferHost,
+  recordHint,
+  updateSettings,
+  startGame,
+  placeBid,
+  playCard,
+  continueGame,
+  endGame,
+} from './game-state.js';
+
+// ============================================================================
+// Action Reducer
+// ============================================================================
+
+/**
+ * Apply a single logged action to a game state
+ *
+ * This is the one place that maps a GameAction onto the game state machine,
+ * used both for live play (via the server) and for replays.
+ */
+export function applyGameAction(
+  game: GameState,
+  action: GameAction
+): { game: GameState; events: GameEvent[] } {
+  switch (action.type) {
+    case 'addPlayer': {
+      const result = addPlayer(game, action.player);
+      return { game: result.game, events: [result.event] };
+    }
+    case 'removePlayer': {
+      const result = removePlayer(game, action.playerId, action.replacement);
+      return { game: result.game, events: [result.event] };
+    }
+    case 'removePlayerAndRedeal':
+      return removePlayerAndRedeal(game, action.playerId);
+    case 'transferHost': {
+      const result = transferHost(game, action.playerId);
+      return { game: result.game, events: [result.event] };
+    }
+    case 'recordHint':
+      return { game: recordHint(game, action.playerId), events: [] };
+    case 'updateSettings':
+      return { game: updateSettings(game, action.settings), events: [] };
+    case 'startGame':
+      return startGame(game);
+    case 'placeBid':
+      return placeBid(game, action.playerIndex, action.bid);
+    case 'playCard':
+      return playCard(game, action.playerIndex, action.card, action.calledWhoopie);
+    case 'continueGame':
+      return continueGame(game);
+    case 'endGame':
+      return endGame(game);
+  }
+}
+
+/**
+ * Rebuild a game state by replaying actions from an initial state
+ *
+ * Pass a prefix of the action list to get any intermediate state.
+ * Throws if an action is not legal at the point it is replayed.
+ */
+export function replayGame(
+  initialState: GameState,
+  actions: GameAction[]
+): { game: GameState; events: GameEvent[] } {
+  let game = initialState;
+  const events: GameEvent[] = [];
+
+  for (const action of actions) {
+    const result = applyGameAction(game, action);
+    game = result.game;
+    events.push(...result.events);
+  }
+
+  return { game, events };
+}
+
+// ============================================================================
+// Game Log
+// ============================================================================
+
+/**
+ * Start a new, empty log for a game
+ */
+export function createGameLog(initialState: GameState): GameLog {
+  return {
+    version: GAME_LOG_VERSION,
+    gameId: initialState.id,
+    initialState,
+    entries: [],
+  };
+}
+
+/**
+ * Append an action to the log
+ * The log is changed in place (copying the entries on every action would make a
+ * long game quadratic) and returned for convenience.
+ */
+export function appendToGameLog(
+  log: GameLog,
+  action: GameAction,
+  timestamp: number = Date.now()
+): GameLog {
+  log.entries.push({
+    seq: log.entries.length,
+    timestamp,
+    action,
+  });
+  return log;
+}
+
+/**
+ * Rebuild the game state recorded in a log
+ * Optionally stop after `upToSeq` entries to inspect an intermediate state
+ */
+export function replayGameLog(
+  log: GameLog,
+  upToSeq: number = log.entries.length
+): { game: GameState; events: GameEvent[] } {
+  if (log.version !== GAME_LOG_VERSION) {
+    throw new Error(`Unsupported game log version ${log.version}`);
+  }
+
+  const actions = log.entries.slice(0, upToSeq).map((entry) => entry.action);
+  return replayGame(log.initialState, actions);
+}
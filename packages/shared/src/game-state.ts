@@ -12,7 +12,13 @@ import {
   GameEvent,
   RANK_VALUES,
 } from './types.js';
-import { getMaxCardsPerPlayer, DEFAULT_GAME_SETTINGS } from './constants.js';
+import {
+  getDeckSize,
+  DEFAULT_GAME_SETTINGS,
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+  TABLE_SPEEDS,
+} from './constants.js';
 import {
   createDeck,
   shuffleDeck,
@@ -25,12 +31,9 @@ import {
 import {
   getValidCards,
   getValidBids,
-  isValidBid,
-  isValidPlay,
   getNextPlayerIndex,
   getFirstLeaderIndex,
   getFirstBidderIndex,
-  getNextCardsPerPlayer,
   getInitialTrumpFromDefiningCard,
   getTrumpFromFirstLead,
   getTrumpStateAfterPlay,
@@ -39,11 +42,20 @@ import {
   getLeadSuit,
   canStartStanza,
 } from './rules.js';
+import { GameError } from './errors.js';
 import {
   calculateStanzaScores,
   applyScoreChanges,
   calculateTruncatedAverage,
+  getMissedWhoopieCallPenalty,
 } from './scoring.js';
+import { RandomFn, createSeededRandom, generateSeed } from './random.js';
+import {
+  getScheduleMaxCards,
+  getFirstStanza,
+  getNextStanza,
+  hasReachedTargetScore,
+} from './schedule.js';
 
 // ============================================================================
 // Game Creation
@@ -52,11 +64,11 @@ import {
 /**
  * Generate a unique game ID (whoopie_xxxxx format with 5 alphanumeric chars)
  */
-export function generateGameId(): string {
+export function generateGameId(random: RandomFn = Math.random): string {
   const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
   let id = '';
   for (let i = 0; i < 5; i++) {
-    id += chars.charAt(Math.floor(Math.random() * chars.length));
+    id += chars.charAt(Math.floor(random() * chars.length));
   }
   return `whoopie_${id}`;
 }
@@ -70,28 +82,38 @@ export function generatePlayerId(): string {
 
 /**
  * Create a new game in waiting state
+ * Pass a seed to reproduce a previous game's ID, cut and deals
  */
 export function createGame(
   hostId: string,
-  settings: Partial<GameSettings> = {}
+  settings: Partial<GameSettings> = {},
+  seed: number = generateSeed()
 ): GameState {
   const fullSettings: GameSettings = {
     ...DEFAULT_GAME_SETTINGS,
     ...settings,
   };
+  checkSettings(fullSettings, 0);
+
+  const rng = createSeededRandom(seed);
+  const id = generateGameId(rng.random);
 
   return {
-    id: generateGameId(),
+    id,
     createdAt: Date.now(),
     hostId,
     settings: fullSettings,
     phase: 'waiting',
     players: [],
     scorekeeperIndex: null,
+    pendingPlayers: [],
     scores: [],
     stanza: null,
     completedStanzas: [],
     truncatedAverage: 0,
+    hintsUsed: {},
+    rngSeed: seed,
+    rngState: rng.getState(),
   };
 }
 
@@ -101,21 +123,29 @@ export function createGame(
 
 /**
  * Add a player to the game
+ * Once the game has started, the player is queued and seated at the next stanza
  */
 export function addPlayer(
   game: GameState,
   player: Player
 ): { game: GameState; event: GameEvent } {
-  if (game.phase !== 'waiting') {
-    throw new Error('Cannot add players after game has started');
+  if (game.phase === 'gameEnd') {
+    throw new GameError('GAME_ENDED', 'Game has ended');
   }
 
-  if (game.players.length >= game.settings.maxPlayers) {
-    throw new Error('Game is full');
+  if (game.players.length + game.pendingPlayers.length >= game.settings.maxPlayers) {
+    throw new GameError('GAME_FULL', 'Game is full');
   }
 
-  if (game.players.some((p) => p.id === player.id)) {
-    throw new Error('Player already in game');
+  if ([...game.players, ...game.pendingPlayers].some((p) => p.id === player.id)) {
+    throw new GameError('ALREADY_IN_GAME', 'Player already in game');
+  }
+
+  if (game.phase !== 'waiting') {
+    return {
+      game: { ...game, pendingPlayers: [...game.pendingPlayers, player] },
+      event: { type: 'playerQueued', player: getPublicPlayer(player) },
+    };
   }
 
   const newGame: GameState = {
@@ -126,7 +156,7 @@ export function addPlayer(
 
   return {
     game: newGame,
-    event: { type: 'playerJoined', player },
+    event: { type: 'playerJoined', player: getPublicPlayer(player) },
   };
 }
 
@@ -139,9 +169,17 @@ export function removePlayer(
   playerId: string,
   replacement?: Player
 ): { game: GameState; event: GameEvent } {
+  // Queued players haven't been dealt in yet, so they just leave the queue
+  if (game.pendingPlayers.some((p) => p.id === playerId)) {
+    return {
+      game: { ...game, pendingPlayers: game.pendingPlayers.filter((p) => p.id !== playerId) },
+      event: { type: 'playerLeft', playerId },
+    };
+  }
+
   const playerIndex = game.players.findIndex((p) => p.id === playerId);
   if (playerIndex === -1) {
-    throw new Error('Player not in game');
+    throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in game');
   }
 
   if (game.phase === 'waiting') {
@@ -191,9 +229,15 @@ export function removePlayerAndRedeal(
   game: GameState,
   playerId: string
 ): { game: GameState; events: GameEvent[] } {
+  const pendingPlayer = game.pendingPlayers.find((p) => p.id === playerId);
+  if (pendingPlayer) {
+    const { game: newGame } = removePlayer(game, playerId);
+    return { game: newGame, events: [{ type: 'playerLeft', playerId, playerName: pendingPlayer.name }] };
+  }
+
   const playerIndex = game.players.findIndex((p) => p.id === playerId);
   if (playerIndex === -1) {
-    throw new Error('Player not in game');
+    throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in game');
   }
 
   const playerName = game.players[playerIndex]!.name;
@@ -210,7 +254,7 @@ export function removePlayerAndRedeal(
 
   // Check if we'd have too few players
   if (game.players.length <= 2) {
-    throw new Error('Cannot remove player: would have fewer than 2 players');
+    throw new GameError('NOT_ENOUGH_PLAYERS', 'Cannot remove player: would have fewer than 2 players', { minPlayers: MIN_PLAYERS });
   }
 
   // Remove the player and their score
@@ -270,6 +314,101 @@ export function removePlayerAndRedeal(
   };
 }
 
+/**
+ * Make another player the host
+ * Who may take over (a connected human) is checked by the server, so logs
+ * saved before it checked still replay.
+ */
+export function transferHost(game: GameState, playerId: string): { game: GameState; event: GameEvent } {
+  const player = game.players.find((p) => p.id === playerId);
+  if (!player) {
+    throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in game');
+  }
+  if (playerId === game.hostId) {
+    throw new GameError('ALREADY_HOST', 'That player is already the host');
+  }
+
+  return {
+    game: { ...game, hostId: playerId },
+    event: { type: 'hostChanged', playerId, playerName: player.name },
+  };
+}
+
+/**
+ * Note that a player was shown a coaching hint
+ */
+export function recordHint(game: GameState, playerId: string): GameState {
+  if (!game.players.some((p) => p.id === playerId)) {
+    throw new GameError('PLAYER_NOT_IN_GAME', 'Player not in game');
+  }
+
+  return {
+    ...game,
+    hintsUsed: { ...game.hintsUsed, [playerId]: (game.hintsUsed[playerId] ?? 0) + 1 },
+  };
+}
+
+/**
+ * Throw if settings don't make sense (together, and for this many players)
+ */
+function checkSettings(settings: GameSettings, playerCount: number): void {
+  if (settings.maxPlayers < MIN_PLAYERS || settings.maxPlayers > MAX_PLAYERS) {
+    throw new GameError('INVALID_SETTING', `Max players must be between ${MIN_PLAYERS} and ${MAX_PLAYERS}`, {
+      setting: 'maxPlayers',
+      min: MIN_PLAYERS,
+      max: MAX_PLAYERS,
+    });
+  }
+  if (settings.maxPlayers < playerCount) {
+    throw new GameError('INVALID_SETTING', 'Max players cannot be below the current player count', {
+      setting: 'maxPlayers',
+      min: playerCount,
+      max: MAX_PLAYERS,
+    });
+  }
+  if (settings.minPlayersToStart < MIN_PLAYERS || settings.minPlayersToStart > settings.maxPlayers) {
+    throw new GameError('INVALID_SETTING', 'Invalid minimum player count', {
+      setting: 'minPlayersToStart',
+      min: MIN_PLAYERS,
+      max: settings.maxPlayers,
+    });
+  }
+  if (settings.spectatorRevealDelayMs !== null && settings.spectatorRevealDelayMs < 0) {
+    throw new GameError('INVALID_SETTING', 'Spectator delay cannot be negative', { setting: 'spectatorRevealDelayMs', min: 0 });
+  }
+  if (!Object.hasOwn(TABLE_SPEEDS, settings.speed)) {
+    throw new GameError('INVALID_SETTING', 'Unknown table speed', { setting: 'speed' });
+  }
+
+  const { length } = settings;
+  if (length.maxCards !== undefined && (!Number.isInteger(length.maxCards) || length.maxCards < 2)) {
+    throw new GameError('INVALID_SETTING', 'Max cards must be at least 2', { setting: 'maxCards', min: 2 });
+  }
+  if (length.mode === 'fixedStanzas' && (!Number.isInteger(length.stanzas) || length.stanzas < 1)) {
+    throw new GameError('INVALID_SETTING', 'Game must have at least 1 stanza', { setting: 'stanzas', min: 1 });
+  }
+  if (length.mode === 'targetScore' && (!Number.isInteger(length.targetScore) || length.targetScore < 1)) {
+    throw new GameError('INVALID_SETTING', 'Target score must be at least 1', { setting: 'targetScore', min: 1 });
+  }
+}
+
+/**
+ * Change game settings (including house rules) before the game starts
+ */
+export function updateSettings(
+  game: GameState,
+  settings: Partial<GameSettings>
+): GameState {
+  if (game.phase !== 'waiting') {
+    throw new GameError('GAME_ALREADY_STARTED', 'Cannot change settings after game has started');
+  }
+
+  const newSettings: GameSettings = { ...game.settings, ...settings };
+  checkSettings(newSettings, game.players.length);
+
+  return { ...game, settings: newSettings };
+}
+
 // ============================================================================
 // Game Start
 // ============================================================================
@@ -280,15 +419,18 @@ export function removePlayerAndRedeal(
  */
 export function startGame(game: GameState): { game: GameState; events: GameEvent[] } {
   if (game.phase !== 'waiting') {
-    throw new Error('Game already started');
+    throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
   }
 
   if (game.players.length < game.settings.minPlayersToStart) {
-    throw new Error(`Need at least ${game.settings.minPlayersToStart} players`);
+    throw new GameError('NOT_ENOUGH_PLAYERS', `Need at least ${game.settings.minPlayersToStart} players`, {
+      minPlayers: game.settings.minPlayersToStart,
+    });
   }
 
   // Cut for dealer: deal one card to each player, lowest card deals
-  const cutDeck = shuffleDeck(createDeck());
+  const rng = createSeededRandom(game.rngState);
+  const cutDeck = shuffleDeck(createDeck(game.settings.rules.jokerCount), rng.random);
   const cutCards: Card[] = [];
 
   for (let i = 0; i < game.players.length; i++) {
@@ -316,16 +458,21 @@ export function startGame(game: GameState): { game: GameState; events: GameEvent
     { type: 'cutForDealer', cutCards, dealerIndex },
   ];
 
-  // Start first stanza
+  // Start first stanza (1 card, unless the game length says otherwise)
+  const firstStanza = getFirstStanza(
+    game.settings.length,
+    getScheduleMaxCards(game.players.length, game.settings)
+  );
   const stanzaResult = startStanza(
     {
       ...game,
       phase: 'dealing',
       scorekeeperIndex,
+      rngState: rng.getState(),
     },
     dealerIndex,
-    1, // First stanza deals 1 card
-    'up'
+    firstStanza.cardsPerPlayer,
+    firstStanza.direction
   );
 
   return {
@@ -359,15 +506,17 @@ export function startStanza(
   direction: 'up' | 'down'
 ): { game: GameState; events: GameEvent[] } {
   const numPlayers = game.players.length;
+  const { jokerCount } = game.settings.rules;
 
   // Validate
-  const validation = canStartStanza(numPlayers, cardsPerPlayer);
+  const validation = canStartStanza(numPlayers, cardsPerPlayer, getDeckSize(jokerCount));
   if (!validation.valid) {
     throw new Error(validation.error);
   }
 
-  // Create and shuffle deck
-  const deck = shuffleDeck(createDeck());
+  // Create and shuffle deck (advancing the game's RNG so the deal is reproducible)
+  const rng = createSeededRandom(game.rngState);
+  const deck = shuffleDeck(createDeck(jokerCount), rng.random);
 
   // Deal cards (starting with player to dealer's left)
   const firstPlayerIndex = getNextPlayerIndex(dealerIndex, numPlayers);
@@ -399,6 +548,7 @@ export function startStanza(
     currentTrick: [],
     completedTricks: [],
     tricksTaken: new Array(numPlayers).fill(0),
+    missedWhoopieCalls: new Array(numPlayers).fill(0),
     hands,
     currentPlayerIndex: getFirstBidderIndex(dealerIndex, numPlayers),
   };
@@ -407,6 +557,7 @@ export function startStanza(
     ...game,
     phase: 'bidding',
     stanza,
+    rngState: rng.getState(),
   };
 
   return {
@@ -428,7 +579,7 @@ export function placeBid(
   bid: number
 ): { game: GameState; events: GameEvent[] } {
   if (game.phase !== 'bidding') {
-    throw new Error('Not in bidding phase');
+    throw new GameError('WRONG_PHASE', 'Not in bidding phase', { phase: game.phase });
   }
 
   if (!game.stanza) {
@@ -436,17 +587,22 @@ export function placeBid(
   }
 
   if (playerIndex !== game.stanza.currentPlayerIndex) {
-    throw new Error('Not this player\'s turn to bid');
+    throw new GameError('NOT_YOUR_TURN', 'Not this player\'s turn to bid');
   }
 
-  if (!isValidBid(
-    bid,
+  const validBids = getValidBids(
     playerIndex,
     game.stanza.dealerIndex,
     game.stanza.cardsPerPlayer,
-    game.stanza.bids
-  )) {
-    throw new Error('Invalid bid');
+    game.stanza.bids,
+    game.settings.rules.dealerHook
+  );
+  if (!validBids.includes(bid)) {
+    // A bid in range that isn't allowed can only be the dealer's forbidden bid
+    if (Number.isInteger(bid) && bid >= 0 && bid <= game.stanza.cardsPerPlayer) {
+      throw new GameError('DEALER_HOOK_BID', 'Dealer cannot make bids add up to the cards dealt', { validBids, forbiddenBid: bid });
+    }
+    throw new GameError('INVALID_BID', 'Invalid bid', { validBids });
   }
 
   // Update bids
@@ -505,7 +661,7 @@ export function playCard(
   calledWhoopie: boolean
 ): { game: GameState; events: GameEvent[] } {
   if (game.phase !== 'playing') {
-    throw new Error('Not in playing phase');
+    throw new GameError('WRONG_PHASE', 'Not in playing phase', { phase: game.phase });
   }
 
   if (!game.stanza) {
@@ -513,19 +669,26 @@ export function playCard(
   }
 
   if (playerIndex !== game.stanza.currentPlayerIndex) {
-    throw new Error('Not this player\'s turn');
+    throw new GameError('NOT_YOUR_TURN', 'Not this player\'s turn');
   }
 
   const hand = game.stanza.hands[playerIndex]!;
-  if (!isValidPlay(
-    card,
+  if (!hand.some((c) => cardsEqual(c, card))) {
+    throw new GameError('CARD_NOT_IN_HAND', 'Card is not in your hand');
+  }
+  const validCards = getValidCards(
     hand,
     game.stanza.currentTrick,
     game.stanza.currentTrumpSuit,
     game.stanza.whoopieRank,
     game.stanza.jTrumpActive
-  )) {
-    throw new Error('Invalid play');
+  );
+  if (!validCards.some((c) => cardsEqual(c, card))) {
+    // Anything in hand is playable except when you can follow the suit led
+    throw new GameError('MUST_FOLLOW_SUIT', 'You must follow the suit led', {
+      leadSuit: getLeadSuit(game.stanza.currentTrick) ?? undefined,
+      validCards,
+    });
   }
 
   const events: GameEvent[] = [];
@@ -565,11 +728,13 @@ export function playCard(
     isLead
   );
 
-  // Check if player should have called Whoopie
+  // Check if player should have called Whoopie (only penalized if house rules say so)
   const shouldCallWhoopie = !isJoker(card) && isWhoopieCard(card, newWhoopieRank);
-  const missedWhoopieCall = shouldCallWhoopie && !calledWhoopie;
+  const missedWhoopieCall = shouldCallWhoopie && !calledWhoopie && game.settings.rules.whoopieMissPenalty;
+  const newMissedWhoopieCalls = [...game.stanza.missedWhoopieCalls];
 
   if (missedWhoopieCall) {
+    newMissedWhoopieCalls[playerIndex]!++;
     events.push({ type: 'whoopieCallMissed', playerIndex });
   }
 
@@ -607,7 +772,7 @@ export function playCard(
 
   // Check if trick is complete
   if (newTrick.length === game.players.length) {
-    return completeTrick(game, newTrick, newHands, newTrumpSuit, newWhoopieRank, newJTrumpActive, events, missedWhoopieCall ? playerIndex : null);
+    return completeTrick(game, newTrick, newHands, newTrumpSuit, newWhoopieRank, newJTrumpActive, events, newMissedWhoopieCalls);
   }
 
   // Trick not complete - move to next player
@@ -620,6 +785,7 @@ export function playCard(
     currentTrumpSuit: newTrumpSuit,
     whoopieRank: newWhoopieRank ?? game.stanza.whoopieRank,
     jTrumpActive: newJTrumpActive,
+    missedWhoopieCalls: newMissedWhoopieCalls,
     currentPlayerIndex: nextPlayerIndex,
   };
 
@@ -643,7 +809,7 @@ function completeTrick(
   whoopieRank: Rank | null,
   jTrumpActive: boolean,
   events: GameEvent[],
-  missedWhoopiePlayerIndex: number | null
+  missedWhoopieCalls: number[]
 ): { game: GameState; events: GameEvent[] } {
   if (!game.stanza) {
     throw new Error('No active stanza');
@@ -673,6 +839,7 @@ function completeTrick(
       whoopieRank,
       jTrumpActive,
       newScores,
+      missedWhoopieCalls,
       events,
       trick // Pass the final trick for animation
     );
@@ -686,6 +853,7 @@ function completeTrick(
     currentTrick: trick, // Keep the trick visible during trickEnd phase
     completedTricks: newCompletedTricks,
     tricksTaken: newTricksTaken,
+    missedWhoopieCalls,
     currentTrickNumber: game.stanza.currentTrickNumber + 1,
     currentPlayerIndex: completedTrick.winnerIndex,
     currentTrumpSuit: trumpSuit,
@@ -716,6 +884,7 @@ function completeStanza(
   whoopieRank: Rank | null,
   jTrumpActive: boolean,
   currentScores: number[],
+  missedWhoopieCalls: number[],
   events: GameEvent[],
   finalTrick: PlayedCard[] // The final trick to display during animation
 ): { game: GameState; events: GameEvent[] } {
@@ -723,9 +892,13 @@ function completeStanza(
     throw new Error('No active stanza');
   }
 
-  // Calculate score changes
+  // Calculate score changes (bid result plus any missed Whoopie call penalties)
+  const { rules } = game.settings;
   const bids = game.stanza.bids as number[];
-  const scoreChanges = calculateStanzaScores(bids, tricksTaken);
+  const whoopiePenalty = getMissedWhoopieCallPenalty(rules);
+  const scoreChanges = calculateStanzaScores(bids, tricksTaken, rules).map(
+    (change, i) => change + missedWhoopieCalls[i]! * whoopiePenalty
+  );
   const newScores = applyScoreChanges(currentScores, scoreChanges);
 
   events.push({
@@ -746,18 +919,11 @@ function completeStanza(
     bids,
     tricksTaken,
     scoreChanges,
+    startingScores: currentScores,
     playerIds: game.players.map((p) => p.id),
+    tricks: completedTricks,
   };
 
-  // Calculate next stanza parameters
-  const maxCards = getMaxCardsPerPlayer(game.players.length);
-  const { cardsPerPlayer: nextCards, direction: nextDirection } = getNextCardsPerPlayer(
-    game.stanza.cardsPerPlayer,
-    game.stanza.direction,
-    maxCards
-  );
-  const nextDealerIndex = getNextPlayerIndex(game.stanza.dealerIndex, game.players.length);
-
   // Update truncated average
   const truncatedAverage = calculateTruncatedAverage(newScores);
 
@@ -769,6 +935,7 @@ function completeStanza(
       ...game.stanza,
       hands,
       tricksTaken,
+      missedWhoopieCalls,
       completedTricks,
       currentTrumpSuit: trumpSuit,
       whoopieRank: whoopieRank ?? game.stanza.whoopieRank,
@@ -790,29 +957,99 @@ function completeStanza(
  */
 export function continueToNextStanza(game: GameState): { game: GameState; events: GameEvent[] } {
   if (game.phase !== 'stanzaEnd') {
-    throw new Error('Not in stanza end phase');
+    throw new GameError('WRONG_PHASE', 'Not in stanza end phase', { phase: game.phase });
   }
 
   if (!game.stanza) {
     throw new Error('No stanza data');
   }
 
-  // Check if we've completed a full cycle (went up to max and back down to 1)
-  // Game ends when we finish a stanza at 1 card while going down
-  if (game.stanza.cardsPerPlayer === 1 && game.stanza.direction === 'down') {
+  // Game ends when someone reaches the target score or the schedule runs out
+  // (by default a full cycle: up to max and back down to 1)
+  if (hasReachedTargetScore(game.scores, game.settings.length)) {
     return endGame(game);
   }
 
-  // Calculate next stanza parameters
-  const maxCards = getMaxCardsPerPlayer(game.players.length);
-  const { cardsPerPlayer, direction } = getNextCardsPerPlayer(
-    game.stanza.cardsPerPlayer,
-    game.stanza.direction,
-    maxCards
+  // Seat anyone who joined during the last stanza - the schedule and dealer
+  // rotation below use the new player count
+  const { game: seatedGame, events: seatEvents } = seatPendingPlayers(game);
+
+  const next = getNextStanza(
+    game.stanza,
+    game.completedStanzas.length,
+    game.settings.length,
+    getScheduleMaxCards(seatedGame.players.length, game.settings)
   );
-  const nextDealerIndex = getNextPlayerIndex(game.stanza.dealerIndex, game.players.length);
+  if (!next) {
+    return endGame(game);
+  }
+
+  const nextDealerIndex = getNextPlayerIndex(game.stanza.dealerIndex, seatedGame.players.length);
+
+  const stanzaResult = startStanza(seatedGame, nextDealerIndex, next.cardsPerPlayer, next.direction);
+  return {
+    game: stanzaResult.game,
+    events: [...seatEvents, ...stanzaResult.events],
+  };
+}
+
+/**
+ * Seat queued players at the end of the table
+ * Each starts with the truncated average of the current scores
+ */
+function seatPendingPlayers(game: GameState): { game: GameState; events: GameEvent[] } {
+  if (game.pendingPlayers.length === 0) {
+    return { game, events: [] };
+  }
+
+  const startingScore = calculateTruncatedAverage(game.scores);
+  const events: GameEvent[] = game.pendingPlayers.map((player, i) => ({
+    type: 'playerSeated',
+    player: getPublicPlayer(player),
+    playerIndex: game.players.length + i,
+    startingScore,
+  }));
+  const scores = [...game.scores, ...game.pendingPlayers.map(() => startingScore)];
+
+  return {
+    game: {
+      ...game,
+      players: [...game.players, ...game.pendingPlayers],
+      scores,
+      pendingPlayers: [],
+      truncatedAverage: calculateTruncatedAverage(scores),
+    },
+    events,
+  };
+}
+
+/**
+ * Advance past an end-of-trick or end-of-stanza pause
+ *
+ * From trickEnd: clear the finished trick and resume play
+ * From stanzaEnd: deal the next stanza (or end the game)
+ * Any other phase is left unchanged
+ */
+export function continueGame(game: GameState): { game: GameState; events: GameEvent[] } {
+  if (game.phase === 'stanzaEnd') {
+    return continueToNextStanza(game);
+  }
+
+  if (game.phase === 'trickEnd') {
+    return {
+      game: {
+        ...game,
+        phase: 'playing',
+        stanza: game.stanza ? {
+          ...game.stanza,
+          currentTrick: [], // Clear the trick for the next round
+        } : null,
+      },
+      events: [],
+    };
+  }
 
-  return startStanza(game, nextDealerIndex, cardsPerPlayer, direction);
+  return { game, events: [] };
 }
 
 // ============================================================================
@@ -824,7 +1061,7 @@ export function continueToNextStanza(game: GameState): { game: GameState; events
  */
 export function endGame(game: GameState): { game: GameState; events: GameEvent[] } {
   if (game.phase === 'gameEnd') {
-    throw new Error('Game already ended');
+    throw new GameError('GAME_ENDED', 'Game already ended');
   }
 
   // Calculate final rankings
@@ -857,13 +1094,40 @@ export function endGame(game: GameState): { game: GameState; events: GameEvent[]
 // Player View (hides other players' hands)
 // ============================================================================
 
+/**
+ * A player as the rest of the table sees them: the identity holding a
+ * seat stays on the server
+ */
+export function getPublicPlayer(player: Player): Player {
+  if (player.type !== 'human' || player.identityId === undefined) {
+    return player;
+  }
+  const { identityId: _identityId, ...publicPlayer } = player;
+  return publicPlayer;
+}
+
+// The game without what no one at the table may see (the RNG, seat identities)
+function getPublicGame(game: GameState) {
+  const { rngSeed: _rngSeed, rngState: _rngState, ...publicGame } = game;
+  return {
+    ...publicGame,
+    players: game.players.map(getPublicPlayer),
+    pendingPlayers: game.pendingPlayers.map(getPublicPlayer),
+  };
+}
+
 /**
  * Create a player's view of the game (hiding other hands)
+ * The RNG seed and state are stripped too - they would reveal future deals -
+ * and so are the identities holding the seats
  */
 export function getPlayerView(game: GameState, playerIndex: number) {
+  const publicGame = getPublicGame(game);
+
   if (!game.stanza) {
     return {
-      ...game,
+      ...publicGame,
+      stanza: null,
       myIndex: playerIndex,
     };
   }
@@ -874,7 +1138,7 @@ export function getPlayerView(game: GameState, playerIndex: number) {
   );
 
   return {
-    ...game,
+    ...publicGame,
     stanza: {
       ...game.stanza,
       hands: undefined, // Don't expose all hands
@@ -885,6 +1149,40 @@ export function getPlayerView(game: GameState, playerIndex: number) {
   };
 }
 
+/**
+ * Create a spectator's view of the game
+ * Hands are hidden unless the game reveals them to spectators on a delay -
+ * the server is responsible for holding those updates back, and passes
+ * revealHands = false for views it can't hold back
+ */
+export function getSpectatorView(
+  game: GameState,
+  revealHands: boolean = game.settings.spectatorRevealDelayMs !== null
+) {
+  const publicGame = getPublicGame(game);
+
+  if (!game.stanza) {
+    return {
+      ...publicGame,
+      stanza: null,
+      myIndex: -1,
+      isSpectator: true as const,
+    };
+  }
+
+  return {
+    ...publicGame,
+    stanza: {
+      ...game.stanza,
+      hands: revealHands ? game.stanza.hands : undefined,
+      myHand: [],
+      otherHandCounts: game.stanza.hands.map((hand) => hand.length),
+    },
+    myIndex: -1,
+    isSpectator: true as const,
+  };
+}
+
 // ============================================================================
 // State Queries
 // ============================================================================
@@ -908,7 +1206,8 @@ export function getValidActions(game: GameState): {
         playerIndex,
         game.stanza.dealerIndex,
         game.stanza.cardsPerPlayer,
-        game.stanza.bids
+        game.stanza.bids,
+        game.settings.rules.dealerHook
       ),
       canPlay: [],
     };
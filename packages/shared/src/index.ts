@@ -4,6 +4,9 @@ export * from './types.js';
 // Constants
 export * from './constants.js';
 
+// Seedable RNG
+export * from './random.js';
+
 // Card utilities
 export * from './cards.js';
 
@@ -13,5 +16,32 @@ export * from './rules.js';
 // Scoring
 export * from './scoring.js';
 
+// Stanza schedule / game length
+export * from './schedule.js';
+
+// Table knowledge (card tracking)
+export * from './table-knowledge.js';
+
+// Double-dummy solver
+export * from './double-dummy.js';
+
+// Errors players can cause, with stable codes
+export * from './errors.js';
+
 // Game state machine
 export * from './game-state.js';
+
+// Game log and replay
+export * from './game-log.js';
+
+// Delayed game jobs (AI turns, phase advances)
+export * from './scheduler.js';
+
+// AI strategies
+export * from './ai/index.js';
+
+// Runtime schemas
+export * from './schema.js';
+
+// Socket protocol (event maps and request schemas)
+export * from './protocol.js';
@@ -0,0 +1,240 @@
+import {
+  AIDifficulty,
+  AIPersonalityName,
+  AIPlayer,
+  Card,
+  GameEvent,
+  GameLength,
+  GameSettings,
+  HouseRules,
+  JokerCard,
+  RANKS,
+  SUITS,
+  SuitCard,
+} from './types.js';
+import { HOUSE_RULESETS, MAX_PLAYER_NAME_LENGTH, TABLE_SPEEDS } from './constants.js';
+import { GameError, GameErrorCode, GameErrorDetails } from './errors.js';
+import { getPlayerView, getSpectatorView, getValidActions } from './game-state.js';
+import { Hint } from './ai/hints.js';
+import { PlayerReview } from './ai/review.js';
+import {
+  Schema,
+  booleanSchema,
+  integerSchema,
+  literalSchema,
+  nullableSchema,
+  objectSchema,
+  optionalSchema,
+  stringSchema,
+  taggedUnionSchema,
+} from './schema.js';
+
+// ============================================================================
+// Views
+// ============================================================================
+
+// What the server sends a player or spectator: their view plus what they can do now
+export type GameView = (ReturnType<typeof getPlayerView> | ReturnType<typeof getSpectatorView>) & {
+  validActions: ReturnType<typeof getValidActions>;
+  isMyTurn: boolean;
+};
+
+// ============================================================================
+// Client -> Server Requests
+// ============================================================================
+
+type NoData = Record<never, never>;
+
+// What each request sends
+export interface RequestPayloads {
+  'game:create': { playerName: string; settings?: Partial<GameSettings> };
+  'game:join': { gameId: string; playerName: string };
+  'game:reconnect': { gameId: string; playerId: string };
+  'game:addAI': { gameId: string; difficulty: AIDifficulty; personality?: AIPersonalityName };
+  'game:listBots': NoData;
+  'game:addBot': { gameId: string; botName: string };
+  'game:updateSettings': { gameId: string; settings: Partial<GameSettings> };
+  'game:start': { gameId: string };
+  'game:hint': { gameId: string };
+  'game:review': { gameId: string };
+  'game:spectate': { gameId: string };
+  'game:bid': { gameId: string; bid: number };
+  'game:play': { gameId: string; card: Card; calledWhoopie: boolean };
+  'game:getState': { gameId: string };
+  'game:kick': { gameId: string; targetPlayerId: string };
+  'game:replaceWithAI': { gameId: string; targetPlayerId: string };
+  'game:continueWithout': { gameId: string; targetPlayerId: string };
+  'game:transferHost': { gameId: string; targetPlayerId: string };
+  'game:pause': { gameId: string };
+  'game:checkResumeCode': { resumeCode: string };
+  'game:resume': { resumeCode: string; playerName: string };
+  'game:rejoin': { gameId: string; playerName: string };
+  'game:continueResumed': { gameId: string };
+}
+
+// What each request answers with when it succeeds
+// Requests that seat a player also give the session token to connect with from then on
+export interface RequestResults {
+  'game:create': { gameId: string; view: GameView; sessionToken: string };
+  'game:join': { playerId: string; view: GameView; sessionToken: string };
+  'game:reconnect': { view: GameView; sessionToken: string };
+  'game:addAI': NoData;
+  'game:listBots': { bots: string[] };
+  'game:addBot': NoData;
+  'game:updateSettings': NoData;
+  'game:start': NoData;
+  'game:hint': { hint: Hint };
+  'game:review': { review: PlayerReview };
+  'game:spectate': { view: GameView };
+  'game:bid': NoData;
+  'game:play': NoData;
+  'game:getState': { view: GameView | null };
+  'game:kick': NoData;
+  'game:replaceWithAI': { newPlayer: AIPlayer };
+  'game:continueWithout': NoData;
+  'game:transferHost': NoData;
+  'game:pause': { resumeCode: string };
+  'game:checkResumeCode': { playerNames?: string[] };
+  'game:resume': { gameId: string; playerId: string; playerIndex: number; view: GameView; missingPlayers: string[]; sessionToken: string };
+  'game:rejoin': { playerId: string; playerIndex: number; view: GameView; missingPlayers: string[]; allRejoined: boolean; sessionToken: string };
+  'game:continueResumed': NoData;
+}
+
+export type RequestEvent = keyof RequestPayloads;
+
+// Why a request failed: a GameError's code and details, or only a message for unexpected errors
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  code?: GameErrorCode;
+  details?: GameErrorDetails;
+}
+
+export type Response<T> = ({ success: true } & T) | ErrorResponse;
+
+export type ResponseCallback<E extends RequestEvent> = (response: Response<RequestResults[E]>) => void;
+
+// ============================================================================
+// Socket.io Event Maps
+// ============================================================================
+
+export type ClientToServerEvents = {
+  [E in RequestEvent]: (data: RequestPayloads[E], callback: ResponseCallback<E>) => void;
+} & {
+  'game:leave': () => void;
+  'game:stopSpectating': () => void;
+};
+
+export interface ServerToClientEvents {
+  'game:event': (event: GameEvent) => void;
+  'game:state': (view: GameView) => void;
+  'game:update': (update: { events: GameEvent[]; view: GameView }) => void;
+  'game:kicked': (data: { message: string }) => void;
+  'game:playerDisconnected': (data: { playerId: string; playerName: string }) => void;
+}
+
+// ============================================================================
+// Payload Schemas
+// ============================================================================
+
+const gameId = stringSchema({ minLength: 1 });
+const playerId = stringSchema({ minLength: 1 });
+const playerName = stringSchema({ minLength: 1, maxLength: MAX_PLAYER_NAME_LENGTH });
+const resumeCode = stringSchema({ minLength: 1 });
+
+const card = taggedUnionSchema<Card>('type', {
+  suit: objectSchema<SuitCard>({
+    type: literalSchema(['suit']),
+    suit: literalSchema(SUITS),
+    rank: literalSchema(RANKS),
+  }),
+  joker: objectSchema<JokerCard>({
+    type: literalSchema(['joker']),
+    jokerNumber: literalSchema([1, 2]),
+  }),
+});
+
+const houseRules = objectSchema<HouseRules>({
+  name: literalSchema([...Object.keys(HOUSE_RULESETS) as (keyof typeof HOUSE_RULESETS)[], 'custom']),
+  dealerHook: booleanSchema(),
+  makeBidFormula: literalSchema(['basePlusBid', 'basePlusDoubleBid', 'flat']),
+  makeBidBase: integerSchema(),
+  missBidFormula: literalSchema(['flat', 'perTrick']),
+  missBidPenalty: integerSchema(),
+  whoopieMissPenalty: booleanSchema(),
+  jokerCount: literalSchema([0, 1, 2]),
+});
+
+const maxCards = optionalSchema(integerSchema());
+const gameLength = taggedUnionSchema<GameLength>('mode', {
+  full: objectSchema({ mode: literalSchema(['full']), maxCards }),
+  upOnly: objectSchema({ mode: literalSchema(['upOnly']), maxCards }),
+  downOnly: objectSchema({ mode: literalSchema(['downOnly']), maxCards }),
+  fixedStanzas: objectSchema({ mode: literalSchema(['fixedStanzas']), stanzas: integerSchema(), maxCards }),
+  targetScore: objectSchema({ mode: literalSchema(['targetScore']), targetScore: integerSchema(), maxCards }),
+});
+
+// Only the shape is checked here; createGame and updateSettings check the values make sense together
+const settings = objectSchema<Partial<GameSettings>>({
+  maxPlayers: optionalSchema(integerSchema()),
+  minPlayersToStart: optionalSchema(integerSchema()),
+  isPublic: optionalSchema(booleanSchema()),
+  allowSpectators: optionalSchema(booleanSchema()),
+  spectatorRevealDelayMs: optionalSchema(nullableSchema(integerSchema({ min: 0 }))),
+  rules: optionalSchema(houseRules),
+  length: optionalSchema(gameLength),
+  speed: optionalSchema(literalSchema(Object.keys(TABLE_SPEEDS) as (keyof typeof TABLE_SPEEDS)[])),
+});
+
+const hostAction = objectSchema({ gameId, targetPlayerId: playerId });
+
+export const REQUEST_SCHEMAS: { [E in RequestEvent]: Schema<RequestPayloads[E]> } = {
+  'game:create': objectSchema({ playerName, settings: optionalSchema(settings) }),
+  'game:join': objectSchema({ gameId, playerName }),
+  'game:reconnect': objectSchema({ gameId, playerId }),
+  'game:addAI': objectSchema({
+    gameId,
+    difficulty: literalSchema(['beginner', 'intermediate', 'expert']),
+    personality: optionalSchema(literalSchema(['shark', 'gambler', 'cautious', 'forgetful', 'showoff'])),
+  }),
+  'game:listBots': objectSchema({}),
+  'game:addBot': objectSchema({ gameId, botName: stringSchema({ minLength: 1 }) }),
+  'game:updateSettings': objectSchema({ gameId, settings }),
+  'game:start': objectSchema({ gameId }),
+  'game:hint': objectSchema({ gameId }),
+  'game:review': objectSchema({ gameId }),
+  'game:spectate': objectSchema({ gameId }),
+  'game:bid': objectSchema({ gameId, bid: integerSchema({ min: 0 }) }),
+  'game:play': objectSchema({ gameId, card, calledWhoopie: booleanSchema() }),
+  'game:getState': objectSchema({ gameId }),
+  'game:kick': hostAction,
+  'game:replaceWithAI': hostAction,
+  'game:continueWithout': hostAction,
+  'game:transferHost': hostAction,
+  'game:pause': objectSchema({ gameId }),
+  'game:checkResumeCode': objectSchema({ resumeCode }),
+  'game:resume': objectSchema({ resumeCode, playerName }),
+  'game:rejoin': objectSchema({ gameId, playerName }),
+  'game:continueResumed': objectSchema({ gameId }),
+};
+
+/**
+ * Check a request's payload; returns the error to answer with, or null if it's valid
+ */
+export function validateRequest(event: RequestEvent, data: unknown): ErrorResponse | null {
+  const issues = REQUEST_SCHEMAS[event].check(data, '');
+  if (issues.length === 0) {
+    return null;
+  }
+  return toErrorResponse(new GameError('INVALID_PAYLOAD', `Invalid request: ${issues[0]}`, { issues }));
+}
+
+/**
+ * The answer for a request that threw
+ */
+export function toErrorResponse(error: unknown): ErrorResponse {
+  if (error instanceof GameError) {
+    return { success: false, error: error.message, code: error.code, details: error.details };
+  }
+  return { success: false, error: (error as Error).message };
+}
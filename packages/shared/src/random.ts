@@ -0,0 +1,55 @@
+// ============================================================================
+// Seedable Random Number Generation
+// ============================================================================
+
+/**
+ * A source of random numbers in [0, 1), interchangeable with Math.random
+ */
+export type RandomFn = () => number;
+
+/**
+ * A seeded random source whose internal state can be read back and stored,
+ * so that a game can continue the same sequence later (e.g. after a pause)
+ */
+export interface SeededRandom {
+  random: RandomFn;
+  getState: () => number;
+}
+
+/**
+ * Generate a fresh 32-bit seed (non-deterministic)
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Create a seeded random source (mulberry32)
+ *
+ * The same starting state always produces the same sequence of numbers.
+ * The state is a single unsigned 32-bit integer, so it can be stored on
+ * GameState and serialized with the rest of the game.
+ */
+export function createSeededRandom(state: number): SeededRandom {
+  let current = state >>> 0;
+
+  const random: RandomFn = () => {
+    current = (current + 0x6d2b79f5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+
+  return {
+    random,
+    getState: () => current,
+  };
+}
+
+/**
+ * Pick a random integer in [min, max] (inclusive)
+ */
+export function randomInt(min: number, max: number, random: RandomFn = Math.random): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
@@ -15,6 +15,7 @@ import {
   isWhoopieCard,
   cardsEqual,
 } from './cards.js';
+import { DECK_SIZE } from './constants.js';
 
 // ============================================================================
 // Legal Play Determination
@@ -99,18 +100,20 @@ export function isValidPlay(
  *
  * Rules:
  * - Non-dealers can bid 0 to cardsPerPlayer
- * - Dealer must ensure total bids ≠ cardsPerPlayer (so someone must fail)
+ * - Dealer must ensure total bids ≠ cardsPerPlayer (so someone must fail),
+ *   unless the dealer hook is turned off by house rules
  */
 export function getValidBids(
   playerIndex: number,
   dealerIndex: number,
   cardsPerPlayer: number,
-  existingBids: (number | null)[]
+  existingBids: (number | null)[],
+  dealerHook: boolean = true
 ): number[] {
   const allBids = Array.from({ length: cardsPerPlayer + 1 }, (_, i) => i);
 
-  // Not the dealer - any bid is valid
-  if (playerIndex !== dealerIndex) {
+  // Not the dealer (or no hook) - any bid is valid
+  if (playerIndex !== dealerIndex || !dealerHook) {
     return allBids;
   }
 
@@ -132,10 +135,11 @@ export function isValidBid(
   playerIndex: number,
   dealerIndex: number,
   cardsPerPlayer: number,
-  existingBids: (number | null)[]
+  existingBids: (number | null)[],
+  dealerHook: boolean = true
 ): boolean {
   if (bid < 0 || bid > cardsPerPlayer) return false;
-  const validBids = getValidBids(playerIndex, dealerIndex, cardsPerPlayer, existingBids);
+  const validBids = getValidBids(playerIndex, dealerIndex, cardsPerPlayer, existingBids, dealerHook);
   return validBids.includes(bid);
 }
 
@@ -359,6 +363,57 @@ export function createCompletedTrick(trick: PlayedCard[], whoopieRank: Rank | nu
   };
 }
 
+// The trick in progress and the trump state the next card is played under
+export interface TrickState {
+  trick: PlayedCard[];
+  trumpSuit: Suit | null;
+  whoopieRank: Rank | null;
+  jTrumpActive: boolean;
+}
+
+/**
+ * Add a card to a trick the way playCard does, including a lead that
+ * defines the Whoopie rank
+ */
+export function addCardToTrick(state: TrickState, card: Card, playerIndex: number): TrickState {
+  const isLead = state.trick.length === 0;
+  let { trumpSuit, whoopieRank, jTrumpActive } = state;
+
+  if (isLead && whoopieRank === null) {
+    const firstLead = getTrumpFromFirstLead(card);
+    if (firstLead.autoWin) {
+      jTrumpActive = true;
+    } else {
+      ({ trumpSuit, whoopieRank, jTrumpActive } = firstLead);
+    }
+  }
+
+  const trumpChange = getTrumpStateAfterPlay(
+    card,
+    trumpSuit,
+    whoopieRank,
+    jTrumpActive,
+    getLeadSuit(state.trick),
+    isLead
+  );
+  const played: PlayedCard = {
+    card,
+    playerId: '',
+    playerIndex,
+    trumpSuitAtPlay: trumpSuit,
+    jTrumpActiveAtPlay: jTrumpActive,
+    wasWhoopie: trumpChange.wasWhoopie,
+    wasScramble: trumpChange.wasScramble,
+  };
+
+  return {
+    trick: [...state.trick, played],
+    trumpSuit: trumpChange.newTrumpSuit,
+    whoopieRank,
+    jTrumpActive: trumpChange.newJTrumpActive,
+  };
+}
+
 // ============================================================================
 // Stanza Progression
 // ============================================================================
@@ -488,7 +543,8 @@ export function getTrumpFromFirstLead(firstLead: Card): {
  */
 export function canStartStanza(
   numPlayers: number,
-  cardsPerPlayer: number
+  cardsPerPlayer: number,
+  deckSize: number = DECK_SIZE
 ): { valid: boolean; error?: string } {
   if (numPlayers < 2) {
     return { valid: false, error: 'Need at least 2 players' };
@@ -497,7 +553,6 @@ export function canStartStanza(
     return { valid: false, error: 'Maximum 10 players' };
   }
 
-  const deckSize = 54;
   const cardsNeeded = numPlayers * cardsPerPlayer + 1; // +1 for Whoopie defining card
 
   if (cardsNeeded > deckSize) {
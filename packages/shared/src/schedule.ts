@@ -0,0 +1,119 @@
+import { GameLength, GameSettings } from './types.js';
+import { getMaxCardsPerPlayer, getDeckSize } from './constants.js';
+import { getNextCardsPerPlayer } from './rules.js';
+
+// ============================================================================
+// Stanza Schedule (game length modes)
+// ============================================================================
+
+export interface ScheduledStanza {
+  cardsPerPlayer: number;
+  direction: 'up' | 'down';
+}
+
+/**
+ * Most cards per player for this game: limited by the deck and by the
+ * game length's optional cap
+ */
+export function getScheduleMaxCards(
+  numPlayers: number,
+  settings: Pick<GameSettings, 'length' | 'rules'>
+): number {
+  const deckMax = getMaxCardsPerPlayer(numPlayers, getDeckSize(settings.rules.jokerCount));
+  const cap = settings.length.maxCards;
+  return cap === undefined ? deckMax : Math.min(deckMax, cap);
+}
+
+/**
+ * The first stanza of a game
+ *
+ * Down-only games start at the most cards; everything else starts at 1
+ */
+export function getFirstStanza(length: GameLength, maxCards: number): ScheduledStanza {
+  if (length.mode === 'downOnly') {
+    return { cardsPerPlayer: maxCards, direction: 'down' };
+  }
+  return { cardsPerPlayer: 1, direction: 'up' };
+}
+
+/**
+ * The stanza after the current one, or null if the schedule is finished
+ *
+ * - full: 1 -> max -> 1, then the game ends
+ * - upOnly: 1 -> max
+ * - downOnly: max -> 1
+ * - fixedStanzas: follows the full pattern (repeating) for N stanzas
+ * - targetScore: follows the full pattern (repeating) until someone reaches
+ *   the target - scores are checked separately, so this never returns null
+ */
+export function getNextStanza(
+  current: ScheduledStanza,
+  stanzasPlayed: number,
+  length: GameLength,
+  maxCards: number
+): ScheduledStanza | null {
+  const { cardsPerPlayer, direction } = current;
+
+  switch (length.mode) {
+    case 'full':
+      if (cardsPerPlayer <= 1 && direction === 'down') return null;
+      break;
+    case 'upOnly':
+      if (cardsPerPlayer >= maxCards) return null;
+      return { cardsPerPlayer: cardsPerPlayer + 1, direction: 'up' };
+    case 'downOnly':
+      if (cardsPerPlayer <= 1) return null;
+      return { cardsPerPlayer: Math.min(cardsPerPlayer - 1, maxCards), direction: 'down' };
+    case 'fixedStanzas':
+      if (stanzasPlayed >= length.stanzas) return null;
+      break;
+    case 'targetScore':
+      break;
+  }
+
+  const next = getNextCardsPerPlayer(cardsPerPlayer, direction, maxCards);
+  // The player count (and so the max) can change mid-game
+  return { ...next, cardsPerPlayer: Math.min(next.cardsPerPlayer, maxCards) };
+}
+
+/**
+ * Check if a "first to N points" game has been won
+ */
+export function hasReachedTargetScore(scores: number[], length: GameLength): boolean {
+  return length.mode === 'targetScore' && scores.some((score) => score >= length.targetScore);
+}
+
+/**
+ * Stanzas still to come after the current one, or null for open-ended
+ * (target score) games
+ */
+export function getRemainingSchedule(
+  current: ScheduledStanza,
+  stanzasPlayed: number,
+  length: GameLength,
+  maxCards: number
+): ScheduledStanza[] | null {
+  if (length.mode === 'targetScore') return null;
+
+  const remaining: ScheduledStanza[] = [];
+  let next = getNextStanza(current, stanzasPlayed, length, maxCards);
+  while (next) {
+    remaining.push(next);
+    next = getNextStanza(next, stanzasPlayed + remaining.length, length, maxCards);
+  }
+  return remaining;
+}
+
+/**
+ * The whole planned schedule for a game that hasn't started yet,
+ * or null for open-ended (target score) games
+ */
+export function getStanzaSchedule(
+  numPlayers: number,
+  settings: Pick<GameSettings, 'length' | 'rules'>
+): ScheduledStanza[] | null {
+  const maxCards = getScheduleMaxCards(numPlayers, settings);
+  const first = getFirstStanza(settings.length, maxCards);
+  const rest = getRemainingSchedule(first, 1, settings.length, maxCards);
+  return rest ? [first, ...rest] : null;
+}
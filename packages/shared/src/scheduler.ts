@@ -0,0 +1,143 @@
+// ============================================================================
+// Game Job Scheduling (AI turns and phase advances)
+// ============================================================================
+
+/**
+ * A source of time and timers, interchangeable with the global timers
+ */
+export interface Clock {
+  now: () => number;
+  setTimer: (callback: () => void, delayMs: number) => unknown;
+  clearTimer: (timer: unknown) => void;
+}
+
+/**
+ * A clock that only moves when told to (for tests)
+ */
+export interface ManualClock extends Clock {
+  advance: (ms: number) => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimer: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimer: (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Create a manual clock starting at the given time
+ *
+ * advance runs every timer that comes due, in order, including timers set
+ * by those timers.
+ */
+export function createManualClock(start: number = 0): ManualClock {
+  let current = start;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  return {
+    now: () => current,
+    setTimer: (callback, delayMs) => {
+      const id = nextId++;
+      timers.set(id, { at: current + Math.max(0, delayMs), callback });
+      return id;
+    },
+    clearTimer: (timer) => {
+      timers.delete(timer as number);
+    },
+    advance: (ms) => {
+      const end = current + ms;
+      for (;;) {
+        // Earliest due timer (ties go to the one set first)
+        let due: [number, { at: number; callback: () => void }] | undefined;
+        for (const entry of timers) {
+          if (entry[1].at <= end && (!due || entry[1].at < due[1].at)) due = entry;
+        }
+        if (!due) break;
+
+        timers.delete(due[0]);
+        current = due[1].at;
+        due[1].callback();
+      }
+      current = end;
+    },
+  };
+}
+
+// Job key for a seat's AI bid or play (a seat never has two pending)
+export function getSeatJobKey(playerIndex: number): string {
+  return `seat:${playerIndex}`;
+}
+
+// Job key for moving a game on from trickEnd / stanzaEnd
+export const ADVANCE_JOB_KEY = 'advance';
+
+/**
+ * Pending delayed jobs for each game, by key
+ */
+export interface GameScheduler {
+  /** Run a job after a delay; returns false (and does nothing) if one with this key is already pending */
+  schedule: (gameId: string, key: string, delayMs: number, run: () => void) => boolean;
+  cancel: (gameId: string, key: string) => boolean;
+  /** Cancel every pending job of a game (pause, removal, redeal); returns how many were cancelled */
+  cancelGame: (gameId: string) => number;
+  isPending: (gameId: string, key: string) => boolean;
+  getPendingKeys: (gameId: string) => string[];
+}
+
+/**
+ * Create a scheduler on the given clock
+ *
+ * A job is no longer pending once it starts running, so it can schedule
+ * the next job under its own key.
+ */
+export function createGameScheduler(clock: Clock = systemClock): GameScheduler {
+  const jobs = new Map<string, Map<string, unknown>>(); // gameId -> key -> timer
+
+  const remove = (gameId: string, key: string): unknown => {
+    const gameJobs = jobs.get(gameId);
+    const timer = gameJobs?.get(key);
+    if (!gameJobs || timer === undefined) return undefined;
+
+    gameJobs.delete(key);
+    if (gameJobs.size === 0) jobs.delete(gameId);
+    return timer;
+  };
+
+  return {
+    schedule: (gameId, key, delayMs, run) => {
+      let gameJobs = jobs.get(gameId);
+      if (gameJobs?.has(key)) return false;
+
+      if (!gameJobs) {
+        gameJobs = new Map();
+        jobs.set(gameId, gameJobs);
+      }
+      gameJobs.set(key, clock.setTimer(() => {
+        remove(gameId, key);
+        run();
+      }, delayMs));
+      return true;
+    },
+
+    cancel: (gameId, key) => {
+      const timer = remove(gameId, key);
+      if (timer === undefined) return false;
+      clock.clearTimer(timer);
+      return true;
+    },
+
+    cancelGame: (gameId) => {
+      const gameJobs = jobs.get(gameId);
+      if (!gameJobs) return 0;
+
+      jobs.delete(gameId);
+      for (const timer of gameJobs.values()) clock.clearTimer(timer);
+      return gameJobs.size;
+    },
+
+    isPending: (gameId, key) => jobs.get(gameId)?.has(key) ?? false,
+
+    getPendingKeys: (gameId) => [...(jobs.get(gameId)?.keys() ?? [])],
+  };
+}
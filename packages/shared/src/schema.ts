@@ -0,0 +1,121 @@
+// ============================================================================
+// Runtime Schemas (for payloads from the network)
+// ============================================================================
+
+/**
+ * A runtime check that a value is a T
+ *
+ * check returns one message per problem, naming where it was found
+ * ('card.rank must be one of ...'); an empty list means the value is valid.
+ */
+export interface Schema<T> {
+  check(value: unknown, path: string): string[];
+  readonly type?: T;             // Never set; carries T for type checking
+}
+
+// How a value is named in messages ('payload' at the top level)
+function describe(path: string): string {
+  return path || 'payload';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function stringSchema(options: { minLength?: number; maxLength?: number } = {}): Schema<string> {
+  const { minLength = 0, maxLength = Infinity } = options;
+  return {
+    check: (value, path) => {
+      if (typeof value !== 'string') return [`${describe(path)} must be a string`];
+      if (value.length < minLength) {
+        return [minLength === 1 ? `${describe(path)} must not be empty` : `${describe(path)} must be at least ${minLength} characters`];
+      }
+      if (value.length > maxLength) return [`${describe(path)} must be at most ${maxLength} characters`];
+      return [];
+    },
+  };
+}
+
+export function integerSchema(options: { min?: number; max?: number } = {}): Schema<number> {
+  const { min = -Infinity, max = Infinity } = options;
+  return {
+    check: (value, path) => {
+      if (!Number.isInteger(value)) return [`${describe(path)} must be an integer`];
+      if ((value as number) < min || (value as number) > max) {
+        return [`${describe(path)} must be between ${min} and ${max}`];
+      }
+      return [];
+    },
+  };
+}
+
+export function booleanSchema(): Schema<boolean> {
+  return {
+    check: (value, path) => (typeof value === 'boolean' ? [] : [`${describe(path)} must be true or false`]),
+  };
+}
+
+/**
+ * One of a fixed set of strings or numbers
+ */
+export function literalSchema<T extends string | number>(values: readonly T[]): Schema<T> {
+  return {
+    check: (value, path) =>
+      values.includes(value as T) ? [] : [`${describe(path)} must be one of ${values.join(', ')}`],
+  };
+}
+
+export function optionalSchema<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check: (value, path) => (value === undefined ? [] : schema.check(value, path)),
+  };
+}
+
+export function nullableSchema<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    check: (value, path) => (value === null ? [] : schema.check(value, path)),
+  };
+}
+
+/**
+ * An object with exactly these fields (unknown fields are rejected)
+ * Fields whose schema is optional may be left out.
+ */
+export function objectSchema<T>(fields: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    check: (value, path) => {
+      if (!isRecord(value)) return [`${describe(path)} must be an object`];
+
+      const prefix = path ? `${path}.` : '';
+      const issues: string[] = [];
+      for (const key of Object.keys(value)) {
+        if (!Object.hasOwn(fields, key)) {
+          issues.push(`${prefix}${key} is not allowed`);
+        }
+      }
+      for (const [key, schema] of Object.entries(fields) as [string, Schema<unknown>][]) {
+        issues.push(...schema.check(value[key], `${prefix}${key}`));
+      }
+      return issues;
+    },
+  };
+}
+
+/**
+ * Objects told apart by one field (e.g. a card's type or a game length's mode)
+ */
+export function taggedUnionSchema<T>(tag: string, variants: Record<string, Schema<T>>): Schema<T> {
+  const tags = Object.keys(variants);
+  return {
+    check: (value, path) => {
+      if (!isRecord(value)) return [`${describe(path)} must be an object`];
+
+      const kind = value[tag];
+      const variant = typeof kind === 'string' && Object.hasOwn(variants, kind) ? variants[kind] : undefined;
+      if (!variant) {
+        return [`${path ? `${path}.` : ''}${tag} must be one of ${tags.join(', ')}`];
+      }
+      return variant.check(value, path);
+    },
+  };
+}
@@ -1,4 +1,5 @@
-import { SCORE_MAKE_BID_BASE, SCORE_MISS_BID, SCORE_MISSED_WHOOPIE_CALL } from './constants.js';
+import type { HouseRules } from './types.js';
+import { DEFAULT_HOUSE_RULES, SCORE_MISSED_WHOOPIE_CALL } from './constants.js';
 
 // ============================================================================
 // Stanza Scoring
@@ -7,15 +8,32 @@ import { SCORE_MAKE_BID_BASE, SCORE_MISS_BID, SCORE_MISSED_WHOOPIE_CALL } from '
 /**
  * Calculate score change for a single player in a stanza
  *
- * Rules:
+ * Standard rules:
  * - If player takes exactly their bid: score = 2 + bid
  * - If player takes more or fewer than bid: score = -1
+ *
+ * House rules can change the base, the formula, and the miss penalty.
  */
-export function calculatePlayerStanzaScore(bid: number, tricksTaken: number): number {
+export function calculatePlayerStanzaScore(
+  bid: number,
+  tricksTaken: number,
+  rules: HouseRules = DEFAULT_HOUSE_RULES
+): number {
   if (tricksTaken === bid) {
-    return SCORE_MAKE_BID_BASE + bid;
+    switch (rules.makeBidFormula) {
+      case 'basePlusBid':
+        return rules.makeBidBase + bid;
+      case 'basePlusDoubleBid':
+        return rules.makeBidBase + bid * 2;
+      case 'flat':
+        return rules.makeBidBase;
+    }
+  }
+
+  if (rules.missBidFormula === 'perTrick') {
+    return rules.missBidPenalty * Math.abs(tricksTaken - bid);
   }
-  return SCORE_MISS_BID;
+  return rules.missBidPenalty;
 }
 
 /**
@@ -23,14 +41,15 @@ export function calculatePlayerStanzaScore(bid: number, tricksTaken: number): nu
  */
 export function calculateStanzaScores(
   bids: number[],
-  tricksTaken: number[]
+  tricksTaken: number[],
+  rules: HouseRules = DEFAULT_HOUSE_RULES
 ): number[] {
   if (bids.length !== tricksTaken.length) {
     throw new Error('Bids and tricks taken arrays must have same length');
   }
 
   return bids.map((bid, index) =>
-    calculatePlayerStanzaScore(bid, tricksTaken[index]!)
+    calculatePlayerStanzaScore(bid, tricksTaken[index]!, rules)
   );
 }
 
@@ -56,8 +75,8 @@ export function applyScoreChanges(
  * Calculate penalty for missing a Whoopie call
  * (Player plays a Whoopie card but doesn't say "Whoopie" before next card)
  */
-export function getMissedWhoopieCallPenalty(): number {
-  return SCORE_MISSED_WHOOPIE_CALL;
+export function getMissedWhoopieCallPenalty(rules: HouseRules = DEFAULT_HOUSE_RULES): number {
+  return rules.whoopieMissPenalty ? SCORE_MISSED_WHOOPIE_CALL : 0;
 }
 
 // ============================================================================
@@ -0,0 +1,77 @@
+import { Card, CompletedTrick, PlayedCard, Rank, Suit, SUITS } from './types.js';
+import { cardsEqual, createDeck, isJoker, isSuitCard } from './cards.js';
+import { getLeadSuit } from './rules.js';
+
+// ============================================================================
+// Table Knowledge (card tracking)
+// ============================================================================
+
+// What one seat at the table has seen of a stanza
+export interface TableKnowledgeInput {
+  numPlayers: number;
+  jokerCount: number;
+  hand: Card[];                  // The observer's own hand ([] for spectators)
+  whoopieDefiningCard: Card | null;
+  whoopieRank: Rank | null;
+  completedTricks: CompletedTrick[];
+  currentTrick: PlayedCard[];
+}
+
+export interface TableKnowledge {
+  playedCards: Card[];           // Every card played this stanza, in order
+  unseenCards: Card[];           // Cards in other players' hands (or never dealt)
+  remainingWhoopieCards: Card[]; // Non-joker Whoopie cards not yet played (yours included)
+  remainingJokers: number;       // Jokers not yet played (yours included)
+  voids: Suit[][];               // voids[playerIndex] = suits that player has failed to follow
+}
+
+/**
+ * Work out what a player knows about the cards from the tricks played so far
+ *
+ * A player who doesn't follow the suit led has no cards of that suit left -
+ * Whoopie cards and jokers can't be played instead of a card of the led suit.
+ */
+export function getTableKnowledge(input: TableKnowledgeInput): TableKnowledge {
+  const tricks = [...input.completedTricks.map((trick) => trick.cards), input.currentTrick];
+  const playedCards = tricks.flatMap((trick) => trick.map((played) => played.card));
+
+  const voids: Suit[][] = Array.from({ length: input.numPlayers }, () => []);
+  for (const trick of tricks) {
+    const leadSuit = getLeadSuit(trick);
+    if (!leadSuit) continue;
+
+    for (const played of trick.slice(1)) {
+      const followed = isSuitCard(played.card) && played.card.suit === leadSuit;
+      const playerVoids = voids[played.playerIndex];
+      if (!followed && playerVoids && !playerVoids.includes(leadSuit)) {
+        playerVoids.push(leadSuit);
+      }
+    }
+  }
+
+  const known = [
+    ...playedCards,
+    ...(input.whoopieDefiningCard ? [input.whoopieDefiningCard] : []),
+  ];
+  const outOfPlay = (card: Card) => known.some((k) => cardsEqual(k, card));
+  const deck = createDeck(input.jokerCount);
+
+  return {
+    playedCards,
+    unseenCards: deck.filter(
+      (card) => !outOfPlay(card) && !input.hand.some((h) => cardsEqual(h, card))
+    ),
+    remainingWhoopieCards: deck.filter(
+      (card) => isSuitCard(card) && card.rank === input.whoopieRank && !outOfPlay(card)
+    ),
+    remainingJokers: deck.filter((card) => isJoker(card) && !outOfPlay(card)).length,
+    voids: voids.map((suits) => SUITS.filter((suit) => suits.includes(suit))),
+  };
+}
+
+/**
+ * Could this player be holding the card, given the suits they've shown out of?
+ */
+export function couldHoldCard(knowledge: TableKnowledge, playerIndex: number, card: Card): boolean {
+  return !isSuitCard(card) || !(knowledge.voids[playerIndex] ?? []).includes(card.suit);
+}
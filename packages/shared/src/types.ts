@@ -38,6 +38,7 @@ export interface HumanPlayer {
   id: string;
   name: string;
   isConnected: boolean;
+  identityId?: string;  // The identity whose session token holds this seat (absent in games from before identities)
 }
 
 export interface AIPlayer {
@@ -45,8 +46,13 @@ export interface AIPlayer {
   id: string;
   name: string;
   difficulty: AIDifficulty;
+  strategy?: string;             // Registered AI strategy to use (defaults to difficulty)
+  personality?: AIPersonalityName; // Table habits and avatar (see AI_PERSONALITIES); none plays the strategy straight
+  externalBot?: string;          // Registered external bot that decides; the strategy covers when it doesn't answer
 }
 
+export type AIPersonalityName = 'shark' | 'gambler' | 'cautious' | 'forgetful' | 'showoff';
+
 export type Player = HumanPlayer | AIPlayer;
 
 // ============================================================================
@@ -113,6 +119,7 @@ export interface StanzaState {
   currentTrick: PlayedCard[];
   completedTricks: CompletedTrick[];
   tricksTaken: number[];         // Count per player
+  missedWhoopieCalls: number[];  // Uncalled Whoopie cards per player (penalized at stanza end)
 
   // Hands
   hands: Card[][];               // hands[playerIndex] = that player's cards
@@ -121,6 +128,57 @@ export interface StanzaState {
   currentPlayerIndex: number;
 }
 
+// ============================================================================
+// House Rules
+// ============================================================================
+
+export type RulesetName = 'standard' | 'noHook' | 'cutthroat' | 'casual' | 'noJokers';
+
+// Made bid: basePlusBid = base + bid, basePlusDoubleBid = base + 2 * bid, flat = base
+export type MakeBidFormula = 'basePlusBid' | 'basePlusDoubleBid' | 'flat';
+
+// Missed bid: flat = penalty, perTrick = penalty * |tricks - bid|
+export type MissBidFormula = 'flat' | 'perTrick';
+
+export interface HouseRules {
+  name: RulesetName | 'custom';
+  dealerHook: boolean;           // Dealer may not bring total bids to cardsPerPlayer
+  makeBidFormula: MakeBidFormula;
+  makeBidBase: number;
+  missBidFormula: MissBidFormula;
+  missBidPenalty: number;        // Negative
+  whoopieMissPenalty: boolean;   // Penalize playing a Whoopie card without calling it
+  jokerCount: 0 | 1 | 2;         // Jokers in the deck
+}
+
+// ============================================================================
+// Game Length
+// ============================================================================
+
+// How many stanzas a game runs for; maxCards optionally caps cards per player
+export type GameLength =
+  | { mode: 'full'; maxCards?: number }                              // 1 -> max -> 1
+  | { mode: 'upOnly'; maxCards?: number }                            // 1 -> max
+  | { mode: 'downOnly'; maxCards?: number }                          // max -> 1
+  | { mode: 'fixedStanzas'; stanzas: number; maxCards?: number }     // N stanzas
+  | { mode: 'targetScore'; targetScore: number; maxCards?: number }; // First to N points
+
+export type GameLengthMode = GameLength['mode'];
+
+// How fast the table moves: AI thinking time and the pauses after tricks and stanzas
+export type TableSpeed = 'relaxed' | 'normal' | 'fast' | 'instant';
+
+// All times in milliseconds
+export interface TableTiming {
+  aiBidDelayMin: number;
+  aiBidDelayMax: number;
+  aiPlayDelayMin: number;
+  aiPlayDelayMax: number;
+  trickDisplayTime: number;      // Completed trick stays on the table before it's collected (client)
+  trickEndPause: number;         // trickEnd until the next trick starts (server)
+  stanzaEndPause: number;        // stanzaEnd (score changes shown) until the next stanza starts (server)
+}
+
 // ============================================================================
 // Full Game State
 // ============================================================================
@@ -130,6 +188,10 @@ export interface GameSettings {
   minPlayersToStart: number;     // Minimum to begin
   isPublic: boolean;             // Visible in lobby?
   allowSpectators: boolean;
+  spectatorRevealDelayMs: number | null; // Show spectators every hand this long after the fact (null = no hands)
+  rules: HouseRules;
+  length: GameLength;
+  speed: TableSpeed;
 }
 
 export interface GameState {
@@ -143,6 +205,7 @@ export interface GameState {
   // Players
   players: Player[];
   scorekeeperIndex: number | null;  // Determined by initial cut
+  pendingPlayers: Player[];         // Joined mid-game, seated at the start of the next stanza
 
   // Scores (cumulative across stanzas)
   scores: number[];
@@ -155,6 +218,13 @@ export interface GameState {
 
   // For new players joining mid-game
   truncatedAverage: number;
+
+  // Coaching hints shown, by player id
+  hintsUsed: Record<string, number>;
+
+  // Seeded RNG (shuffles and cuts) - same seed + same actions = same game
+  rngSeed: number;               // Seed the game was created with
+  rngState: number;              // Current RNG state, advanced by each shuffle
 }
 
 export interface CompletedStanzaRecord {
@@ -165,7 +235,9 @@ export interface CompletedStanzaRecord {
   bids: number[];
   tricksTaken: number[];
   scoreChanges: number[];        // Points earned/lost this stanza
+  startingScores: number[];      // Everyone's score before this stanza
   playerIds: string[];           // Who was playing (for mid-game joins)
+  tricks: CompletedTrick[];      // Every trick in play order (for post-game review)
 }
 
 // ============================================================================
@@ -174,9 +246,12 @@ export interface CompletedStanzaRecord {
 
 export type GameEvent =
   | { type: 'playerJoined'; player: Player }
+  | { type: 'playerQueued'; player: Player } // Joined mid-game, seated at the next stanza
+  | { type: 'playerSeated'; player: Player; playerIndex: number; startingScore: number }
   | { type: 'playerLeft'; playerId: string; playerName?: string; replacement?: Player }
   | { type: 'playerRejoined'; playerIndex: number; playerName: string } // Player rejoined a resumed game
   | { type: 'playerReconnected'; playerIndex: number; playerName: string } // Player reconnected after socket drop
+  | { type: 'hostChanged'; playerId: string; playerName: string } // Someone else is the host now
   | { type: 'gameStarted' }
   | { type: 'gamePaused'; resumeCode: string } // Game was paused
   | { type: 'gameResuming'; playerNames: string[] } // Game is being resumed, waiting for players
@@ -206,6 +281,39 @@ export type ClientAction =
   | { type: 'removePlayer'; playerId: string }
   | { type: 'replaceWithAI'; playerId: string; difficulty: AIDifficulty };
 
+// ============================================================================
+// Game Log (event sourcing)
+// ============================================================================
+
+// Every state-changing step applied to a GameState. Replaying the same actions
+// from the same initial state (same RNG seed) rebuilds the same game.
+// Connection status (isConnected) is transport state and is not logged.
+export type GameAction =
+  | { type: 'addPlayer'; player: Player }
+  | { type: 'removePlayer'; playerId: string; replacement?: Player }
+  | { type: 'removePlayerAndRedeal'; playerId: string }
+  | { type: 'transferHost'; playerId: string }
+  | { type: 'recordHint'; playerId: string }
+  | { type: 'updateSettings'; settings: Partial<GameSettings> }
+  | { type: 'startGame' }
+  | { type: 'placeBid'; playerIndex: number; bid: number }
+  | { type: 'playCard'; playerIndex: number; card: Card; calledWhoopie: boolean }
+  | { type: 'continueGame' }
+  | { type: 'endGame' };
+
+export interface GameLogEntry {
+  seq: number;                   // 0-indexed position in the log
+  timestamp: number;             // Unix timestamp when applied
+  action: GameAction;
+}
+
+export interface GameLog {
+  version: number;               // GAME_LOG_VERSION the log was written with
+  gameId: string;
+  initialState: GameState;
+  entries: GameLogEntry[];       // Append-only
+}
+
 // ============================================================================
 // Utility Types
 // ============================================================================
@@ -218,7 +326,7 @@ export interface GameResult {
 
 // What a player can see (hides other players' hands)
 export interface PlayerView {
-  gameState: Omit<GameState, 'stanza'> & {
+  gameState: Omit<GameState, 'stanza' | 'rngSeed' | 'rngState'> & {
     stanza: Omit<StanzaState, 'hands'> & {
       myHand: Card[];
       otherHandCounts: number[]; // How many cards each player has (indexed by player)
@@ -226,3 +334,14 @@ export interface PlayerView {
   };
   myIndex: number;
 }
+
+// What a spectator can see: no hands, or every hand if the game reveals them on a delay
+export interface SpectatorView {
+  gameState: Omit<GameState, 'stanza' | 'rngSeed' | 'rngState'> & {
+    stanza: Omit<StanzaState, 'hands'> & {
+      hands?: Card[][];
+      otherHandCounts: number[];
+    } | null;
+  };
+  isSpectator: true;
+}
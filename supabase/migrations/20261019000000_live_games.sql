@@ -0,0 +1,23 @@
+-- Checkpoints of games in progress (SupabaseGameStore in packages/server/src/services/game-store.ts)
+
+-- Each game's latest state, and its log without the entries
+create table if not exists live_games (
+  id text primary key,
+  game_state jsonb not null,
+  game_log jsonb not null,
+  entry_count integer not null default 0,   -- Entries of the log the state goes with
+  updated_at timestamptz not null default now()
+);
+
+-- The log entries, appended as the game goes on (rows at or past entry_count are
+-- from a checkpoint that didn't finish, and are ignored)
+create table if not exists live_game_entries (
+  game_id text not null,
+  seq integer not null,
+  entry jsonb not null,
+  primary key (game_id, seq)
+);
+
+-- Only the server (with the service role key) reads or writes them
+alter table live_games enable row level security;
+alter table live_game_entries enable row level security;